@@ -3,7 +3,7 @@ import * as path from "path";
 import * as tmp from "tmp-promise";
 import { Readable } from "stream";
 import { mkdtemp, createReadStream } from "fs";
-import { PlatformTriple, detectPlatformTriple } from "../types";
+import { PlatformTriple, detectPlatformTriple, getProxyForURL, isProxyBypassed } from "../types";
 import * as fs from "fs-extra";
 
 // tslint:disable-next-line no-var-requires
@@ -102,7 +102,7 @@ export class WebAgentDownloader implements AgentDownloader {
 
                 // Perform download
                 this.logFn(`[scout/agent-downloader/web] Downloading from URL [${url}]`, LogLevel.Debug);
-                return download(url, downloadDir, {extract: true})
+                return download(url, downloadDir, {extract: true, ...this.buildProxyOptions(url, opts)})
                 // Ensure file download succeeded
                     .then(() => fs.pathExists(expectedBinPath))
                     .then(exists => {
@@ -117,6 +117,31 @@ export class WebAgentDownloader implements AgentDownloader {
             });
     }
 
+    /**
+     * Build the options that route a download through a proxy (if one should be used)
+     *
+     * @param {string} url - URL that will be downloaded
+     * @param {AgentDownloadOptions} [opts]
+     * @returns {Object} options to pass to download()
+     */
+    private buildProxyOptions(url: string, opts?: AgentDownloadOptions): {proxy?: string, agent?: false} {
+        const proxy = getProxyForURL(url, opts && opts.httpProxy);
+        if (proxy) {
+            // Credentials of the proxy should never be logged
+            const redacted = proxy.replace(/\/\/[^@\/]*@/, "//");
+            this.logFn(`[scout/agent-downloader/web] Downloading through proxy [${redacted}]`, LogLevel.Debug);
+            return {proxy};
+        }
+
+        // download() would pick up the proxy ENV variables on it's own, so hosts in NO_PROXY need a direct agent
+        if (isProxyBypassed(url, process.env.NO_PROXY || process.env.no_proxy)) {
+            this.logFn(`[scout/agent-downloader/web] Bypassing proxy for [${url}] (NO_PROXY)`, LogLevel.Debug);
+            return {agent: false};
+        }
+
+        return {};
+    }
+
     /**
      * Retrieve a cached binary from a given base directory
      * (either core-agent binary is @  `dir/<version>/core-agent` or `dir/core-agent`
@@ -192,7 +217,7 @@ export class WebAgentDownloader implements AgentDownloader {
                     Constants.CORE_AGENT_BIN_FILE_NAME,
                 );
 
-                const options = {extract: adc.zipped};
+                const options = {extract: adc.zipped, ...this.buildProxyOptions(adc.url, opts)};
 
                 // Ensure we're not attempting to do a download if they're disallowed
                 if (opts && opts.disallowDownload) { throw new Errors.ExternalDownloadDisallowed(); }
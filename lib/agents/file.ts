@@ -0,0 +1,104 @@
+import { EventEmitter } from "events";
+import * as path from "path";
+import { appendFile, ensureDir } from "fs-extra";
+import * as Errors from "../errors";
+
+import {
+    Agent,
+    AgentEvent,
+    AgentStatus,
+    AgentType,
+    BaseAgentRequest,
+    BaseAgentResponse,
+    FileAgentOptions,
+    LogFn,
+    LogLevel,
+} from "../types";
+
+import { V1AgentResponse } from "../protocol/v1/responses";
+
+/**
+ * Agent that appends every message it is sent to a file (as newline-delimited JSON),
+ * rather than passing them to a core-agent, answering with the responses core-agent would send on success
+ *
+ * @class
+ */
+export default class FileAgent extends EventEmitter implements Agent {
+    private readonly agentType: AgentType = AgentType.File;
+    private readonly opts: FileAgentOptions;
+
+    private connected: boolean = false;
+    private logFn: LogFn;
+
+    // Writes are chained so messages end up in the file in the order they were sent
+    private lastWrite: Promise<void> = Promise.resolve();
+
+    constructor(opts: FileAgentOptions, logFn?: LogFn) {
+        super();
+
+        if (!opts || !opts.filePath) {
+            throw new Errors.UnexpectedError("Invalid FileAgentOptions object, filePath is missing");
+        }
+        this.opts = opts;
+
+        this.logFn = logFn ? logFn : () => undefined;
+    }
+
+    /** @see Agent */
+    public type(): Readonly<AgentType> { return this.agentType; }
+
+    /** @see Agent */
+    public options(): Readonly<FileAgentOptions> { return Object.assign({}, this.opts); }
+
+    /** @see Agent */
+    public status(): Promise<AgentStatus> {
+        return Promise.resolve({connected: this.connected});
+    }
+
+    /** @see Agent */
+    public start(): Promise<this> {
+        this.logFn(`[scout/file] writing messages to [${this.opts.filePath}]`, LogLevel.Debug);
+
+        return ensureDir(path.dirname(this.opts.filePath))
+            .then(() => this);
+    }
+
+    /** @see Agent */
+    public connect(): Promise<AgentStatus> {
+        this.connected = true;
+        return this.status();
+    }
+
+    /** @see Agent */
+    public disconnect(): Promise<AgentStatus> {
+        this.connected = false;
+
+        // Wait for pending writes to make it to the file
+        return this.lastWrite.then(() => this.status());
+    }
+
+    /** @see Agent */
+    public send<T extends BaseAgentRequest, R extends BaseAgentResponse>(msg: T): Promise<R> {
+        return this.sendAsync(msg)
+            .then(() => V1AgentResponse.successFor(msg) as R);
+    }
+
+    /** @see Agent */
+    public sendAsync<T extends BaseAgentRequest>(msg: T): Promise<void> {
+        if (!this.connected) { return Promise.reject(new Errors.Disconnected()); }
+        if (!msg) { return Promise.reject(new Errors.UnexpectedError("No message provided to send()")); }
+
+        const line = `${JSON.stringify(msg.json)}\n`;
+
+        this.lastWrite = this.lastWrite
+            .catch(() => undefined)
+            .then(() => appendFile(this.opts.filePath, line))
+            .then(() => { this.emit(AgentEvent.RequestSent, msg); });
+
+        return this.lastWrite
+            .catch(err => {
+                this.logFn(`[scout/file] failed to write message:\n${err}`, LogLevel.Error);
+                throw err;
+            });
+    }
+}
@@ -0,0 +1,128 @@
+import { EventEmitter } from "events";
+import * as Errors from "../errors";
+import * as Constants from "../constants";
+
+import {
+    Agent,
+    AgentEvent,
+    AgentRequestType,
+    AgentStatus,
+    AgentType,
+    BaseAgentRequest,
+    BaseAgentResponse,
+    InMemoryAgentOptions,
+    LogFn,
+    LogLevel,
+} from "../types";
+
+import { V1AgentResponse } from "../protocol/v1/responses";
+import { V1BatchCommand } from "../protocol/v1/requests";
+
+/**
+ * Agent that records every message it is sent, rather than passing them to a core-agent,
+ * answering with the responses core-agent would send on success
+ *
+ * @class
+ */
+export default class InMemoryAgent extends EventEmitter implements Agent {
+    private readonly agentType: AgentType = AgentType.InMemory;
+    private readonly opts: InMemoryAgentOptions;
+    private readonly maxMessages: number;
+
+    private messages: BaseAgentRequest[] = [];
+    private connected: boolean = false;
+    private logFn: LogFn;
+
+    constructor(opts?: InMemoryAgentOptions, logFn?: LogFn) {
+        super();
+
+        this.opts = opts || {};
+        this.maxMessages = this.opts.maxMessages || Constants.DEFAULT_IN_MEMORY_AGENT_MAX_MESSAGES;
+        this.logFn = logFn ? logFn : () => undefined;
+    }
+
+    /** @see Agent */
+    public type(): Readonly<AgentType> { return this.agentType; }
+
+    /** @see Agent */
+    public options(): Readonly<InMemoryAgentOptions> { return Object.assign({}, this.opts); }
+
+    /** @see Agent */
+    public status(): Promise<AgentStatus> {
+        return Promise.resolve({connected: this.connected});
+    }
+
+    /** @see Agent */
+    public start(): Promise<this> {
+        return Promise.resolve(this);
+    }
+
+    /** @see Agent */
+    public connect(): Promise<AgentStatus> {
+        this.connected = true;
+        return this.status();
+    }
+
+    /** @see Agent */
+    public disconnect(): Promise<AgentStatus> {
+        this.connected = false;
+        return this.status();
+    }
+
+    /** @see Agent */
+    public send<T extends BaseAgentRequest, R extends BaseAgentResponse>(msg: T): Promise<R> {
+        return this.sendAsync(msg)
+            .then(() => V1AgentResponse.successFor(msg) as R);
+    }
+
+    /** @see Agent */
+    public sendAsync<T extends BaseAgentRequest>(msg: T): Promise<void> {
+        if (!this.connected) { return Promise.reject(new Errors.Disconnected()); }
+        if (!msg) { return Promise.reject(new Errors.UnexpectedError("No message provided to send()")); }
+
+        this.logFn(`[scout/in-memory] recording message of type [${msg.type}]`, LogLevel.Debug);
+
+        this.messages.push(msg);
+        if (this.messages.length > this.maxMessages) {
+            this.messages.shift();
+        }
+
+        this.emit(AgentEvent.RequestSent, msg);
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Get the messages that have been sent to the agent, in the order they were sent
+     *
+     * @returns {BaseAgentRequest[]} the messages
+     */
+    public getMessages(): BaseAgentRequest[] {
+        return this.messages.slice();
+    }
+
+    /**
+     * Get the commands that have been sent to the agent, with batches expanded into the commands they contain
+     *
+     * @param {AgentRequestType} [type] - only return commands of this type
+     * @returns {BaseAgentRequest[]} the commands
+     */
+    public getCommands(type?: AgentRequestType): BaseAgentRequest[] {
+        return this.messages
+            .reduce((acc, msg) => {
+                if (msg.type === AgentRequestType.V1BatchCommand) {
+                    return acc.concat((msg as V1BatchCommand).commands);
+                }
+
+                return acc.concat([msg]);
+            }, [] as BaseAgentRequest[])
+            .filter(msg => !type || msg.type === type);
+    }
+
+    /**
+     * Forget all the messages that have been sent
+     */
+    public clearMessages() {
+        this.messages = [];
+    }
+}
@@ -21,10 +21,31 @@ export const AGENT_BUFFER_TIME_MS = 2 * MINUTE_MS;
 export const DEFAULT_EXPRESS_REQUEST_TIMEOUT_MS = 5 * MINUTE_MS;
 
 export const DEFAULT_SOCKET_FILE_NAME = "core-agent.sock";
+export const DEFAULT_AGENT_FILE_PATH = "/tmp/scout_apm_core/messages.ndjson";
 export const DEFAULT_CORE_AGENT_NAME = "scout_apm_core";
 
 export const SCOUT_PATH_TAG = "path";
 
+// Support common request queue time headers
+// https://github.com/scoutapp/scout_apm_node/issues/68
+export const REQUEST_QUEUE_TIME_HEADERS = ["x-queue-start", "x-request-start"];
+
+// W3C trace context (https://www.w3.org/TR/trace-context/)
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+export const TRACESTATE_VENDOR_KEY = "scout";
+export const TRACESTATE_MAX_ENTRIES = 32;
+
+// Proxies whose forwarding headers are trusted by default (loopback & private networks)
+export const DEFAULT_TRUSTED_PROXIES = [
+    "127.0.0.0/8",
+    "10.0.0.0/8",
+    "172.16.0.0/12",
+    "192.168.0.0/16",
+    "::1/128",
+    "fc00::/7",
+];
+
 // Common parameters to filter, copied from scout_apm_python
 export const DEFAULT_PARAM_FILTER_LOOKUP = {
     "access": true,
@@ -53,12 +74,36 @@ export const DEFAULT_PARAM_FILTER_LOOKUP = {
 
 export const DEFAULT_PARAM_SCRUB_REPLACEMENT = "[FILTERED]";
 
+export const DEFAULT_DOCUMENT_SCRUB_REPLACEMENT = "?";
+
+export const DEFAULT_ERRORS_FLUSH_INTERVAL_MS = 5 * SECOND_MS;
+
+// Captured errors waiting to be sent past this limit are dropped
+export const DEFAULT_ERRORS_MAX_QUEUED = 100;
+
+export const ERRORS_NOTIFIER_NAME = "scout_apm_node";
+
+// Marks the options of requests made by scout itself (ex. error reports), which are not instrumented
+export const UNINSTRUMENTED_REQUEST_SYMBOL = Symbol("scout-uninstrumented-request");
+
 export const DEFAULT_SLOW_REQUEST_THRESHOLD_MS = SECOND_MS / 2;
 
 export const DEFAULT_SOCKET_TIMEOUT_MS = 60 * SECOND_MS;
 
 export const DEFAULT_AGENT_SEND_TIMEOUT_MS = 10000;
 
+// Messages recorded by the in-memory agent past this limit are dropped (oldest first)
+export const DEFAULT_IN_MEMORY_AGENT_MAX_MESSAGES = 1000;
+
 export const CORE_AGENT_TCP_SOCKET_MIN_VERSION = "1.3.0";
 
 export const DEFAULT_STATS_INTERVAL_MS = 60 * SECOND_MS;
+
+// Custom metrics are sent (once per statistics interval) as application events of this type, followed by their name
+export const CUSTOM_METRICS_EVENT_TYPE_PREFIX = "Custom/";
+
+// Distinct custom metrics recorded past this limit (per interval) are dropped
+export const DEFAULT_METRICS_MAX_PER_INTERVAL = 100;
+
+// MongoDB commands started (per client) past this limit, while others are still waiting for a reply, aren't recorded
+export const MONGODB_MAX_PENDING_COMMANDS = 1000;
@@ -0,0 +1,64 @@
+import { ContextManager, ContextManagerType, isAsyncLocalStorageSupported } from "../types";
+import * as Errors from "../errors";
+
+// Required untyped, like in lib/types/util.ts
+const { AsyncLocalStorage } = require("async_hooks");
+
+interface ContextStore {
+    [key: string]: any;
+}
+
+/**
+ * Context manager backed by NodeJS's AsyncLocalStorage (available in NodeJS 12.17+)
+ *
+ * @class
+ */
+export class AsyncLocalStorageContextManager implements ContextManager {
+    public readonly type: ContextManagerType = ContextManagerType.AsyncLocalStorage;
+
+    private readonly storage: any;
+
+    constructor() {
+        if (!isAsyncLocalStorageSupported()) {
+            throw new Errors.NotSupported("AsyncLocalStorage is not available in this version of NodeJS");
+        }
+
+        this.storage = new AsyncLocalStorage();
+    }
+
+    /** @see ContextManager */
+    public run<T>(fn: () => T): T {
+        // Values set in the new context should not leak out to the current context
+        return this.storage.run(this.createStore(this.storage.getStore()), fn);
+    }
+
+    /** @see ContextManager */
+    public bind<T extends (...args: any[]) => any>(fn: T): T {
+        const store = this.storage.getStore() || this.createStore();
+        const storage = this.storage;
+
+        return function(this: any, ...args: any[]) {
+            return storage.run(store, () => fn.apply(this, args));
+        } as T;
+    }
+
+    /** @see ContextManager */
+    public get(key: string): any {
+        const store = this.storage.getStore();
+        return store ? store[key] : undefined;
+    }
+
+    /** @see ContextManager */
+    public set(key: string, value: any) {
+        const store = this.storage.getStore();
+        if (!store) { throw new Errors.NoActiveAsyncContext(); }
+
+        store[key] = value;
+    }
+
+    private createStore(parent?: ContextStore): ContextStore {
+        return Object.create(parent || null);
+    }
+}
+
+export default AsyncLocalStorageContextManager;
@@ -0,0 +1,45 @@
+import * as cls from "cls-hooked";
+
+import { ContextManager, ContextManagerType } from "../types";
+import * as Errors from "../errors";
+
+/**
+ * Context manager backed by a (shared) cls-hooked namespace
+ *
+ * @class
+ */
+export class ClsHookedContextManager implements ContextManager {
+    public readonly type: ContextManagerType = ContextManagerType.ClsHooked;
+
+    private readonly namespace: any;
+
+    constructor(namespaceName: string) {
+        // Namespaces are global, so they're shared by all the instances using the same name
+        this.namespace = cls.getNamespace(namespaceName) || cls.createNamespace(namespaceName);
+    }
+
+    /** @see ContextManager */
+    public run<T>(fn: () => T): T {
+        let result: any;
+        this.namespace.run(() => result = fn());
+        return result;
+    }
+
+    /** @see ContextManager */
+    public bind<T extends (...args: any[]) => any>(fn: T): T {
+        return this.namespace.bind(fn);
+    }
+
+    /** @see ContextManager */
+    public get(key: string): any {
+        return this.namespace.get(key);
+    }
+
+    /** @see ContextManager */
+    public set(key: string, value: any) {
+        if (!this.namespace.active) { throw new Errors.NoActiveAsyncContext(); }
+        this.namespace.set(key, value);
+    }
+}
+
+export default ClsHookedContextManager;
@@ -0,0 +1,92 @@
+import { getActiveGlobalScoutInstance } from "./global";
+import { Scout } from "./scout";
+
+type Method = (...args: any[]) => any;
+
+/**
+ * Method decorator that records calls to a method as spans, ex. `@Instrument("Service/User/find")`
+ *
+ * Calls made outside of a transaction (or before scout is installed) are passed through untouched.
+ * The span is stopped once the method returns (or once the promise it returns settles), thrown errors
+ * and rejections mark the span as errored.
+ *
+ * @param {string} [operation] - operation name of the span (defaults to "Custom/<class>/<method>")
+ */
+export function Instrument(operation?: string) {
+    return (
+        target: any,
+        propertyKey: string | symbol,
+        descriptor: TypedPropertyDescriptor<Method>,
+    ): TypedPropertyDescriptor<Method> => {
+        const op = operation || `Custom/${getClassName(target)}/${String(propertyKey)}`;
+        descriptor.value = wrapInstrument(op, descriptor.value as Method);
+        return descriptor;
+    };
+}
+
+/**
+ * Class or method decorator that runs calls to methods as background transactions,
+ * ex. `@BackgroundTransaction("Job/sync")`
+ *
+ * When used on a class every method of the class is decorated, with the method name appended to the operation
+ * (ex. "Job/Mailer/send"). Calls made during a transaction are recorded as spans of that transaction instead,
+ * calls made before scout is installed are passed through untouched.
+ *
+ * @param {string} [operation] - operation name of the transaction (defaults to "Job/<class>/<method>")
+ */
+export function BackgroundTransaction(operation?: string) {
+    return (target: any, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): any => {
+        // Method decorator
+        if (propertyKey !== undefined && descriptor) {
+            const op = operation || `Job/${getClassName(target)}/${String(propertyKey)}`;
+            descriptor.value = wrapBackgroundTransaction(op, descriptor.value);
+            return descriptor;
+        }
+
+        // Class decorator
+        const prefix = operation || `Job/${target.name}`;
+        Object.getOwnPropertyNames(target.prototype)
+            .filter(name => name !== "constructor")
+            .forEach(name => {
+                const methodDescriptor = Object.getOwnPropertyDescriptor(target.prototype, name);
+                if (!methodDescriptor || typeof methodDescriptor.value !== "function") { return; }
+
+                methodDescriptor.value = wrapBackgroundTransaction(`${prefix}/${name}`, methodDescriptor.value);
+                Object.defineProperty(target.prototype, name, methodDescriptor);
+            });
+
+        return target;
+    };
+}
+
+// Get the name of the class a method decorator was applied to (target is the prototype, or the class for statics)
+function getClassName(target: any): string {
+    return typeof target === "function" ? target.name : target.constructor.name;
+}
+
+function wrapInstrument(operation: string, fn: Method): Method {
+    return function(this: any, ...args: any[]) {
+        const scout = getActiveGlobalScoutInstance();
+        if (!scout || !scout.getCurrentRequest()) { return fn.apply(this, args); }
+
+        return instrumentCall(scout, operation, () => fn.apply(this, args));
+    };
+}
+
+function wrapBackgroundTransaction(operation: string, fn: Method): Method {
+    return function(this: any, ...args: any[]) {
+        const scout = getActiveGlobalScoutInstance();
+        if (!scout) { return fn.apply(this, args); }
+
+        // Calls made during a transaction (ex. by a request handler) are part of that transaction
+        if (scout.getCurrentRequest()) { return instrumentCall(scout, operation, () => fn.apply(this, args)); }
+
+        return scout.runInTransaction(operation, () => instrumentCall(scout, operation, () => fn.apply(this, args)));
+    };
+}
+
+// Run a method call in a span, which is stopped once the method returns (or its promise settles)
+function instrumentCall(scout: Scout, operation: string, call: () => any): any {
+    // The call is wrapped without arguments, so none of the method's arguments are taken for a callback
+    return scout.wrap(operation, call)();
+}
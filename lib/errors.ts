@@ -25,6 +25,9 @@ export enum ErrorCode {
     InvalidConfiguration,
     InstanceNotReady,
     UnknownSocketType,
+    NoActiveAsyncContext,
+    ExpectationFailed,
+    ErrorReportFailed,
 }
 
 class ScoutError extends Error {
@@ -246,3 +249,30 @@ export class UnknownSocketType extends ScoutError {
         this.message = m || "Unrecognized socket type, neither domain nor TCP";
     }
 }
+
+export class NoActiveAsyncContext extends ScoutError {
+    public readonly code: number = ErrorCode.NoActiveAsyncContext;
+
+    constructor(m?: string) {
+        super();
+        this.message = m || "No active async context, values can only be set inside of run()";
+    }
+}
+
+export class ExpectationFailed extends ScoutError {
+    public readonly code: number = ErrorCode.ExpectationFailed;
+
+    constructor(m?: string) {
+        super();
+        this.message = m || "Expectation failed";
+    }
+}
+
+export class ErrorReportFailed extends ScoutError {
+    public readonly code: number = ErrorCode.ErrorReportFailed;
+
+    constructor(m?: string) {
+        super();
+        this.message = m || "Failed to send captured errors";
+    }
+}
@@ -8,9 +8,11 @@ import {
     ScoutTag,
     buildScoutConfiguration,
     consoleLogFn,
+    parseQueueTimeNS,
 } from "./types";
 import * as Constants from "./constants";
-import { Scout, ScoutRequest, ScoutSpan, ScoutOptions } from "./scout";
+import { Scout, ScoutRequest, ScoutSpan, ScoutOptions, buildRequestErrorContext } from "./scout";
+import { getErrorStatusCode, tagRequestWithError } from "./integrations/express";
 import { Request, Router } from "express";
 import {
     getActiveGlobalScoutInstance,
@@ -30,6 +32,7 @@ export interface ApplicationWithScout {
 }
 
 type ExpressMiddleware = (req: any, res: any, next: () => void) => void;
+type ExpressErrorMiddleware = (err: any, req: any, res: any, next: (err?: any) => void) => void;
 
 export interface ExpressMiddlewareOptions {
     config?: Partial<ScoutConfiguration>;
@@ -50,6 +53,11 @@ export interface ExpressMiddlewareOptions {
     waitForScoutSetup?: boolean;
 }
 
+export interface ExpressErrorHandlerOptions {
+    // Scout instance to use (the application's or the global one is used otherwise)
+    scout?: Scout;
+}
+
 // The information that is
 export interface ExpressScoutInfo {
     instance?: Scout;
@@ -59,28 +67,6 @@ export interface ExpressScoutInfo {
 
 export type ExpressRequestWithScout = Request & ExpressScoutInfo;
 
-// Support common request queue time headers
-// https://github.com/scoutapp/scout_apm_node/issues/68
-const REQUEST_QUEUE_TIME_HEADERS = ["x-queue-start", "x-request-start"];
-
-/**
- * Parse a queue time in NS out of a HTTP header value
- *
- * @param {string} value - value of the header
- * @return {BigNumber}
- */
-function parseQueueTimeNS(value: string): any {
-    if (!value) { return null; }
-
-    value = value.trim();
-    if (!value.startsWith("t=")) { return null; }
-
-    const parsed = new BigNumber(value.slice(2));
-    if (parsed.number === "Invalid Number") { return null; }
-
-    return parsed;
-}
-
 interface EndpointListingItem {
     path: string;
     methods: string[];
@@ -278,9 +264,17 @@ export function scoutMiddleware(opts?: ExpressMiddlewareOptions): ExpressMiddlew
                     // Add the path context
                     req.scout.request
                         .addContext(ScoutContextName.Path, scout.filterRequestPath(reqUrl))
+                    // Add the remote IP context if it is being collected
+                        .then(() => {
+                            const remoteIP = scout.getRemoteIP(req);
+                            if (remoteIP) { return req.scout.request.addContext(ScoutContextName.RemoteIP, remoteIP); }
+                        })
+                    // Add the trace context if the request is part of a (distributed) trace
+                        .then(() => req.scout.request.addContexts(scout.getTraceContextTags(req)))
                     // Add request queue time context if present
                         .then(() => {
-                            const matchingHeader = REQUEST_QUEUE_TIME_HEADERS.find(headerName => req.get(headerName));
+                            const matchingHeader = Constants.REQUEST_QUEUE_TIME_HEADERS
+                                .find(headerName => req.get(headerName));
 
                             // If a header was found, extract the queue time
                             if (matchingHeader) {
@@ -335,7 +329,7 @@ export function scoutMiddleware(opts?: ExpressMiddlewareOptions): ExpressMiddlew
                             });
 
                         });
-                });
+                }, {replacesCurrent: true});
             })
         // Continue even if getting scout fails
             .catch((err: Error) => {
@@ -347,3 +341,30 @@ export function scoutMiddleware(opts?: ExpressMiddlewareOptions): ExpressMiddlew
             });
     };
 }
+
+/**
+ * Error handling middleware that records errors (ex. passed to `next(err)`) on the current request,
+ * this should be attached to the application object using app.use(...) *after* all other middleware & routes
+ *
+ * @param {ExpressErrorHandlerOptions} [opts]
+ * @returns {Function} an error handling middleware function for use with express
+ */
+export function scoutErrorHandler(opts?: ExpressErrorHandlerOptions): ExpressErrorMiddleware {
+    return (err: any, req: any, res: any, next: (err?: any) => void) => {
+        const info: ExpressScoutInfo = req && req.scout ? req.scout : {};
+        const scout = opts && opts.scout
+            ? opts.scout
+            : info.instance || (req && req.app && req.app.scout) || getActiveGlobalScoutInstance();
+
+        if (scout && err) {
+            // The request is usually the current one, but it is also saved on the (express) request
+            const request = info.request || scout.getCurrentRequest();
+            if (request) { tagRequestWithError(request, err, getErrorStatusCode(err, res)); }
+
+            scout.captureError(err, buildRequestErrorContext(req));
+        }
+
+        // Pass the error on to the next error handler (ex. express' default one)
+        next(err);
+    };
+}
@@ -1,10 +1,20 @@
 import * as Errors from "./errors";
 
-import { scoutMiddleware as expressMiddleware } from "./express";
-
-import { Scout, ScoutRequest, DoneCallback, SpanCallback, RequestCallback } from "./scout";
+import { scoutMiddleware as expressMiddleware, scoutErrorHandler } from "./express";
+import { scoutMiddleware as koaMiddleware } from "./koa";
+
+import {
+    Scout,
+    ScoutRequest,
+    DoneCallback,
+    SpanCallback,
+    RequestCallback,
+    CapturedError,
+    ErrorContext,
+} from "./scout";
 import { ScoutConfiguration, JSONValue, buildScoutConfiguration, consoleLogFn, buildWinstonLogFn } from "./types";
 import { getIntegrationForPackage } from "./integrations";
+import { Instrument, BackgroundTransaction } from "./decorators";
 import { getActiveGlobalScoutInstance, getOrCreateActiveGlobalScoutInstance, EXPORT_BAG } from "./global";
 
 // Set up PG integration
@@ -27,6 +37,10 @@ setupRequireIntegrations([
     "pg",
     "mysql",
     "mysql2",
+    "mongodb",
+    "mongoose",
+    "redis",
+    "ioredis",
 
     // Templating
     "pug",
@@ -36,10 +50,14 @@ setupRequireIntegrations([
     // Web frameworks
     "express",
     "nuxt",
+    "koa",
+    "fastify",
+    "@hapi/hapi",
 
     // NodeJS internals
     "http",
     "https",
+    "undici",
 ]);
 
 const API = {
@@ -51,6 +69,8 @@ const API = {
     // Ingetrations
     setupRequireIntegrations,
     expressMiddleware,
+    scoutErrorHandler,
+    koaMiddleware,
 
     // Logging
     consoleLogFn,
@@ -75,6 +95,10 @@ const API = {
             .then(scout => scout.instrumentSync(op, cb));
     },
 
+    // Decorators
+    Instrument,
+    BackgroundTransaction,
+
     // API
     api: {
         WebTransaction: {
@@ -135,6 +159,17 @@ const API = {
                 .then(scout => scout.instrumentSync(operation, fn));
         },
 
+        // Wrap a function so that calls made during a transaction are instrumented with a span
+        // (stopped once a returned promise settles, a trailing node-style callback is called, or right away)
+        wrap<T extends (...args: any[]) => any>(op: string, fn: T, scout?: Scout): T {
+            return function(this: any, ...args: any[]) {
+                const instance = scout || getActiveGlobalScoutInstance();
+                if (!instance) { return fn.apply(this, args); }
+
+                return instance.wrap(op, fn).apply(this, args);
+            } as T;
+        },
+
         get Config() {
             const scout = getActiveGlobalScoutInstance();
             return scout ? scout.getConfig() : undefined;
@@ -162,6 +197,42 @@ const API = {
             },
         },
 
+        Error: {
+            // Capture an error (ex. one that was handled) to be reported, along with the current request's details
+            capture(err: Error, context?: ErrorContext, scout?: Scout): Promise<CapturedError | null> {
+                scout = scout || getActiveGlobalScoutInstance() || undefined;
+                if (!scout) { return Promise.resolve(null); }
+
+                return scout.captureError(err, context);
+            },
+        },
+
+        Metrics: {
+            // Increment a counter (summed over the statistics interval)
+            increment(name: string, value: number = 1, scout?: Scout): void {
+                scout = scout || getActiveGlobalScoutInstance() || undefined;
+                if (!scout) { return; }
+
+                scout.getMetrics().increment(name, value);
+            },
+
+            // Set a gauge (the last value set during the statistics interval is reported)
+            gauge(name: string, value: number, scout?: Scout): void {
+                scout = scout || getActiveGlobalScoutInstance() || undefined;
+                if (!scout) { return; }
+
+                scout.getMetrics().gauge(name, value);
+            },
+
+            // Record a timing in milliseconds (summarized as count/total/min/max/mean over the statistics interval)
+            timing(name: string, ms: number, scout?: Scout): void {
+                scout = scout || getActiveGlobalScoutInstance() || undefined;
+                if (!scout) { return; }
+
+                scout.getMetrics().timing(name, ms);
+            },
+        },
+
         ignoreTransaction(scout?: Scout): Promise<ScoutRequest | void> {
             return (scout ? Promise.resolve(scout.setup()) : getOrCreateActiveGlobalScoutInstance())
                 .then(scout => {
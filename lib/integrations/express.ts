@@ -2,8 +2,16 @@ import * as path from "path";
 import { Express, Application } from "express";
 
 import { ExportBag, RequireIntegration } from "../types/integrations";
-import { Scout } from "../scout";
-import { LogFn, LogLevel, ScoutContextName, ScoutSpanOperation, ExpressFn } from "../types";
+import { Scout, ScoutRequest, buildRequestErrorContext } from "../scout";
+import {
+    ExpressFn,
+    LogFn,
+    LogLevel,
+    ScoutContextName,
+    ScoutSpanOperation,
+    getErrorClassName,
+    isThenable,
+} from "../types";
 import * as Constants from "../constants";
 
 import {
@@ -18,6 +26,39 @@ const SUPPORTED_HTTP_METHODS = [
     "PATCH",
 ];
 
+/**
+ * Get the HTTP status code a request that failed with an error is answered with
+ * (like express' default error handler, the error's own status is used if it has one)
+ *
+ * @param {any} err - the error
+ * @param {any} [res] - the (express) response
+ * @returns {number} the HTTP status code
+ */
+export function getErrorStatusCode(err: any, res?: any): number {
+    const status = err ? err.status || err.statusCode : undefined;
+    if (typeof status === "number" && status >= 400 && status < 600) { return status; }
+
+    if (res && typeof res.statusCode === "number" && res.statusCode >= 400) { return res.statusCode; }
+
+    return 500;
+}
+
+/**
+ * Mark a request as errored, with the class & message of the error and the HTTP status code it was answered with
+ *
+ * @param {ScoutRequest} request - the request that failed
+ * @param {any} err - the error
+ * @param {number} statusCode - the HTTP status code of the response
+ */
+export function tagRequestWithError(request: ScoutRequest, err: any, statusCode: number) {
+    request.addContextsSync([
+        {name: ScoutContextName.Error, value: "true"},
+        {name: ScoutContextName.ErrorClass, value: getErrorClassName(err)},
+        {name: ScoutContextName.ErrorMessage, value: err && err.message ? err.message : String(err)},
+        {name: ScoutContextName.HTTPStatusCode, value: statusCode},
+    ]);
+}
+
 // Hook into the express and mongodb module
 export class ExpressIntegration extends RequireIntegration {
     protected readonly packageName: string = "express";
@@ -113,19 +154,28 @@ export class ExpressIntegration extends RequireIntegration {
                     span.pushTraceFrames(framesAtExecution);
                 }
 
+                const [req, res] = Array.from(arguments);
+
+                let result;
                 try {
-                    return handler.apply(this, arguments);
+                    result = handler.apply(this, arguments);
                 } catch (err) {
-                    // Get the current request if available
-                    const currentRequest = integration.scout.getCurrentRequest();
-                    if (currentRequest) {
-                        // Mark the curernt request as errored
-                        currentRequest.addContextSync(ScoutContextName.Error, "true");
-                    }
+                    integration.recordError(err, req, res);
 
                     // Rethrow the original error
                     throw err;
                 }
+
+                // Async handlers fail by rejecting, the rejection is passed on to the caller (ex. a promise-aware
+                // router) and stays unhandled if the caller doesn't handle it, as it would without scout
+                if (isThenable(result)) {
+                    return result.then(undefined, err => {
+                        integration.recordError(err, req, res);
+                        throw err;
+                    });
+                }
+
+                return result;
             };
 
             return originalFn.apply(this, originalArgs);
@@ -135,6 +185,25 @@ export class ExpressIntegration extends RequireIntegration {
         return app;
     }
 
+    /**
+     * Record an error that occurred in a handler, on the current request (if there is one) and as a captured error
+     *
+     * @param {any} err - the error
+     * @param {any} req - the (express) request
+     * @param {any} res - the (express) response
+     */
+    private recordError(err: any, req: any, res: any) {
+        if (!this.scout) { return; }
+
+        const currentRequest = this.scout.getCurrentRequest();
+        if (currentRequest) {
+            tagRequestWithError(currentRequest, err, getErrorStatusCode(err, res));
+            this.logFn(`[scout/integrations/express] Handler failed: ${err && err.message}`, LogLevel.Trace);
+        }
+
+        // Report the error along with the details of the (express) request
+        this.scout.captureError(err, buildRequestErrorContext(req));
+    }
 }
 
 export default new ExpressIntegration();
@@ -0,0 +1,205 @@
+import { RequireIntegration } from "../types/integrations";
+import { Scout, ScoutRequest, ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName, ScoutEvent, parseQueueTimeNS } from "../types";
+import * as Constants from "../constants";
+
+const getNanoTime = require("nano-time");
+const BigNumber = require("big-number");
+
+// We can't import fastify's types without requiring fastify itself
+type FastifyInstance = any;
+type FastifyRequest = any;
+type FastifyReply = any;
+type HookDoneFn = (err?: Error) => void;
+
+// The information that is attached to fastify requests (request.scout)
+export interface FastifyScoutInfo {
+    instance?: Scout;
+    request?: ScoutRequest;
+    rootSpan?: ScoutSpan;
+
+    finishTransaction?: () => void;
+}
+
+// Hook into the fastify module
+export class FastifyIntegration extends RequireIntegration {
+    protected readonly packageName: string = "fastify";
+
+    protected shim(fastifyExport: any): any {
+        fastifyExport = this.shimFastifyCreate(fastifyExport);
+
+        return fastifyExport;
+    }
+
+    /**
+     * Shim fastify instance creation, adding scout's hooks to every created instance
+     *
+     * @param {any} fastifyExport - fastify's export (the factory function)
+     * @returns {any} the modified fastify export
+     */
+    private shimFastifyCreate(fastifyExport: any): any {
+        const integration = this;
+        const originalFn = fastifyExport;
+
+        const fastify = function(this: any) {
+            const instance = originalFn.apply(this, arguments);
+            integration.logFn("[scout/integrations/fastify] Creating fastify instance...", LogLevel.Debug);
+
+            return integration.addHooks(instance);
+        };
+
+        // Add all the properties that fastify normally has on the export
+        Object.assign(fastify, originalFn);
+
+        // fastify exports itself as named & default export
+        (fastify as any).fastify = fastify;
+        (fastify as any).default = fastify;
+
+        return fastify;
+    }
+
+    /**
+     * Add the hooks that perform tracing to a fastify instance
+     *
+     * @param {FastifyInstance} instance
+     * @returns {FastifyInstance} the fastify instance
+     */
+    private addHooks(instance: FastifyInstance): FastifyInstance {
+        instance.addHook("onRequest", (req, reply, done) => this.onRequest(req, reply, done));
+        instance.addHook("onError", (req, reply, err, done) => this.onError(req, reply, err, done));
+        instance.addHook("onResponse", (req, reply, done) => this.onResponse(req, reply, done));
+
+        return instance;
+    }
+
+    /**
+     * Start a transaction for an incoming request, running the rest of the
+     * request lifecycle inside of it (so the request is available through the async context)
+     */
+    private onRequest(req: FastifyRequest, reply: FastifyReply, done: HookDoneFn) {
+        const requestStartTimeNS = getNanoTime();
+
+        // If no scout instance is available then continue normally
+        const scout = this.scout;
+        if (!scout) { return done(); }
+
+        const routePath = this.getRoutePath(req, reply);
+
+        // If we have no route path (ex. 404s) then we can't record the request
+        if (!routePath) {
+            scout.emit(ScoutEvent.UnknownRequestPathSkipped, req.url);
+            return done();
+        }
+
+        // Exit early if this path is on the list of ignored paths
+        if (scout.ignoresPath(routePath)) { return done(); }
+
+        const name = `Controller/${req.method.toUpperCase()} ${routePath}`;
+        const info: FastifyScoutInfo = {instance: scout};
+        req.scout = info;
+
+        let ranDone = false;
+        const continueLifecycle = () => {
+            if (ranDone) { return; }
+            ranDone = true;
+            done();
+        };
+
+        scout.transaction(name, finishTransaction => {
+            info.request = scout.getCurrentRequest() || undefined;
+            info.finishTransaction = finishTransaction;
+
+            if (!info.request) {
+                this.logFn(
+                    "[scout/integrations/fastify] Failed to start transaction, no current request",
+                    LogLevel.Warn,
+                );
+                return continueLifecycle();
+            }
+
+            const request = info.request;
+
+            // Add the path context
+            return request
+                .addContext(ScoutContextName.Path, scout.filterRequestPath(req.url))
+            // Add the remote IP context if it is being collected
+                .then(() => {
+                    const remoteIP = scout.getRemoteIP(req.raw);
+                    if (remoteIP) { return request.addContext(ScoutContextName.RemoteIP, remoteIP); }
+                })
+            // Add the trace context if the request is part of a (distributed) trace
+                .then(() => request.addContexts(scout.getTraceContextTags(req.raw)))
+            // Add request queue time context if present
+                .then(() => {
+                    const matchingHeader = Constants.REQUEST_QUEUE_TIME_HEADERS.find(h => req.headers[h]);
+
+                    // If a header was found, extract the queue time
+                    if (matchingHeader) {
+                        const value = parseQueueTimeNS(req.headers[matchingHeader]);
+                        return request.addContext(
+                            ScoutContextName.QueueTimeNS,
+                            new BigNumber(requestStartTimeNS).minus(value).toString(),
+                        );
+                    }
+                })
+            // Start a span for the Controller and continue the lifecycle inside of it
+                .then(() => scout.instrument(name, () => {
+                    info.rootSpan = scout.getCurrentSpan() || undefined;
+                    continueLifecycle();
+                }))
+                .catch(err => {
+                    this.logFn(`[scout/integrations/fastify] Failed to trace request:\n ${err}`, LogLevel.Error);
+                    continueLifecycle();
+                });
+        }, {replacesCurrent: true});
+    }
+
+    /**
+     * Mark the current request as errored
+     */
+    private onError(req: FastifyRequest, reply: FastifyReply, err: Error, done: HookDoneFn) {
+        const info: FastifyScoutInfo = req.scout;
+        if (info && info.request) {
+            info.request.addContextSync(ScoutContextName.Error, "true");
+        }
+
+        done();
+    }
+
+    /**
+     * Finish the transaction for a request once the response has been sent
+     */
+    private onResponse(req: FastifyRequest, reply: FastifyReply, done: HookDoneFn) {
+        const info: FastifyScoutInfo = req.scout;
+        if (!info || !info.finishTransaction) { return done(); }
+
+        // Finish transaction (which *must* trigger a send)
+        Promise.resolve(info.finishTransaction())
+            .then(() => delete req.scout)
+            .catch(err => {
+                this.logFn(`[scout/integrations/fastify] Failed to finish transaction:\n ${err}`, LogLevel.Error);
+            });
+
+        done();
+    }
+
+    /**
+     * Get the route (ex. '/users/:id') that fastify matched for a request
+     *
+     * @param {FastifyRequest} req
+     * @param {FastifyReply} reply
+     * @returns {string | null} the route path
+     */
+    private getRoutePath(req: FastifyRequest, reply: FastifyReply): string | null {
+        if (req.routerPath) { return req.routerPath; }
+
+        // Older versions of fastify only expose the route through the reply context
+        if (reply && reply.context && reply.context.config && reply.context.config.url) {
+            return reply.context.config.url;
+        }
+
+        return null;
+    }
+}
+
+export default new FastifyIntegration();
@@ -0,0 +1,263 @@
+import { RequireIntegration } from "../types/integrations";
+import { Scout, ScoutRequest, ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName, ScoutEvent, parseQueueTimeNS } from "../types";
+import * as Constants from "../constants";
+
+const getNanoTime = require("nano-time");
+const BigNumber = require("big-number");
+
+// We can't import hapi's types without requiring hapi itself
+type HapiServer = any;
+type HapiRoute = any;
+type HapiRequest = any;
+type HapiToolkit = any;
+
+// The method hapi uses for it's internal (ex. not found) routes
+const HAPI_SPECIAL_ROUTE_METHOD = "_special";
+
+// The information that is attached to hapi requests (request.plugins.scout)
+export interface HapiScoutInfo {
+    instance?: Scout;
+    request?: ScoutRequest;
+    rootSpan?: ScoutSpan;
+
+    finishTransaction?: () => void;
+
+    // Run a function inside the async context of the transaction
+    runInTransaction?: (fn: () => any) => Promise<any>;
+}
+
+// Hook into the @hapi/hapi module
+export class HapiIntegration extends RequireIntegration {
+    protected readonly packageName: string = "@hapi/hapi";
+
+    protected shim(hapiExport: any): any {
+        hapiExport = this.shimServerCreate(hapiExport);
+
+        return hapiExport;
+    }
+
+    /**
+     * Shim hapi server creation, adding scout's extensions to every created server
+     *
+     * @param {any} hapiExport - hapi's export
+     * @returns {any} the modified hapi export
+     */
+    private shimServerCreate(hapiExport: any): any {
+        const integration = this;
+        const originalFn = hapiExport.server;
+
+        const server = function(this: any) {
+            const instance = originalFn.apply(this, arguments);
+            integration.logFn("[scout/integrations/hapi] Creating hapi server...", LogLevel.Debug);
+
+            return integration.addExtensions(instance);
+        };
+
+        // Add all the properties that hapi normally has on the server fn
+        Object.assign(server, originalFn);
+
+        // hapi exports the same function as both `server` and `Server`
+        hapiExport.server = server;
+        hapiExport.Server = server;
+
+        return hapiExport;
+    }
+
+    /**
+     * Add the extensions that perform tracing to a hapi server
+     *
+     * @param {HapiServer} server
+     * @returns {HapiServer} the hapi server
+     */
+    private addExtensions(server: HapiServer): HapiServer {
+        server.ext("onRequest", (req, h) => this.onRequest(req, h));
+        server.ext("onPreResponse", (req, h) => this.onPreResponse(req, h));
+
+        // Route handlers are shimmed as they are added, so they can be run inside the transaction
+        server.events.on("route", route => this.shimRouteHandler(route));
+
+        // The transaction is finished once the response has been transmitted
+        server.events.on("response", req => this.onResponse(req));
+
+        return server;
+    }
+
+    /**
+     * Start a transaction for an incoming request
+     *
+     * NOTE: hapi awaits extensions outside of the async context they create, so the route
+     * is only known (and the handler run inside the transaction) later, see shimRouteHandler
+     */
+    private onRequest(req: HapiRequest, h: HapiToolkit): any {
+        const requestStartTimeNS = getNanoTime();
+
+        // If no scout instance is available then continue normally
+        const scout = this.scout;
+        if (!scout) { return h.continue; }
+
+        const info: HapiScoutInfo = {instance: scout};
+        req.plugins.scout = info;
+
+        const url = req.url ? `${req.url.pathname}${req.url.search}` : req.path;
+
+        return new Promise(resolve => {
+            scout.transaction(`${req.method.toUpperCase()} ${req.path}`, finishTransaction => {
+                info.request = scout.getCurrentRequest() || undefined;
+                info.finishTransaction = finishTransaction;
+
+                if (!info.request) {
+                    this.logFn(
+                        "[scout/integrations/hapi] Failed to start transaction, no current request",
+                        LogLevel.Warn,
+                    );
+                    return resolve(h.continue);
+                }
+
+                const request = info.request;
+
+                // Promise reactions keep the async context they were created in,
+                // so functions passed through this chain run inside the transaction
+                let enterTransaction: (fn: () => any) => void = () => undefined;
+                const ranInTransaction = new Promise<() => any>(r => enterTransaction = r)
+                    .then(fn => fn());
+
+                info.runInTransaction = fn => {
+                    enterTransaction(fn);
+                    return ranInTransaction;
+                };
+
+                // Add the path context
+                return request
+                    .addContext(ScoutContextName.Path, scout.filterRequestPath(url))
+                // Add the remote IP context if it is being collected
+                    .then(() => {
+                        const remoteIP = scout.getRemoteIP(req.raw.req);
+                        if (remoteIP) { return request.addContext(ScoutContextName.RemoteIP, remoteIP); }
+                    })
+                // Add the trace context if the request is part of a (distributed) trace
+                    .then(() => request.addContexts(scout.getTraceContextTags(req.raw.req)))
+                // Add request queue time context if present
+                    .then(() => {
+                        const matchingHeader = Constants.REQUEST_QUEUE_TIME_HEADERS
+                            .find(headerName => req.headers[headerName]);
+
+                        // If a header was found, extract the queue time
+                        if (matchingHeader) {
+                            const value = parseQueueTimeNS(req.headers[matchingHeader]);
+                            return request.addContext(
+                                ScoutContextName.QueueTimeNS,
+                                new BigNumber(requestStartTimeNS).minus(value).toString(),
+                            );
+                        }
+                    })
+                    .catch(err => {
+                        this.logFn(`[scout/integrations/hapi] Failed to trace request:\n ${err}`, LogLevel.Error);
+                    })
+                    .then(() => resolve(h.continue));
+            }, {replacesCurrent: true});
+        });
+    }
+
+    /**
+     * Shim a route's handler so that it runs inside a span for the route,
+     * which is started inside the transaction for the request
+     *
+     * @param {HapiRoute} route - the (public) route, as provided by hapi's "route" event
+     */
+    private shimRouteHandler(route: HapiRoute) {
+        const integration = this;
+        const settings = route && route.settings;
+        if (!settings || typeof settings.handler !== "function") { return; }
+
+        const originalFn = settings.handler;
+
+        settings.handler = function(this: any, req: HapiRequest) {
+            const info: HapiScoutInfo = req.plugins.scout;
+
+            // If the request is not being traced then run the handler normally
+            const scout = integration.scout;
+            if (!scout || !info || !info.runInTransaction) { return originalFn.apply(this, arguments); }
+
+            const self = this;
+            const args = arguments;
+            const name = `Controller/${req.method.toUpperCase()} ${req.route.path}`;
+
+            return info.runInTransaction(() => scout.instrument(name, finishSpan => {
+                info.rootSpan = scout.getCurrentSpan() || undefined;
+
+                return Promise.resolve()
+                    .then(() => originalFn.apply(self, args))
+                    .then(
+                        result => {
+                            finishSpan();
+                            return result;
+                        },
+                        err => {
+                            finishSpan();
+                            throw err;
+                        },
+                    );
+            }));
+        };
+
+        integration.logFn(
+            `[scout/integrations/hapi] Shimmed handler for route [${route.method.toUpperCase()} ${route.path}]`,
+            LogLevel.Trace,
+        );
+    }
+
+    /**
+     * Name (or skip) the transaction once routing is complete, and mark Boom responses as errors
+     */
+    private onPreResponse(req: HapiRequest, h: HapiToolkit): any {
+        const info: HapiScoutInfo = req.plugins.scout;
+        if (!info || !info.instance || !info.request) { return h.continue; }
+
+        const scout = info.instance;
+        const request = info.request;
+        const route = req.route;
+
+        if (!route || route.method === HAPI_SPECIAL_ROUTE_METHOD) {
+            // If we have no route (ex. 404s) then we can't record the request
+            scout.emit(ScoutEvent.UnknownRequestPathSkipped, req.path);
+            request.ignore();
+
+        } else if (scout.ignoresPath(route.path)) {
+            // Ignore the request if this path is on the list of ignored paths
+            request.ignore();
+
+        } else if (!info.rootSpan) {
+            // If the handler never ran (ex. failed validation), record the Controller span anyway
+            scout.instrumentSync(
+                `Controller/${req.method.toUpperCase()} ${route.path}`,
+                () => undefined,
+                request,
+            );
+        }
+
+        // Mark the current request as errored
+        if (req.response && req.response.isBoom) {
+            request.addContextSync(ScoutContextName.Error, "true");
+        }
+
+        return h.continue;
+    }
+
+    /**
+     * Finish the transaction for a request once the response has been sent
+     */
+    private onResponse(req: HapiRequest) {
+        const info: HapiScoutInfo = req.plugins.scout;
+        if (!info || !info.finishTransaction) { return; }
+
+        // Finish transaction (which *must* trigger a send)
+        Promise.resolve(info.finishTransaction())
+            .then(() => delete req.plugins.scout)
+            .catch(err => {
+                this.logFn(`[scout/integrations/hapi] Failed to finish transaction:\n ${err}`, LogLevel.Error);
+            });
+    }
+}
+
+export default new HapiIntegration();
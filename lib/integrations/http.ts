@@ -1,16 +1,42 @@
 import * as path from "path";
-import { ClientRequest, RequestOptions } from "http";
+import { ClientRequest, IncomingMessage, RequestOptions, ServerResponse } from "http";
+import { URL } from "url";
 import { ExportBag, RequireIntegration } from "../types/integrations";
 import { Scout, DoneCallback, ScoutSpan, ScoutRequest } from "../scout";
-import { LogFn, LogLevel, ScoutContextName, ScoutSpanOperation } from "../types";
+import {
+    LogFn,
+    LogLevel,
+    ScoutContextName,
+    ScoutSpanOperation,
+    buildRoutePathNormalizer,
+    parseQueueTimeNS,
+} from "../types";
 import * as Constants from "../constants";
 
+const getNanoTime = require("nano-time");
+const BigNumber = require("big-number");
+
+// Details of an outbound request, as recorded on its span
+export interface RequestDetails {
+    method: string;
+    url: string;
+    host: string;
+    port: number;
+}
+
 // Hook into the express and mongodb module
 export class HTTPIntegration extends RequireIntegration {
     protected readonly packageName: string = "http";
 
+    // Protocol of requests that do not specify one
+    protected readonly defaultProtocol: string = "http";
+
+    // Normalizer for the paths of requests to servers, built from the `httpServerRoutes` it was built for
+    private routePathNormalizer?: {routes: string[], normalize: (path: string) => string};
+
     protected shim(httpExport: any): any {
         httpExport = this.shimHTTPRequest(httpExport);
+        httpExport = this.shimServerEmit(httpExport);
 
         // NOTE: Order here matters, the shimmed http.get depends on http.request already being shimmed
         httpExport = this.shimHTTPGet(httpExport);
@@ -35,6 +61,10 @@ export class HTTPIntegration extends RequireIntegration {
             // If no scout instance is available then run the function normally
             if (!integration.scout) { return originalFn.apply(this, originalArgsArr); }
 
+            // Requests made by scout itself are not recorded
+            const uninstrumented = originalArgsArr.some(a => a && a[Constants.UNINSTRUMENTED_REQUEST_SYMBOL]);
+            if (uninstrumented) { return originalFn.apply(this, originalArgsArr); }
+
             // We need to find which one of the arguments was the callback (if there was one)
             // if one wasn't provided we'll use a do-nothing callback
             const cbIdx = originalArgsArr.findIndex(a => typeof a === "function");
@@ -52,56 +82,53 @@ export class HTTPIntegration extends RequireIntegration {
                 originalArgsArr[cbIdx] = wrappedCb;
             }
 
-            // Detect whether we're dealing with a url
-            let method: string;
-            let url: string;
-            const urlOrObject: string | URL | RequestOptions = originalArgsArr[0];
-            if (typeof urlOrObject === "string") {
-                method = "GET";
-                url = originalArgsArr[0];
-            } else if ("href" in urlOrObject) {
-                method = "GET";
-                url = urlOrObject.href;
-            } else {
-                method = urlOrObject.method || "Unknown";
-
-                // Determine protocol, set to HTTPS if not present but port if 443
-                let protocol = urlOrObject.protocol;
-                if (!protocol) { protocol = urlOrObject.port === 443 ? "https" : "http"; }
-
-                // Determine port, only show port if it's a non-standard port
-                let port: string | number | null | undefined = urlOrObject.port;
-                if (typeof port === "string") { port = parseInt(port, 10); }
-                if (port && port === 443 || port === 80) { port = undefined; }
-
-                url = [
-                    protocol,
-                    "://",
-                    urlOrObject.hostname || "localhost",
-                    port ? `:${port}` : "",
-                    urlOrObject.path,
-                ].join("") || "Unknown";
-            }
+            const {method, url, host, port} = integration.getRequestDetails(originalArgsArr);
+            const waitForBody = !!integration.scout.getConfig().httpSpansWaitForBody;
 
             // Start a scout instrumentation and pull out the stopSpan
             const opName = `HTTP/${method.toUpperCase()}`;
 
-            // Start an asynchronous instrumentation and pull particulars from it
             let stopSpan: () => void = () => undefined;
-            let reqSpan: ScoutSpan;
+            let reqSpan: ScoutSpan | undefined;
 
-            integration.scout.instrument(opName, (stop, {span}) => {
-                stopSpan = stop;
+            const recordSpan = (span: ScoutSpan) => {
+                reqSpan = span;
+                reqSpan.addContextsSync([
+                    {name: ScoutContextName.URL, value: url},
+                    {name: ScoutContextName.HTTPMethod, value: method.toUpperCase()},
+                    {name: ScoutContextName.HTTPHost, value: host},
+                    {name: ScoutContextName.HTTPPort, value: port},
+                ]);
+            };
 
-                if (!span) { return; }
+            const parent = integration.scout.getCurrentSpan() || integration.scout.getCurrentRequest();
+            if (parent) {
+                // The span is started synchronously, so the trace context sent with the request refers to it
+                const span = parent.startChildSpanSync(opName);
+                span.startSync();
+                recordSpan(span);
 
-                reqSpan = span;
-                reqSpan.addContext(ScoutContextName.URL, url);
-            });
+                stopSpan = () => { span.stopSync(); };
+            } else {
+                // Start an asynchronous instrumentation (creating a transaction) and pull particulars from it
+                integration.scout.instrument(opName, (stop, {span}) => {
+                    stopSpan = stop;
+                    if (span) { recordSpan(span); }
+                });
+            }
 
             // Start the actual request
             const request: ClientRequest = originalFn.apply(this, originalArgsArr);
 
+            // Propagate the trace context (headers are only sent once the request is written to)
+            const traceHeaders = integration.scout.getTraceContextHeaders(reqSpan);
+            if (traceHeaders && !request.headersSent) {
+                Object.entries(traceHeaders)
+                // Headers set by the caller are left as they are
+                    .filter(([name]) => !request.getHeader(name))
+                    .forEach(([name, value]) => request.setHeader(name, value));
+            }
+
             // If the request times out at any point add the context to the span
             request.once("timeout", () => {
                 if (reqSpan) {
@@ -109,10 +136,30 @@ export class HTTPIntegration extends RequireIntegration {
                 }
             });
 
-            // After the request has started we'll finish the instrumentation
+            // After the response has started we'll finish the instrumentation (unless waiting for the body),
             // this is in contrast to stopping only on close
-            request.once("response", () => {
-                stopSpan();
+            request.once("response", (res: IncomingMessage) => {
+                if (reqSpan) {
+                    const statusCode = res.statusCode || 0;
+                    reqSpan.addContextSync(ScoutContextName.HTTPStatusCode, statusCode);
+
+                    const contentLength = parseInt(res.headers["content-length"] || "", 10);
+                    if (!isNaN(contentLength)) {
+                        reqSpan.addContextSync(ScoutContextName.HTTPResponseContentLength, contentLength);
+                    }
+
+                    if (statusCode >= 400) {
+                        reqSpan.addContextSync(ScoutContextName.Error, "true");
+                    }
+                }
+
+                if (!waitForBody) {
+                    stopSpan();
+                    return;
+                }
+
+                // The body is only read if the caller consumes the response (closing the request stops the span)
+                res.once("end", () => stopSpan());
             });
 
             request.once("error", () => {
@@ -132,6 +179,171 @@ export class HTTPIntegration extends RequireIntegration {
         return httpExport;
     }
 
+    /**
+     * Shim for `Server.prototype.emit`, starting a transaction for every incoming request
+     * (only when `httpServerTransactions` is enabled)
+     *
+     * @param {any} httpExport - http's export
+     */
+    protected shimServerEmit(httpExport: any): any {
+        const Server = httpExport.Server;
+        if (!Server || !Server.prototype || typeof Server.prototype.emit !== "function") { return httpExport; }
+
+        const originalFn = Server.prototype.emit;
+        const integration = this;
+
+        Server.prototype.emit = function(this: any, event: string, req: IncomingMessage, res: ServerResponse) {
+            const scout = integration.scout;
+            if (event !== "request" || !scout || !scout.getConfig().httpServerTransactions || !req || !res) {
+                return originalFn.apply(this, arguments);
+            }
+
+            const requestStartTimeNS = getNanoTime();
+            const originalArgs = arguments;
+            const path = (req.url || "/").split("?")[0];
+
+            // Exit early if this path is on the list of ignored paths
+            if (scout.ignoresPath(path)) { return originalFn.apply(this, originalArgs); }
+
+            const method = (req.method || "GET").toUpperCase();
+            const name = `Controller/${method} ${integration.normalizeRoutePath(path)}`;
+
+            // The response is finished (or the connection closed) once the request has been handled
+            const finished = new Promise(resolve => {
+                res.once("finish", resolve);
+                res.once("close", resolve);
+            });
+
+            const server = this;
+            let hasListeners = false;
+
+            // The transaction is started (and the listeners called) right away, without waiting for scout's setup.
+            // Framework integrations (ex. express) take over from this transaction, if the server uses one
+            scout.runInTransaction(name, ({request}) => {
+                if (!request) {
+                    hasListeners = originalFn.apply(server, originalArgs);
+                    return;
+                }
+
+                request.addContextSync(ScoutContextName.Path, scout.filterRequestPath(req.url || "/"));
+
+                // Add the remote IP context if it is being collected
+                const remoteIP = scout.getRemoteIP(req);
+                if (remoteIP) { request.addContextSync(ScoutContextName.RemoteIP, remoteIP); }
+
+                // Add the trace context if the request is part of a (distributed) trace
+                request.addContextsSync(scout.getTraceContextTags(req));
+
+                // Add request queue time context if present
+                const matchingHeader = Constants.REQUEST_QUEUE_TIME_HEADERS.find(h => req.headers[h]);
+                if (matchingHeader) {
+                    const value = parseQueueTimeNS(String(req.headers[matchingHeader]));
+                    request.addContextSync(
+                        ScoutContextName.QueueTimeNS,
+                        new BigNumber(requestStartTimeNS).minus(value).toString(),
+                    );
+                }
+
+                // Handle the request inside a span for the Controller, errors thrown by listeners are thrown by emit()
+                return scout.wrap(name, () => {
+                    hasListeners = originalFn.apply(server, originalArgs);
+                    return finished;
+                })()
+                    .then(() => {
+                        request.addContextSync(ScoutContextName.HTTPStatusCode, res.statusCode);
+                        if (res.statusCode >= 500) { request.addContextSync(ScoutContextName.Error, "true"); }
+                    });
+            }, {replaceable: true});
+
+            return hasListeners;
+        };
+
+        return httpExport;
+    }
+
+    /**
+     * Normalize the path of a request to a server into a route name, using the `httpServerRoutes` templates
+     *
+     * @param {string} path - the path of the request (without query string)
+     * @returns {string} the route name
+     */
+    protected normalizeRoutePath(path: string): string {
+        const scout = this.scout;
+        const routes = scout && scout.getConfig().httpServerRoutes || [];
+
+        if (!this.routePathNormalizer || this.routePathNormalizer.routes !== routes) {
+            let normalize: (path: string) => string;
+            try {
+                normalize = buildRoutePathNormalizer(routes);
+            } catch (err) {
+                this.logFn(`[scout/integrations/http] Invalid httpServerRoutes, ignoring them: ${err}`, LogLevel.Warn);
+                normalize = buildRoutePathNormalizer();
+            }
+
+            this.routePathNormalizer = {routes, normalize};
+        }
+
+        return this.routePathNormalizer.normalize(path);
+    }
+
+    /**
+     * Determine the method, URL & remote host/port of a request from the arguments to `request`/`get`,
+     * which may be a URL (string or `URL`) optionally followed by options, or only options
+     *
+     * @param {any[]} args - arguments to `request`
+     * @returns {RequestDetails} details of the request
+     */
+    protected getRequestDetails(args: any[]): RequestDetails {
+        const [urlOrObject, maybeOptions] = args;
+
+        if (typeof urlOrObject === "string" || (urlOrObject && "href" in urlOrObject)) {
+            const options: RequestOptions = maybeOptions && typeof maybeOptions === "object" ? maybeOptions : {};
+            const url = typeof urlOrObject === "string" ? urlOrObject : urlOrObject.href;
+
+            let parsed: URL | null = null;
+            try { parsed = new URL(url); } catch { parsed = null; }
+
+            if (!parsed) {
+                return {method: options.method || "GET", url, host: "Unknown", port: 0};
+            }
+
+            return {
+                method: options.method || "GET",
+                url,
+                host: parsed.hostname,
+                port: parsed.port ? parseInt(parsed.port, 10) : this.getDefaultPort(parsed.protocol),
+            };
+        }
+
+        const opts: RequestOptions = urlOrObject || {};
+
+        // Determine protocol, set to HTTPS if not present but port if 443
+        let protocol = (opts.protocol || "").replace(/:$/, "");
+        if (!protocol) { protocol = opts.port === 443 ? "https" : this.defaultProtocol; }
+
+        let port: string | number | null | undefined = opts.port || opts.defaultPort;
+        if (typeof port === "string") { port = parseInt(port, 10); }
+        if (!port) { port = this.getDefaultPort(protocol); }
+
+        const host = opts.hostname || (opts.host || "").replace(/:\d+$/, "") || "localhost";
+
+        const url = [
+            protocol,
+            "://",
+            host,
+            // Only show port if it's a non-standard port
+            port !== this.getDefaultPort(protocol) ? `:${port}` : "",
+            opts.path || "/",
+        ].join("");
+
+        return {method: opts.method || "GET", url, host, port};
+    }
+
+    // Port used when a request does not specify one
+    private getDefaultPort(protocol: string): number {
+        return protocol.replace(/:$/, "") === "https" ? 443 : 80;
+    }
+
     /**
      * Shim for http's `get` function
      * `get` has to be shimmed because it uses the defined version of `request`
@@ -10,6 +10,7 @@ import * as Constants from "../constants";
 // Hook into the express and mongodb module
 export class HTTPSIntegration extends HTTPIntegration {
     protected readonly packageName: string = "https";
+    protected readonly defaultProtocol: string = "https";
 }
 
 export default new HTTPSIntegration();
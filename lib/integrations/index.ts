@@ -1,4 +1,8 @@
 import pgIntegration from "./pg";
+import mongodbIntegration from "./mongodb";
+import mongooseIntegration from "./mongoose";
+import redisIntegration from "./redis";
+import ioredisIntegration from "./ioredis";
 import mysqlIntegration from "./mysql";
 import mysql2Integration from "./mysql2";
 import pugIntegration from "./pug";
@@ -8,11 +12,19 @@ import httpIntegration from "./http";
 import expressIntegration from "./express";
 import nuxtIntegration from "./nuxt";
 import httpsIntegration from "./https";
+import koaIntegration from "./koa";
+import fastifyIntegration from "./fastify";
+import hapiIntegration from "./hapi";
+import undiciIntegration from "./undici";
 import { doNothingRequireIntegration, RequireIntegration } from "../types/integrations";
 
 export function getIntegrationForPackage(pkg: string): RequireIntegration {
     switch (pkg) {
         case pgIntegration.getPackageName(): return pgIntegration;
+        case mongodbIntegration.getPackageName(): return mongodbIntegration;
+        case mongooseIntegration.getPackageName(): return mongooseIntegration;
+        case redisIntegration.getPackageName(): return redisIntegration;
+        case ioredisIntegration.getPackageName(): return ioredisIntegration;
         case mysqlIntegration.getPackageName(): return mysqlIntegration;
         case mysql2Integration.getPackageName(): return mysql2Integration;
         case pugIntegration.getPackageName(): return pugIntegration;
@@ -22,6 +34,10 @@ export function getIntegrationForPackage(pkg: string): RequireIntegration {
         case expressIntegration.getPackageName(): return expressIntegration;
         case nuxtIntegration.getPackageName(): return nuxtIntegration;
         case httpsIntegration.getPackageName(): return httpsIntegration;
+        case koaIntegration.getPackageName(): return koaIntegration;
+        case fastifyIntegration.getPackageName(): return fastifyIntegration;
+        case hapiIntegration.getPackageName(): return hapiIntegration;
+        case undiciIntegration.getPackageName(): return undiciIntegration;
         default: return doNothingRequireIntegration;
     }
 }
@@ -0,0 +1,165 @@
+import { RequireIntegration } from "../types/integrations";
+import { ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName, ScoutSpanOperation } from "../types";
+
+// We can't import ioredis's types without requiring ioredis itself
+type Redis = any;
+type Pipeline = any;
+type Command = any;
+
+// Marks commands that have already been recorded (they are re-sent if the client was offline)
+const RECORDED_SYMBOL = Symbol("scout-ioredis-recorded");
+
+// Commands that only delimit a transaction, rather than being part of it
+const TRANSACTION_COMMANDS = ["multi", "exec"];
+
+// Hook into the ioredis module
+export class IORedisIntegration extends RequireIntegration {
+    protected readonly packageName: string = "ioredis";
+
+    protected shim(ioredisExport: any): any {
+        ioredisExport = this.shimSendCommand(ioredisExport);
+        ioredisExport = this.shimPipeline(ioredisExport);
+
+        return ioredisExport;
+    }
+
+    /**
+     * Shim for Redis's `sendCommand` function, which every command goes through
+     *
+     * @param {any} ioredisExport - ioredis's export (the Redis class)
+     * @returns {any} the modified ioredis export
+     */
+    private shimSendCommand(ioredisExport: any): any {
+        const Redis: Redis = ioredisExport;
+        const originalFn = Redis.prototype.sendCommand;
+        const integration = this;
+
+        Redis.prototype.sendCommand = function(this: Redis, command: Command) {
+            if (!command || command[RECORDED_SYMBOL]) { return originalFn.apply(this, arguments); }
+            command[RECORDED_SYMBOL] = true;
+
+            const span = integration.startSpan(`${ScoutSpanOperation.Redis}/${command.name.toUpperCase()}`);
+            if (!span) { return originalFn.apply(this, arguments); }
+
+            // The command is settled when the reply comes in (or when it can't be sent)
+            integration.stopSpanWhenSettled(command, span);
+
+            return originalFn.apply(this, arguments);
+        };
+
+        return ioredisExport;
+    }
+
+    /**
+     * Shim for Pipeline's `sendCommand` and `exec` functions, recording the pipeline as a single span
+     *
+     * @param {any} ioredisExport - ioredis's export (the Redis class)
+     * @returns {any} the modified ioredis export
+     */
+    private shimPipeline(ioredisExport: any): any {
+        const Pipeline: Pipeline = ioredisExport.Pipeline;
+        const originalSendCommandFn = Pipeline.prototype.sendCommand;
+        const originalExecFn = Pipeline.prototype.exec;
+        const integration = this;
+
+        // Commands that are part of a pipeline are recorded by the pipeline's span
+        Pipeline.prototype.sendCommand = function(this: Pipeline, command: Command) {
+            if (command) { command[RECORDED_SYMBOL] = true; }
+            return originalSendCommandFn.apply(this, arguments);
+        };
+
+        Pipeline.prototype.exec = function(this: Pipeline) {
+            // exec is re-run by ioredis (ex. for transactions and cluster retries), only record it once
+            if (this[RECORDED_SYMBOL]) { return originalExecFn.apply(this, arguments); }
+            this[RECORDED_SYMBOL] = true;
+
+            const names: string[] = this._queue.map(c => c.name);
+            const isTransaction = names.includes("multi");
+            const commands = names
+                .filter(n => !TRANSACTION_COMMANDS.includes(n))
+                .map(n => n.toUpperCase());
+
+            const span = integration.startSpan(`${ScoutSpanOperation.Redis}/${isTransaction ? "MULTI" : "PIPELINE"}`);
+            if (!span) { return originalExecFn.apply(this, arguments); }
+
+            span.addContextSync(ScoutContextName.DBCommands, commands);
+
+            // The pipeline is settled when all the replies have come in
+            integration.stopSpanWhenSettled(this, span);
+
+            return originalExecFn.apply(this, arguments);
+        };
+
+        return ioredisExport;
+    }
+
+    /**
+     * Start a span under the current span (or request), if there is one
+     *
+     * @param {string} operation
+     * @returns {ScoutSpan | null} the started span
+     */
+    private startSpan(operation: string): ScoutSpan | null {
+        if (!this.scout) { return null; }
+
+        const parent = this.scout.getCurrentSpan() || this.scout.getCurrentRequest();
+        if (!parent) { return null; }
+
+        this.logFn(`[scout/integrations/ioredis] Sending [${operation}]...`, LogLevel.Trace);
+
+        const span = parent.startChildSpanSync(operation);
+        span.startSync();
+
+        return span;
+    }
+
+    /**
+     * Stop a span when it's command (or pipeline) is resolved or rejected
+     *
+     * The span is stopped from the `resolve`/`reject` functions rather than by handling the promise,
+     * so that a promise the caller doesn't handle still causes an unhandled rejection.
+     *
+     * @param {Command | Pipeline} target - the command (or pipeline) the span was started for
+     * @param {ScoutSpan} span
+     */
+    private stopSpanWhenSettled(target: Command | Pipeline, span: ScoutSpan) {
+        const originalResolve = target.resolve;
+        const originalReject = target.reject;
+        const integration = this;
+        let settled = false;
+
+        target.resolve = function() {
+            if (!settled) {
+                settled = true;
+                integration.stopSpan(span);
+            }
+            return originalResolve.apply(this, arguments);
+        };
+
+        target.reject = function(err: Error) {
+            if (!settled) {
+                settled = true;
+                integration.stopSpan(span, err);
+            }
+            return originalReject.apply(this, arguments);
+        };
+    }
+
+    /**
+     * Stop a span that was started for a command (or pipeline)
+     *
+     * @param {ScoutSpan} span
+     * @param {Error} [err] - the error the command failed with, if any
+     */
+    private stopSpan(span: ScoutSpan, err?: Error) {
+        if (err) {
+            span.addContextSync(ScoutContextName.Error, "true");
+            this.logFn(`[scout/integrations/ioredis] [${span.operation}] failed`, LogLevel.Trace);
+        }
+
+        span.stopSync();
+    }
+}
+
+export default new IORedisIntegration();
@@ -0,0 +1,65 @@
+import { RequireIntegration } from "../types/integrations";
+import { LogLevel } from "../types";
+
+import {
+    getSync as getStackTraceSync,
+} from "stacktrace-js";
+
+// Hook into the koa module
+export class KoaIntegration extends RequireIntegration {
+    protected readonly packageName: string = "koa";
+
+    protected shim(koaExport: any): any {
+        koaExport = this.shimApplicationUse(koaExport);
+
+        return koaExport;
+    }
+
+    /**
+     * Shim koa's `Application.prototype.use`, so that middleware report where they were defined
+     *
+     * @param {any} koaExport - koa's export (the Application class)
+     * @returns {any} the modified koa export
+     */
+    private shimApplicationUse(koaExport: any): any {
+        const integration = this;
+        const originalFn = koaExport.prototype.use;
+
+        koaExport.prototype.use = function(this: any, fn: any) {
+            // Let koa do it's own validation & conversion (ex. of generator functions) first
+            const result = originalFn.apply(this, arguments);
+
+            const idx = this.middleware.length - 1;
+            const middleware = this.middleware[idx];
+            if (typeof middleware !== "function") { return result; }
+
+            // Capture the stack frames @ definition of the middleware
+            const framesAtDefinition = getStackTraceSync();
+
+            const shimmed = function(this: any) {
+                // If no scout instance is available, then run the original middleware
+                if (!integration.scout) { return middleware.apply(this, arguments); }
+
+                // If we are inside a span, save the definition frames to the span
+                // (they will be sent out if the operation takes too long)
+                const span = integration.scout.getCurrentSpan();
+                if (span) { span.pushTraceFrames(framesAtDefinition); }
+
+                return middleware.apply(this, arguments);
+            };
+
+            // Preserve properties set on the middleware (ex. the `router` on @koa/router dispatch functions)
+            Object.assign(shimmed, middleware);
+            this.middleware[idx] = shimmed;
+
+            integration.logFn("[scout/integrations/koa] Shimmed middleware", LogLevel.Trace);
+
+            return result;
+        };
+
+        return koaExport;
+    }
+
+}
+
+export default new KoaIntegration();
@@ -0,0 +1,342 @@
+import { RequireIntegration } from "../types/integrations";
+import { ScoutRequest, ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName, ScoutSpanOperation, scrubDocument } from "../types";
+import * as Constants from "../constants";
+
+// We can't import mongodb's types without requiring mongodb itself
+type MongoClient = any;
+type Collection = any;
+type CommandStartedEvent = any;
+type CommandSucceededEvent = any;
+type CommandFailedEvent = any;
+
+// Marks clients that already have command monitoring listeners attached
+const MONITORED_SYMBOL = Symbol("scout-mongodb-monitored");
+
+// Commands the driver sends for it's own purposes (handshakes, auth, sessions)
+const IGNORED_COMMANDS = [
+    "hello",
+    "ismaster",
+    "isMaster",
+    "saslStart",
+    "saslContinue",
+    "getnonce",
+    "authenticate",
+    "ping",
+    "endSessions",
+    "buildInfo",
+];
+
+// Collection methods recorded on drivers without command monitoring, with the position of their filter argument
+const FALLBACK_COLLECTION_METHODS: {[method: string]: number | null} = {
+    findOne: 0,
+    count: 0,
+    countDocuments: 0,
+    distinct: 1,
+    insert: null,
+    insertOne: null,
+    insertMany: null,
+    update: 0,
+    updateOne: 0,
+    updateMany: 0,
+    replaceOne: 0,
+    remove: 0,
+    deleteOne: 0,
+    deleteMany: 0,
+    findOneAndUpdate: 0,
+    findOneAndReplace: 0,
+    findOneAndDelete: 0,
+    findAndModify: 0,
+    bulkWrite: null,
+};
+
+/**
+ * Check whether the current span already records MongoDB operations (ex. a mongoose span)
+ *
+ * @param {ScoutSpan | ScoutRequest} parent - the current span or request
+ * @returns {boolean} whether the operation is already recorded
+ */
+function isRecordedByParent(parent: ScoutSpan | ScoutRequest): boolean {
+    return parent instanceof ScoutSpan && parent.operation.startsWith(`${ScoutSpanOperation.MongoDB}/`);
+}
+
+/**
+ * Get the query filter (if any) that was sent as part of a command
+ *
+ * @param {string} commandName
+ * @param {any} command - the command document
+ * @returns {any} the filter document(s)
+ */
+function getCommandFilter(commandName: string, command: any): any {
+    switch (commandName) {
+        case "find": return command.filter;
+        case "count": return command.query;
+        case "distinct": return command.query;
+        case "findAndModify": return command.query;
+        case "aggregate": return command.pipeline;
+        case "delete": return (command.deletes || []).map(d => d.q);
+        case "update": return (command.updates || []).map(u => u.q);
+        default: return undefined;
+    }
+}
+
+// Hook into the mongodb module
+export class MongoDBIntegration extends RequireIntegration {
+    protected readonly packageName: string = "mongodb";
+
+    // Spans that are waiting for their command to finish, by client and request ID
+    private readonly pendingSpans: WeakMap<MongoClient, Map<number, ScoutSpan>> = new WeakMap();
+
+    // Whether a client has command monitoring enabled (collection methods are recorded until then)
+    private commandMonitoring: boolean = false;
+
+    protected shim(mongodbExport: any): any {
+        mongodbExport = this.shimMongoClientConnect(mongodbExport);
+        mongodbExport = this.shimCollection(mongodbExport);
+
+        return mongodbExport;
+    }
+
+    /**
+     * Shim for MongoClient's `connect` function, enabling command monitoring on every client
+     *
+     * @param {any} mongodbExport - mongodb's export
+     * @returns {any} the modified mongodb export
+     */
+    private shimMongoClientConnect(mongodbExport: any): any {
+        const MongoClient: MongoClient = mongodbExport.MongoClient;
+        if (!MongoClient || !MongoClient.prototype || typeof MongoClient.prototype.connect !== "function") {
+            this.logFn(
+                "[scout/integrations/mongodb] MongoClient not found, collection methods will be recorded instead",
+                LogLevel.Debug,
+            );
+            return mongodbExport;
+        }
+
+        const originalConnect = MongoClient.prototype.connect;
+        const integration = this;
+
+        MongoClient.prototype.connect = function(this: MongoClient) {
+            integration.enableCommandMonitoring(this);
+            return originalConnect.apply(this, arguments);
+        };
+
+        // Commands that are still running when the client is closed never finish
+        const originalClose = MongoClient.prototype.close;
+        if (typeof originalClose === "function") {
+            MongoClient.prototype.close = function(this: MongoClient) {
+                integration.stopPendingSpans(this);
+                return originalClose.apply(this, arguments);
+            };
+        }
+
+        return mongodbExport;
+    }
+
+    /**
+     * Shim for Collection's methods, recording them on drivers that don't support command monitoring
+     *
+     * @param {any} mongodbExport - mongodb's export
+     * @returns {any} the modified mongodb export
+     */
+    private shimCollection(mongodbExport: any): any {
+        const Collection: Collection = mongodbExport.Collection;
+        if (!Collection || !Collection.prototype) {
+            this.logFn("[scout/integrations/mongodb] Collection not found", LogLevel.Debug);
+            return mongodbExport;
+        }
+
+        Object.keys(FALLBACK_COLLECTION_METHODS)
+            .filter(method => typeof Collection.prototype[method] === "function")
+            .forEach(method => {
+                Collection.prototype[method] = this.shimCollectionMethod(
+                    method,
+                    FALLBACK_COLLECTION_METHODS[method],
+                    Collection.prototype[method],
+                );
+            });
+
+        return mongodbExport;
+    }
+
+    /**
+     * Wrap a Collection method in a span, unless it's commands are recorded by command monitoring
+     *
+     * @param {string} method - the name of the method
+     * @param {number | null} filterIndex - the position of the method's filter argument
+     * @param {Function} originalFn - the original method
+     * @returns {Function} the shimmed method
+     */
+    private shimCollectionMethod(
+        method: string,
+        filterIndex: number | null,
+        originalFn: (...args: any[]) => any,
+    ): (...args: any[]) => any {
+        const integration = this;
+
+        return function(this: Collection, ...args: any[]) {
+            const scout = integration.scout;
+            if (integration.commandMonitoring || !scout) { return originalFn.apply(this, args); }
+
+            const parent = scout.getCurrentSpan() || scout.getCurrentRequest();
+            if (!parent || isRecordedByParent(parent)) { return originalFn.apply(this, args); }
+
+            const collection = this.collectionName || (this.s && this.s.name) || "$cmd";
+            const filter = filterIndex === null ? undefined : args[filterIndex];
+
+            integration.logFn(
+                `[scout/integrations/mongodb] Recording collection method [${collection}.${method}]`,
+                LogLevel.Trace,
+            );
+
+            return scout.wrap(`${ScoutSpanOperation.MongoDB}/${collection}/${method}`, function(
+                this: Collection,
+                ...fnArgs: any[]
+            ) {
+                const span = scout.getCurrentSpan();
+                if (span && filter && typeof filter === "object") {
+                    span.addContextSync(ScoutContextName.DBStatement, JSON.stringify(scrubDocument(filter)));
+                }
+
+                return originalFn.apply(this, fnArgs);
+            }).apply(this, args);
+        };
+    }
+
+    /**
+     * Enable command monitoring on a client and listen to the command events
+     *
+     * @param {MongoClient} client
+     */
+    private enableCommandMonitoring(client: MongoClient) {
+        if (client[MONITORED_SYMBOL]) { return; }
+        client[MONITORED_SYMBOL] = true;
+
+        // 4.x+ drivers expose the option on the client, 3.6+ drivers read it from the client's options at connect
+        if ("monitorCommands" in client) {
+            client.monitorCommands = true;
+        } else if (client.s && client.s.options && typeof client.on === "function") {
+            client.s.options.monitorCommands = true;
+        } else {
+            this.logFn(
+                "[scout/integrations/mongodb] Command monitoring not supported (3.6+), recording collection methods",
+                LogLevel.Debug,
+            );
+            return;
+        }
+
+        this.commandMonitoring = true;
+
+        client.on("commandStarted", event => this.onCommandStarted(client, event));
+        client.on("commandSucceeded", event => this.onCommandFinished(client, event));
+        client.on("commandFailed", event => this.onCommandFinished(client, event, true));
+        client.on("topologyClosed", () => this.stopPendingSpans(client));
+
+        this.logFn("[scout/integrations/mongodb] Enabled command monitoring on client", LogLevel.Trace);
+    }
+
+    /**
+     * Start a span for a command that was sent to the server
+     *
+     * @param {MongoClient} client - the client that sent the command
+     * @param {CommandStartedEvent} event
+     */
+    private onCommandStarted(client: MongoClient, event: CommandStartedEvent) {
+        if (!this.scout || !event || IGNORED_COMMANDS.includes(event.commandName)) { return; }
+
+        let pending = this.pendingSpans.get(client);
+        if (!pending) {
+            pending = new Map();
+            this.pendingSpans.set(client, pending);
+        }
+
+        if (pending.size >= Constants.MONGODB_MAX_PENDING_COMMANDS) {
+            this.logFn("[scout/integrations/mongodb] Too many pending commands, skipping command", LogLevel.Debug);
+            return;
+        }
+
+        const parent = this.scout.getCurrentSpan() || this.scout.getCurrentRequest();
+        if (!parent) {
+            this.logFn("[scout/integrations/mongodb] No current transaction, skipping command", LogLevel.Trace);
+            return;
+        }
+
+        // Commands run by higher level integrations (ex. mongoose) are already recorded by their span
+        if (isRecordedByParent(parent)) { return; }
+
+        const command = event.command || {};
+        const commandName = event.commandName;
+
+        // Most commands are sent with the name of the collection as the command's value
+        let collection = command[commandName];
+        if (commandName === "getMore") { collection = command.collection; }
+        if (typeof collection !== "string") { collection = "$cmd"; }
+
+        const span = parent.startChildSpanSync(`${ScoutSpanOperation.MongoDB}/${collection}/${commandName}`);
+        span.startSync();
+
+        const filter = getCommandFilter(commandName, command);
+        if (filter) {
+            span.addContextSync(ScoutContextName.DBStatement, JSON.stringify(scrubDocument(filter)));
+        }
+
+        pending.set(event.requestId, span);
+    }
+
+    /**
+     * Stop the span for a command that has finished
+     *
+     * @param {MongoClient} client - the client that sent the command
+     * @param {CommandSucceededEvent | CommandFailedEvent} event
+     * @param {boolean} [failed] - whether the command failed
+     */
+    private onCommandFinished(
+        client: MongoClient,
+        event: CommandSucceededEvent | CommandFailedEvent,
+        failed?: boolean,
+    ) {
+        const pending = this.pendingSpans.get(client);
+        if (!event || !pending) { return; }
+
+        const span = pending.get(event.requestId);
+        if (!span) { return; }
+        pending.delete(event.requestId);
+
+        // Write errors (ex. duplicate keys) are reported by a successful command
+        const reply = event.reply;
+        if (reply && (reply.ok === 0 || (Array.isArray(reply.writeErrors) && reply.writeErrors.length > 0))) {
+            failed = true;
+        }
+
+        // Mark the span as errored
+        if (failed) {
+            span.addContextSync(ScoutContextName.Error, "true");
+            this.logFn(`[scout/integrations/mongodb] Command [${event.commandName}] failed`, LogLevel.Trace);
+        }
+
+        span.stopSync();
+    }
+
+    /**
+     * Stop the spans of a client's commands that will never finish (the client or its topology was closed)
+     *
+     * @param {MongoClient} client
+     */
+    private stopPendingSpans(client: MongoClient) {
+        const pending = this.pendingSpans.get(client);
+        if (!pending || pending.size === 0) { return; }
+
+        this.logFn(
+            `[scout/integrations/mongodb] Client closed with [${pending.size}] pending commands`,
+            LogLevel.Trace,
+        );
+
+        pending.forEach(span => {
+            span.addContextSync(ScoutContextName.Error, "true");
+            span.stopSync();
+        });
+        pending.clear();
+    }
+}
+
+export default new MongoDBIntegration();
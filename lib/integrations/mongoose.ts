@@ -0,0 +1,142 @@
+import { RequireIntegration } from "../types/integrations";
+import { LogLevel, ScoutContextName, ScoutSpanOperation, scrubDocument } from "../types";
+
+// We can't import mongoose's types without requiring mongoose itself
+type Query = any;
+type Model = any;
+type Aggregate = any;
+
+// Hook into the mongoose module
+export class MongooseIntegration extends RequireIntegration {
+    protected readonly packageName: string = "mongoose";
+
+    protected shim(mongooseExport: any): any {
+        mongooseExport = this.shimQueryExec(mongooseExport);
+        mongooseExport = this.shimModelSave(mongooseExport);
+        mongooseExport = this.shimAggregateExec(mongooseExport);
+
+        return mongooseExport;
+    }
+
+    /**
+     * Shim for mongoose's `Query.prototype.exec` function
+     *
+     * @param {any} mongooseExport - mongoose's export
+     * @returns {any} the modified mongoose export
+     */
+    private shimQueryExec(mongooseExport: any): any {
+        const Query: Query = mongooseExport.Query;
+        const originalFn = Query.prototype.exec;
+        const integration = this;
+
+        Query.prototype.exec = function(this: Query, op?: any) {
+            const modelName = this.model ? this.model.modelName : "unknown";
+            const opName = typeof op === "string" ? op : this.op;
+            const filter = typeof this.getFilter === "function" ? this.getFilter() : this._conditions;
+
+            return integration.runInstrumented(
+                `${ScoutSpanOperation.MongoDB}/${modelName}/${opName}`,
+                filter,
+                this,
+                originalFn,
+                arguments,
+            );
+        };
+
+        return mongooseExport;
+    }
+
+    /**
+     * Shim for mongoose's `Model.prototype.save` function
+     *
+     * @param {any} mongooseExport - mongoose's export
+     * @returns {any} the modified mongoose export
+     */
+    private shimModelSave(mongooseExport: any): any {
+        const Model: Model = mongooseExport.Model;
+        const originalFn = Model.prototype.save;
+        const integration = this;
+
+        Model.prototype.save = function(this: Model) {
+            const modelName = this.constructor.modelName || "unknown";
+
+            return integration.runInstrumented(
+                `${ScoutSpanOperation.MongoDB}/${modelName}/save`,
+                undefined,
+                this,
+                originalFn,
+                arguments,
+            );
+        };
+
+        return mongooseExport;
+    }
+
+    /**
+     * Shim for mongoose's `Aggregate.prototype.exec` function
+     *
+     * @param {any} mongooseExport - mongoose's export
+     * @returns {any} the modified mongoose export
+     */
+    private shimAggregateExec(mongooseExport: any): any {
+        const Aggregate: Aggregate = mongooseExport.Aggregate;
+        const originalFn = Aggregate.prototype.exec;
+        const integration = this;
+
+        Aggregate.prototype.exec = function(this: Aggregate) {
+            const modelName = this._model ? this._model.modelName : "unknown";
+            const pipeline = typeof this.pipeline === "function" ? this.pipeline() : undefined;
+
+            return integration.runInstrumented(
+                `${ScoutSpanOperation.MongoDB}/${modelName}/aggregate`,
+                pipeline,
+                this,
+                originalFn,
+                arguments,
+            );
+        };
+
+        return mongooseExport;
+    }
+
+    /**
+     * Run a mongoose operation inside of a span, supporting both the callback and the promise style
+     *
+     * @param {string} operation - the operation of the span
+     * @param {any} filter - the filter (or pipeline) used by the operation, which is scrubbed before being recorded
+     * @param {any} self - the object the operation is performed on
+     * @param {Function} originalFn - the original (unshimmed) function
+     * @param {IArguments} originalArgs - the arguments the operation was called with
+     * @returns {any} whatever the original function returns
+     */
+    private runInstrumented(
+        operation: string,
+        filter: any,
+        self: any,
+        originalFn: (...args: any[]) => any,
+        originalArgs: IArguments,
+    ): any {
+        const args = Array.from(originalArgs);
+        const scout = this.scout;
+
+        // Operations outside of a transaction (ex. during application startup) are not recorded
+        if (!scout || !scout.getCurrentRequest()) { return originalFn.apply(self, args); }
+
+        this.logFn(`[scout/integrations/mongoose] Running [${operation}]...`, LogLevel.Trace);
+
+        // The operation's span is the current span while it runs, so the commands it sends aren't recorded again
+        // (by the mongodb integration). It is stopped once the callback is called or the returned promise settles
+        const instrumented = scout.wrap(operation, function(this: any, ...fnArgs: any[]) {
+            const span = scout.getCurrentSpan();
+            if (span && filter) {
+                span.addContextSync(ScoutContextName.DBStatement, JSON.stringify(scrubDocument(filter)));
+            }
+
+            return originalFn.apply(this, fnArgs);
+        });
+
+        return instrumented.apply(self, args);
+    }
+}
+
+export default new MongooseIntegration();
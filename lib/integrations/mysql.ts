@@ -1,19 +1,33 @@
 import * as path from "path";
 import { ExportBag, RequireIntegration, getIntegrationSymbol } from "../types/integrations";
 import { Scout } from "../scout";
-import { Connection, ConnectionConfig, QueryFunction } from "mysql";
+import {
+    Connection,
+    ConnectionConfig,
+    MysqlError,
+    Pool,
+    PoolCluster,
+    PoolClusterConfig,
+    PoolConfig,
+    PoolConnection,
+} from "mysql";
 import { LogFn, LogLevel, ScoutContextName, ScoutSpanOperation } from "../types";
 import * as Constants from "../constants";
 
 // From @types/mysql
 type CreateConnectionFn = (connectionUri: string | ConnectionConfig) => Connection;
 
+// Marks connections whose `query` function has already been shimmed
+const QUERY_SHIMMED_SYMBOL = Symbol("scout-mysql-query-shimmed");
+
 // Hook into the express and mongodb module
 export class MySQLIntegration extends RequireIntegration {
     protected readonly packageName: string = "mysql";
 
     protected shim(mysqlExport: any): any {
         mysqlExport = this.shimMySQLCreateConnection(mysqlExport);
+        mysqlExport = this.shimMySQLCreatePool(mysqlExport);
+        mysqlExport = this.shimMySQLCreatePoolCluster(mysqlExport);
 
         return mysqlExport;
     }
@@ -45,110 +59,160 @@ export class MySQLIntegration extends RequireIntegration {
     }
 
     /**
-     * Shims the `query` function of a MySQL Connection
+     * Shim for mysql's `createPool` function
      *
-     * @param {any} exports - the mysql exports
-     * @param {Connection} conn - the mysql connection
+     * @param {any} mysqlExport - mysql's export
+     * @returns {any} the modified mysql export
      */
-    private shimMySQLConnectionQuery(exports: any, conn: Connection): Connection {
-        const originalFn = conn.query;
+    private shimMySQLCreatePool(mysqlExport: any): any {
+        const original = mysqlExport.createPool;
+        const integration = this;
+
+        const createPool = function(this: any, uriOrCfg: string | PoolConfig) {
+            const pool: Pool = original.apply(this, arguments);
+            integration.logFn("[scout/integrations/mysql] Creating pool for Mysql db...", LogLevel.Trace);
+
+            return integration.shimMySQLPool(mysqlExport, pool);
+        };
+
+        mysqlExport.createPool = createPool;
+        return mysqlExport;
+    }
+
+    /**
+     * Shim for mysql's `createPoolCluster` function
+     * pools are created by the cluster itself when nodes are added, so they're shimmed after `add`
+     *
+     * @param {any} mysqlExport - mysql's export
+     * @returns {any} the modified mysql export
+     */
+    private shimMySQLCreatePoolCluster(mysqlExport: any): any {
+        const original = mysqlExport.createPoolCluster;
         const integration = this;
 
-        const modified: any = function(this: Connection) {
-            const originalArgs = arguments;
+        const createPoolCluster = function(this: any, config?: PoolClusterConfig) {
+            const cluster: PoolCluster = original.apply(this, arguments);
+            integration.logFn("[scout/integrations/mysql] Creating pool cluster for Mysql db...", LogLevel.Trace);
 
-            // If no scout instance is available then run the function normally
-            if (!integration.scout) { return originalFn.apply(this, originalArgs as any); }
+            const originalAdd: (...args: any[]) => void = cluster.add;
+            cluster.add = function(this: any) {
+                const result = originalAdd.apply(this, arguments as any);
 
-            // We need to find which one of the arguments was the callback if there was one)
-            const originalArgsArr = Array.from(originalArgs);
-            const cbIdx = originalArgsArr.findIndex(a => typeof a === "function");
-            // If a callback wasn't provided use a function that does nothing
-            const cb = cbIdx >= 0 ? originalArgsArr[cbIdx] : () => undefined;
+                // Shim the pools of any nodes that were just added
+                Object.values(this._nodes || {})
+                    .forEach((node: any) => integration.shimMySQLPool(mysqlExport, node.pool));
 
-            // We have to assume that the first argument is the SQL string (or object)
-            const sql = originalArgsArr[0];
+                return result;
+            };
 
-            // Build a version of the query to take advantage of the string/object parsing of mysql
-            const builtQuery = exports.createQuery(sql);
-            let ranFn = false;
-
-            // Start the instrumentation
-            integration.scout.instrument(ScoutSpanOperation.SQLQuery, stopSpan => {
-                // If integration.scout is missing by the time this runs, exit
-                if (!integration.scout) {
-                    integration.logFn(
-                        "[scout/integrations/mysql2] Failed to find integration's scout instance",
-                        LogLevel.Warn,
-                    );
-
-                    ranFn = true;
-                    originalFn.apply(this, originalArgs as any);
-                    return;
-                }
+            cluster[getIntegrationSymbol()] = this;
+
+            return cluster;
+        };
+
+        mysqlExport.createPoolCluster = createPoolCluster;
+        return mysqlExport;
+    }
+
+    /**
+     * Shims the `getConnection` function of a MySQL Pool
+     * the pool's own `query` function uses `getConnection`, so that's covered as well
+     *
+     * @param {any} exports - the mysql exports
+     * @param {Pool} pool - the mysql pool
+     * @returns {Pool} the modified pool
+     */
+    private shimMySQLPool(exports: any, pool: Pool): Pool {
+        if (!pool || pool[getIntegrationSymbol()]) { return pool; }
+        pool[getIntegrationSymbol()] = this;
+
+        const originalFn = pool.getConnection;
+        const integration = this;
 
-                // Get span, exit early if there was an issue getting the current span
-                const span = integration.scout.getCurrentSpan();
-                if (!span) {
-                    ranFn = true;
-                    originalFn.apply(this, originalArgs as any);
-                    return;
+        pool.getConnection = function(this: Pool, cb: (err: MysqlError, conn: PoolConnection) => void) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
+
+            // If there's no request being traced then just shim the connections we hand out
+            if (!parent) {
+                return originalFn.call(this, (err, conn) => {
+                    cb(err, conn ? integration.shimMySQLConnectionQuery(exports, conn) : conn);
+                });
+            }
+
+            const span = parent.startChildSpanSync(ScoutSpanOperation.MySQLConnectionAcquire);
+            span.startSync();
+
+            // Pooled connections reply from the async context they were created in (which may be another request),
+            // so the callback is run from a promise reaction that is set up in the current context
+            let enterContext: (fn: () => void) => void = () => undefined;
+            new Promise<() => void>(r => enterContext = r)
+                .then(fn => fn());
+
+            return originalFn.call(this, (err, conn) => {
+                if (err) {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    integration.logFn("[scout/integrations/mysql] Failed to acquire connection", LogLevel.Trace);
                 }
 
-                // Create a callback that will intercept the results
-                const wrappedCb = (err, results) => {
-                    // If an error occurred mark the span as errored and then stop it
-                    if (err) {
-                        // If there was no span we can run the callback and move on
-                        if (!span) {
-                            cb(err, results);
-                            return;
-                        }
+                span.stopSync();
 
-                        // Stop the span ASAP
-                        stopSpan();
+                enterContext(() => cb(err, conn ? integration.shimMySQLConnectionQuery(exports, conn) : conn));
+            });
+        };
+
+        return pool;
+    }
 
-                        // Add context to indicate error (we assume this will run *before* the span is sent off)
-                        span!.addContextSync(ScoutContextName.Error, "true");
-                        integration.logFn("[scout/integrations/mysql] Query failed", LogLevel.Trace);
+    /**
+     * Shims the `query` function of a MySQL Connection
+     *
+     * @param {any} exports - the mysql exports
+     * @param {Connection} conn - the mysql connection
+     */
+    private shimMySQLConnectionQuery<T extends Connection>(exports: any, conn: T): T {
+        // Pools hand out the same connections repeatedly, they only need to be shimmed once
+        if (conn[QUERY_SHIMMED_SYMBOL]) { return conn; }
+        conn[QUERY_SHIMMED_SYMBOL] = true;
 
-                        // Run the callback
-                        cb(err, results);
+        const originalFn = conn.query;
+        const integration = this;
 
-                        return;
-                    }
+        const modified: any = function(this: Connection, sql: any) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
 
-                    // Stop the span ASAP
-                    stopSpan();
+            // If no request is being traced then run the function normally
+            if (!parent) { return originalFn.apply(this, arguments as any); }
 
+            // Build a version of the query to take advantage of the string/object parsing of mysql
+            // (this is done before querying, since the connection fills the placeholder values into the SQL)
+            const statement = exports.createQuery(sql).sql;
+
+            const span = parent.startChildSpanSync(ScoutSpanOperation.SQLQuery);
+            span.addContextSync(ScoutContextName.DBStatement, statement);
+            span.startSync();
+
+            // The query is run by mysql as a Query object (pools pass one in directly), which is always ended
+            // exactly once, whether or not a callback was provided
+            const query: any = originalFn.apply(this, arguments as any);
+            const originalEnd = query.end;
+
+            query.end = function(this: any, err?: MysqlError) {
+                if (err) {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    integration.logFn("[scout/integrations/mysql] Query failed", LogLevel.Trace);
+                } else {
                     integration.logFn("[scout/integrations/mysql] Successfully queried MySQL db", LogLevel.Debug);
-                    // If no errors ocurred stop the span and run the user's callback
-                    ranFn = true;
-                    cb(err, results);
-                };
-
-                // After making the wrapped cb, we have to replace the argument
-                arguments[cbIdx] = wrappedCb;
-
-                span
-                // Add query to the context
-                    .addContext(ScoutContextName.DBStatement, builtQuery.sql)
-                // Do the query
-                    .then(() => {
-                        ranFn = true;
-                        originalFn.apply(this, originalArgs as any);
-                    })
-                // If an error occurred adding the scout context
-                    .catch(err => {
-                        integration.logFn("[scout/integrations/mysql] Internal failure", LogLevel.Trace);
-                        // If the original function has not been run yet we need to run it at least
-                        if (!ranFn) {
-                            // Run the function with the original requests
-                            originalFn.apply(this, originalArgs as any);
-                            ranFn = true;
-                        }
-                    });
-            });
+                }
+
+                span.stopSync();
+                query.end = originalEnd;
+
+                return originalEnd.apply(this, arguments);
+            };
+
+            return query;
         };
 
         conn.query = modified;
@@ -13,14 +13,14 @@ export class MySQL2Integration extends RequireIntegration {
     protected readonly packageName: string = "mysql2";
 
     protected shim(mysql2Export: any): any {
+        mysql2Export = this.shimMySQL2ConnectionQuery(mysql2Export);
         mysql2Export = this.shimMySQL2CreateConnection(mysql2Export);
 
         return mysql2Export;
     }
 
     /**
-     * Shim for mysql's `createConnection` function
-     * since mysql handles everything from a connection instance this is where the shimming needs to happen
+     * Shim for mysql2's `Connection` constructor, marking the connections that are created
      *
      * @param {any} mysql2 - mysql2's main export
      */
@@ -38,9 +38,6 @@ export class MySQL2Integration extends RequireIntegration {
             // created by our shimmed createConnection
             conn[getIntegrationSymbol()] = integration;
 
-            // Shim the connection instance itself
-            integration.shimMySQL2ConnectionQuery(mysql2Export, conn);
-
             return conn;
         };
 
@@ -49,95 +46,99 @@ export class MySQL2Integration extends RequireIntegration {
     }
 
     /**
-     * Shims the `query` function of a MySQL2 Connection
+     * Shim the `query` and `execute` functions of mysql2's `Connection` class
+     * pools and the promise API (`mysql2/promise`) both run their queries through these functions
+     *
+     * @param {any} mysql2Export - mysql2's main export
+     * @returns {any} the modified mysql2 export
+     */
+    private shimMySQL2ConnectionQuery(mysql2Export: any): any {
+        const proto = mysql2Export.Connection.prototype;
+
+        proto.query = this.shimMySQL2ConnectionFn(proto.query);
+        proto.execute = this.shimMySQL2ConnectionFn(proto.execute);
+
+        return mysql2Export;
+    }
+
+    /**
+     * Build a shimmed version of a function of a MySQL2 Connection that runs a query
      *
-     * @param {any} exports - the mysql2 exports
-     * @param {Connection} conn - the mysql2 connection
+     * @param {Function} originalFn - the original function (`query` or `execute`)
+     * @returns {Function} the shimmed function
      */
-    private shimMySQL2ConnectionQuery(exports: any, conn: Connection): Connection {
-        const originalFn = conn.query;
+    private shimMySQL2ConnectionFn(originalFn: (...args: any[]) => any): (...args: any[]) => any {
         const integration = this;
 
-        const modified: any = function(this: Connection, sql, values, cb) {
-            const originalArgs = arguments;
+        return function(this: Connection, sql: any) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
 
-            // If no scout instance is available then run the function normally
-            if (!integration.scout) { return originalFn.bind(this)(sql, values, cb); }
+            // If no request is being traced then run the function normally
+            if (!parent) { return originalFn.apply(this, arguments as any); }
 
-            // Build a version of the query to take advantage of the string/object parsing of mysql
-            const builtQuery = exports.createQuery(sql, values, cb, this.config);
-            let ranFn = false;
+            // The SQL can be given as a string or inside an options object (or Query command, when used by a pool)
+            const statement = sql && typeof sql === "object" ? sql.sql : sql;
 
-            // Start the instrumentation
-            integration.scout.instrument(ScoutSpanOperation.SQLQuery, stopSpan => {
-                // If integration.scout is missing by the time this runs, exit
-                if (!integration.scout) {
-                    integration.logFn(
-                        "[scout/integrations/mysql2] Failed to find integration's scout instance",
-                        LogLevel.Warn,
-                    );
+            const span = parent.startChildSpanSync(ScoutSpanOperation.SQLQuery);
+            span.addContextSync(ScoutContextName.DBStatement, statement);
+            span.startSync();
 
-                    ranFn = true;
-                    originalFn.apply(this, originalArgs as any);
-                    return;
-                }
+            // The span is stopped by whichever reports the query's completion first
+            let stopped = false;
+            const stopSpan = (err?: Error) => {
+                if (stopped) { return; }
+                stopped = true;
 
-                // Get span, exit early if there was an issue getting the current span
-                const span = integration.scout.getCurrentSpan();
-                if (!span) {
-                    ranFn = true;
-                    originalFn.bind(this)(sql, values, cb);
-                    return;
+                if (err) {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    integration.logFn("[scout/integrations/mysql2] Query failed", LogLevel.Trace);
                 }
 
-                // Create a callback that will intercept the results
-                const wrappedCb = (err, results) => {
-                    // If an error occurred mark the span as errored and then stop it
-                    if (err) {
-                        integration.logFn("[scout/integrations/mysql2] Query failed", LogLevel.Trace);
-                        if (!span) {
-                            cb(err, results);
-                            return;
-                        }
-
-                        span!
-                            .addContext(ScoutContextName.Error, "true")
-                            .then(() => stopSpan())
-                            .finally(() => cb(err, results));
-
-                        return;
-                    }
-
-                    integration.logFn("[scout/integrations/mysql2] Successfully queried MySQL db", LogLevel.Trace);
-                    // If no errors ocurred stop the span and run the user's callback
-                    stopSpan();
-                    ranFn = true;
-                    cb(err, results);
+                integration.logFn("[scout/integrations/mysql2] Finished querying MySQL db", LogLevel.Trace);
+                span.stopSync();
+            };
+
+            // Failed prepares (for `execute`) are reported to the callback directly, not through the command
+            const args = Array.from(arguments);
+            const callback = args[args.length - 1];
+            if (typeof callback === "function") {
+                args[args.length - 1] = function(this: any, err?: Error) {
+                    stopSpan(err);
+                    return callback.apply(this, arguments);
+                };
+            }
+
+            // Invalid arguments (ex. undefined bind parameters) are thrown before a command is created
+            let command;
+            try {
+                command = originalFn.apply(this, args);
+            } catch (err) {
+                stopSpan(err);
+                throw err;
+            }
+
+            // The command that runs the query reports errors through onResult (set from the callback, or by a pool)
+            const onResult = command.onResult;
+            if (onResult) {
+                command.onResult = function(this: any, err?: Error) {
+                    stopSpan(err);
+                    return onResult.apply(this, arguments);
                 };
+            }
 
-                span
-                // Add query to the context
-                    .addContext(ScoutContextName.DBStatement, builtQuery.sql)
-                // Do the query
-                    .then(() => {
-                        ranFn = true;
-                        originalFn.bind(this)(sql, values, cb);
-                    })
-                // If an error occurred adding the scout context
-                    .catch(err => {
-                        integration.logFn("[scout/integrations/mysql2] Internal failure", LogLevel.Trace);
-                        // If the original function has not been run yet we need to run it at least
-                        if (!ranFn) {
-                            // Run the function with the original requests
-                            originalFn.bind(this)(sql, values, cb);
-                            ranFn = true;
-                        }
-                    });
-            });
-        };
+            // Without a callback errors are emitted by the command, which isn't listened to for them
+            // (a listener would keep errors nobody else listens to from being thrown)
+            const emit = command.emit;
+            command.emit = function(this: any, event: string, err?: Error) {
+                if (event === "error") { stopSpan(err); }
+                return emit.apply(this, arguments);
+            };
+
+            command.once("end", () => stopSpan());
 
-        conn.query = modified;
-        return conn;
+            return command;
+        };
     }
 }
 
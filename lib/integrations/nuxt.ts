@@ -79,7 +79,7 @@ export class NuxtIntegration extends RequireIntegration {
 
                         return originalRender.apply(this, [req, res, next]);
                     });
-                });
+                }, {replacesCurrent: true});
             };
 
             return instance;
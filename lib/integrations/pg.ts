@@ -7,17 +7,35 @@ import * as Constants from "../constants";
 // We can't import pg and use the Client class, and can't import *only* the types.
 // https://github.com/Microsoft/TypeScript/issues/16472
 type Client = any;
-type Query = any;
+type Pool = any;
+
+// Marks pg-pool's Pool prototype as shimmed
+const POOL_SHIMMED_SYMBOL = Symbol("scout-pg-pool-shimmed");
 
 // Hook into the express and mongodb module
 export class PGIntegration extends RequireIntegration {
     protected readonly packageName: string = "pg";
 
     protected shim(pgExport: any) {
+        pgExport = this.shimPGClient(pgExport);
+        pgExport = this.shimPGNative(pgExport);
+
+        return pgExport;
+    }
+
+    /**
+     * Shim the client and pool of a pg export (the javascript or native one)
+     *
+     * @param {any} pgExport - pg's exports
+     */
+    private shimPGClient(pgExport: any): any {
         // Shim client
         pgExport = this.shimPGConnect(pgExport);
         pgExport = this.shimPGQuery(pgExport);
 
+        // Shim pool
+        pgExport = this.shimPGPoolConnect(pgExport);
+
         // Add the integration symbol to the client class itself
         pgExport.Client[getIntegrationSymbol()] = this;
 
@@ -79,7 +97,6 @@ export class PGIntegration extends RequireIntegration {
      */
     private shimPGQuery(pgExport: any): any {
         const Client: Client = pgExport.Client;
-        const Query: Query = pgExport.Query;
 
         const originalQueryFn = Client.prototype.query;
         const integration = this;
@@ -89,69 +106,217 @@ export class PGIntegration extends RequireIntegration {
             const originalArgs = arguments;
             integration.logFn("[scout/integrations/pg] Querying Postgres db...", LogLevel.Trace);
 
-            // If no scout instsance or the query is undefined go straight to pg
-            if (!integration.scout || !config) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
+
+            // If no request is being traced or the query is undefined go straight to pg
+            if (!parent || !config) {
                 return originalQueryFn.apply(this, originalArgs);
             }
 
             // Detect what kind of query is being used
             // https://github.com/brianc/node-postgres/blob/master/packages/pg/lib/client.js
-            const query: Query = typeof config.submit === "function" ? config : new Query(...originalArgs);
-
-            return integration.scout.instrument(ScoutSpanOperation.SQLQuery, done => {
-                // If integration.scout is missing by the time this runs, exit
-                if (!integration.scout) {
-                    integration.logFn(
-                        "[scout/integrations/pg] Failed to find integration's scout instance",
-                        LogLevel.Warn,
-                    );
-                    return originalQueryFn.apply(this, [config, values, userCallback])
-                        .then(() => done());
-                }
+            const isSubmittable = typeof config.submit === "function";
+            const text = typeof config === "string" ? config : getQueryText(config);
+
+            const span = parent.startChildSpanSync(ScoutSpanOperation.SQLQuery);
+            span.addContextSync(ScoutContextName.DBStatement, text);
+            span.startSync();
+
+            let stopped = false;
+            const stopSpan = (err?: Error) => {
+                if (stopped) { return; }
+                stopped = true;
 
-                const span = integration.scout.getCurrentSpan();
-                // If we weren't able to get the span we just started, something is wrong, do the regular call
-                if (!span) {
-                    integration.logFn("[scout/integrations/pg] Unable to get current span", LogLevel.Debug);
-                    return originalQueryFn.apply(this, [config, values, userCallback])
-                        .then(() => done());
+                if (err) {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    integration.logFn("[scout/integrations/pg] Query failed", LogLevel.Trace);
+                } else {
+                    integration.logFn("[scout/integrations/pg] Successfully queried Postgres db", LogLevel.Trace);
                 }
 
-                let queryResult: any;
-
-                return span
-                // Update span context with the DB statement
-                    .addContext(ScoutContextName.DBStatement, (query as any).text)
-                // Run pg's query function, saving the result
-                    .then(() => originalQueryFn.apply(this, originalArgs))
-                    .then(r => queryResult = r)
-                // Finish the instrumentation
-                    .then(() => done())
-                    .then(() => integration.logFn(
-                        "[scout/integrations/pg] Successfully queried Postgres db",
-                        LogLevel.Trace,
-                    ))
-                    .then(() => queryResult)
-                    .catch(err => {
-                        // Finish the instrumentation ASAP
-                        done();
-
-                        // Mark the span as errored, we assume that the span won't be sent before this line can run
-                        // otherwise the context would miss it's window to be sent
-                        if (span) { span.addContext(ScoutContextName.Error, "true"); }
-
-                        integration.logFn("[scout/integrations/pg] Query failed", LogLevel.Trace);
-
-                        // Rethrow the error
+                span.stopSync();
+            };
+
+            // Submittables (ex. Query, Cursor, QueryStream) are returned as-is, and are read from until
+            // the database is ready for the next query, so they're timed until then
+            if (isSubmittable) {
+                integration.shimSubmittable(config, stopSpan);
+                return originalQueryFn.apply(this, originalArgs);
+            }
+
+            // Callback version
+            const args = Array.from(originalArgs);
+            const cbIdx = args.findIndex(a => typeof a === "function");
+            if (cbIdx >= 0) {
+                const cb = args[cbIdx];
+                args[cbIdx] = function(this: any, err?: Error) {
+                    stopSpan(err);
+                    return cb.apply(this, arguments);
+                };
+
+                return originalQueryFn.apply(this, args);
+            }
+
+            // Promise version
+            return originalQueryFn.apply(this, args)
+                .then(
+                    result => {
+                        stopSpan();
+                        return result;
+                    },
+                    err => {
+                        stopSpan(err);
                         throw err;
-                    });
-            });
+                    },
+                );
         };
 
         Client.prototype.query = fn;
 
         return pgExport;
     }
+
+    /**
+     * Shim a submittable's handlers so the given function is called when it's done
+     *
+     * @param {any} submittable - the submittable (ex. Query, Cursor, QueryStream)
+     * @param {Function} onDone - function to call (with the error, if one occurred) when the submittable is done
+     */
+    private shimSubmittable(submittable: any, onDone: (err?: Error) => void) {
+        const originalHandleError = submittable.handleError;
+        const originalHandleReadyForQuery = submittable.handleReadyForQuery;
+
+        // If the submittable can't tell us when it's done, the best we can do is time the submission
+        if (typeof originalHandleReadyForQuery !== "function") {
+            onDone();
+            return;
+        }
+
+        // Errors are followed by the database being ready for the next query, unless the connection died
+        if (typeof originalHandleError === "function") {
+            submittable.handleError = function(this: any, err?: Error) {
+                onDone(err || new Error("Unknown error"));
+                return originalHandleError.apply(this, arguments);
+            };
+        }
+
+        submittable.handleReadyForQuery = function(this: any) {
+            onDone();
+            return originalHandleReadyForQuery.apply(this, arguments);
+        };
+    }
+
+    /**
+     * Shim for pg's Pool `connect` function, recording the time spent waiting for a client
+     * (pools use `connect` to check out a client for `pool.query` as well)
+     *
+     * @param {any} pgExport - pg's exports
+     */
+    private shimPGPoolConnect(pgExport: any): any {
+        if (!pgExport.Pool) { return pgExport; }
+
+        // pg's Pool is bound to the client class, but the instances are created from pg-pool's Pool
+        // (which is shared between the javascript and native clients) so that's the prototype to shim
+        const poolPrototype: Pool = Object.getPrototypeOf(pgExport.Pool.prototype);
+        if (poolPrototype[POOL_SHIMMED_SYMBOL]) { return pgExport; }
+        poolPrototype[POOL_SHIMMED_SYMBOL] = true;
+
+        const originalConnectFn = poolPrototype.connect;
+        const integration = this;
+
+        const fn: any = function(this: Pool, userCallback?: (err?: Error, client?: Client, release?: any) => void) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
+            if (!parent) { return originalConnectFn.apply(this, arguments); }
+
+            const span = parent.startChildSpanSync(ScoutSpanOperation.PGConnectionAcquire);
+            span.startSync();
+
+            const stopSpan = (err?: Error) => {
+                if (err) {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    integration.logFn("[scout/integrations/pg] Failed to acquire client from pool", LogLevel.Trace);
+                }
+
+                span.stopSync();
+            };
+
+            // Promise version
+            if (!userCallback) {
+                return originalConnectFn.apply(this, [])
+                    .then(
+                        client => {
+                            stopSpan();
+                            return client;
+                        },
+                        err => {
+                            stopSpan(err);
+                            throw err;
+                        },
+                    );
+            }
+
+            // Clients that were waited for are handed over from the async context that released them,
+            // so the callback is run from a promise reaction that is set up in the current context
+            let enterContext: (fn: () => void) => void = () => undefined;
+            new Promise<() => void>(r => enterContext = r)
+                .then(fn => fn());
+
+            return originalConnectFn.apply(this, [
+                (err, client, release) => {
+                    stopSpan(err);
+                    enterContext(() => userCallback(err, client, release));
+                },
+            ]);
+        };
+
+        poolPrototype.connect = fn;
+
+        return pgExport;
+    }
+
+    /**
+     * Shim for pg's lazily loaded `native` export (which uses pg-native), which has its own Client and Pool
+     *
+     * @param {any} pgExport - pg's exports
+     */
+    private shimPGNative(pgExport: any): any {
+        const descriptor = Object.getOwnPropertyDescriptor(pgExport, "native");
+        if (!descriptor || !descriptor.get || !descriptor.configurable) { return pgExport; }
+
+        const originalGetter = descriptor.get;
+        const integration = this;
+
+        Object.defineProperty(pgExport, "native", {
+            configurable: true,
+            enumerable: descriptor.enumerable,
+            get() {
+                // pg replaces the getter with the loaded value (null if pg-native isn't installed)
+                const nativeExport = originalGetter.call(this);
+                if (!nativeExport || getIntegrationSymbol() in nativeExport.Client) { return nativeExport; }
+
+                integration.logFn("[scout/integrations/pg] Shimming native Postgres client...", LogLevel.Trace);
+                integration.shimPGClient(nativeExport);
+
+                return nativeExport;
+            },
+        });
+
+        return pgExport;
+    }
+}
+
+/**
+ * Get the text of a query from the config given to `query`
+ *
+ * @param {any} config - the query config (or submittable)
+ * @returns {string} the query text
+ */
+function getQueryText(config: any): string {
+    // QueryStreams keep their query text on the cursor they wrap
+    if (!config.text && config.cursor) { return config.cursor.text; }
+    return config.text;
 }
 
 export default new PGIntegration();
@@ -0,0 +1,191 @@
+import { RequireIntegration } from "../types/integrations";
+import { ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName, ScoutSpanOperation } from "../types";
+
+// We can't import redis's types without requiring redis itself
+type RedisClient = any;
+type Multi = any;
+type Command = any;
+
+// Marks commands that have already been recorded (they are re-sent if the client was offline)
+const RECORDED_SYMBOL = Symbol("scout-redis-recorded");
+
+// Hook into the redis module
+export class RedisIntegration extends RequireIntegration {
+    protected readonly packageName: string = "redis";
+
+    // How many batches (multi/pipelines) are currently dispatching their commands
+    private batchDepth: number = 0;
+
+    protected shim(redisExport: any): any {
+        redisExport = this.shimInternalSendCommand(redisExport);
+        redisExport = this.shimMultiExec(redisExport);
+
+        return redisExport;
+    }
+
+    /**
+     * Shim for RedisClient's `internal_send_command` function, which every command goes through
+     *
+     * @param {any} redisExport - redis's export
+     * @returns {any} the modified redis export
+     */
+    private shimInternalSendCommand(redisExport: any): any {
+        const RedisClient: RedisClient = redisExport.RedisClient;
+        const prototype = RedisClient ? RedisClient.prototype : null;
+        if (!prototype || typeof prototype.internal_send_command !== "function") {
+            this.logFn("[scout/integrations/redis] Unsupported client version, RedisClient not found", LogLevel.Warn);
+            return redisExport;
+        }
+
+        const originalFn = RedisClient.prototype.internal_send_command;
+        const integration = this;
+
+        RedisClient.prototype.internal_send_command = function(this: RedisClient, commandObj: Command) {
+            if (!commandObj || commandObj[RECORDED_SYMBOL]) { return originalFn.apply(this, arguments); }
+            commandObj[RECORDED_SYMBOL] = true;
+
+            // Commands that are part of a batch are recorded by the batch's span
+            if (integration.batchDepth > 0) { return originalFn.apply(this, arguments); }
+
+            const span = integration.startSpan(`${ScoutSpanOperation.Redis}/${commandObj.command.toUpperCase()}`);
+            if (!span) { return originalFn.apply(this, arguments); }
+
+            const client = this;
+            const callback = commandObj.callback;
+
+            commandObj.callback = function(this: any, err?: Error) {
+                integration.stopSpan(span, err);
+
+                if (callback) { return callback.apply(this, arguments); }
+
+                // Without a callback, redis emits command errors on the client
+                if (err) { client.emit("error", err); }
+            };
+
+            return originalFn.apply(this, arguments);
+        };
+
+        return redisExport;
+    }
+
+    /**
+     * Shim for Multi's `exec_transaction` and `exec_batch` functions, recording the batch as a single span
+     *
+     * @param {any} redisExport - redis's export
+     * @returns {any} the modified redis export
+     */
+    private shimMultiExec(redisExport: any): any {
+        const Multi: Multi = redisExport.Multi;
+        if (!Multi || !Multi.prototype || typeof Multi.prototype.exec_transaction !== "function") {
+            this.logFn("[scout/integrations/redis] Unsupported client version, Multi not found", LogLevel.Warn);
+            return redisExport;
+        }
+
+        // client.multi() uses exec_transaction, client.batch() uses exec_batch (aliased as exec/EXEC)
+        Multi.prototype.exec_transaction = this.shimBatchExec(Multi.prototype.exec_transaction, "MULTI");
+
+        const execBatch = this.shimBatchExec(Multi.prototype.exec_batch, "PIPELINE");
+        Multi.prototype.exec = execBatch;
+        Multi.prototype.EXEC = execBatch;
+        Multi.prototype.exec_batch = execBatch;
+
+        return redisExport;
+    }
+
+    /**
+     * Build a shimmed version of a Multi exec function
+     *
+     * @param {Function} originalFn - the original exec function
+     * @param {string} batchType - the type of batch ("MULTI" or "PIPELINE")
+     * @returns {Function} the shimmed exec function
+     */
+    private shimBatchExec(originalFn: (...args: any[]) => any, batchType: string): (...args: any[]) => any {
+        const integration = this;
+
+        return function(this: Multi, callback?: any) {
+            const queue: Command[] = this.queue.toArray();
+            const commands = queue.map(c => c.command.toUpperCase());
+
+            const span = integration.startSpan(`${ScoutSpanOperation.Redis}/${batchType}`);
+            if (span) { span.addContextSync(ScoutContextName.DBCommands, commands); }
+
+            const args = Array.from(arguments);
+            const client = this._client;
+
+            if (span && typeof callback === "function") {
+                args[0] = function(this: any, err?: Error) {
+                    integration.stopSpan(span, err);
+                    return callback.apply(this, arguments);
+                };
+            } else if (span && batchType === "MULTI") {
+                // Without a callback, redis emits the transaction's error on the client (unless the connection broke)
+                args[0] = function(err?: any) {
+                    integration.stopSpan(span, err);
+                    if (err && err.code !== "CONNECTION_BROKEN") { client.emit("error", err); }
+                };
+            } else if (span && queue.length > 0) {
+                // Without a callback, the pipeline is done once the last command has its reply
+                const lastCommand = queue[queue.length - 1];
+                const lastCallback = lastCommand.callback;
+
+                lastCommand.callback = function(this: any, err?: Error) {
+                    integration.stopSpan(span, err);
+
+                    if (typeof lastCallback === "function") { return lastCallback.apply(this, arguments); }
+
+                    // Without a callback, redis emits command errors on the client
+                    if (err) { client.emit("error", err); }
+                };
+            } else if (span) {
+                // Empty pipelines don't send anything
+                integration.stopSpan(span);
+            }
+
+            // All the commands of the batch are sent synchronously
+            integration.batchDepth++;
+            try {
+                return originalFn.apply(this, args);
+            } finally {
+                integration.batchDepth--;
+            }
+        };
+    }
+
+    /**
+     * Start a span under the current span (or request), if there is one
+     *
+     * @param {string} operation
+     * @returns {ScoutSpan | null} the started span
+     */
+    private startSpan(operation: string): ScoutSpan | null {
+        if (!this.scout) { return null; }
+
+        const parent = this.scout.getCurrentSpan() || this.scout.getCurrentRequest();
+        if (!parent) { return null; }
+
+        this.logFn(`[scout/integrations/redis] Sending [${operation}]...`, LogLevel.Trace);
+
+        const span = parent.startChildSpanSync(operation);
+        span.startSync();
+
+        return span;
+    }
+
+    /**
+     * Stop a span that was started for a command (or batch)
+     *
+     * @param {ScoutSpan} span
+     * @param {Error} [err] - the error the command failed with, if any
+     */
+    private stopSpan(span: ScoutSpan, err?: Error) {
+        if (err) {
+            span.addContextSync(ScoutContextName.Error, "true");
+            this.logFn(`[scout/integrations/redis] [${span.operation}] failed`, LogLevel.Trace);
+        }
+
+        span.stopSync();
+    }
+}
+
+export default new RedisIntegration();
@@ -0,0 +1,302 @@
+import { URL } from "url";
+import { ExportBag, RequireIntegration } from "../types/integrations";
+import { ScoutSpan } from "../scout";
+import { LogLevel, ScoutContextName } from "../types";
+
+// We can't import undici's types without requiring undici itself
+type UndiciRequest = any;
+type UndiciResponse = any;
+
+// Channels undici publishes request lifecycle events to (undici 5+, including the one behind the global `fetch`)
+const CHANNEL_REQUEST_CREATE = "undici:request:create";
+const CHANNEL_REQUEST_HEADERS = "undici:request:headers";
+const CHANNEL_REQUEST_TRAILERS = "undici:request:trailers";
+const CHANNEL_REQUEST_ERROR = "undici:request:error";
+
+/**
+ * Load the diagnostics_channel module (NodeJS 14.17+/15.1+)
+ *
+ * @returns {any} the diagnostics_channel module, or null if it is not available
+ */
+function getDiagnosticsChannel(): any {
+    try {
+        const dc = require("diagnostics_channel");
+        return dc && typeof dc.channel === "function" ? dc : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the value of a header from undici's raw headers (alternating names and values, as strings or Buffers)
+ *
+ * @param {any[]} rawHeaders
+ * @param {string} name - name of the header (lowercase)
+ * @returns {string | undefined} the value of the header
+ */
+function getRawHeader(rawHeaders: any[], name: string): string | undefined {
+    if (!Array.isArray(rawHeaders)) { return; }
+
+    for (let i = 0; i + 1 < rawHeaders.length; i += 2) {
+        if (rawHeaders[i].toString().toLowerCase() === name) { return rawHeaders[i + 1].toString(); }
+    }
+}
+
+/**
+ * Check whether a request that is about to be sent already has a header
+ * (undici keeps them as alternating names and values, older versions as a raw header string)
+ *
+ * @param {UndiciRequest} request
+ * @param {string} name - name of the header (lowercase)
+ * @returns {boolean} whether the header is present
+ */
+function hasRequestHeader(request: UndiciRequest, name: string): boolean {
+    const headers = request.headers;
+    if (typeof headers === "string") { return headers.toLowerCase().includes(`${name}:`); }
+
+    return getRawHeader(headers, name) !== undefined;
+}
+
+/**
+ * Build the options for a `request`/`fetch` call with the trace context headers added
+ * (headers set by the caller are left as they are)
+ *
+ * @param {any} input - the URL (or fetch Request) being requested
+ * @param {any} options - the options given by the caller
+ * @param {Object} traceHeaders - the trace context headers
+ * @returns {any} the options to use, or the caller's options if their headers can't be added to
+ */
+function withTraceHeaders(input: any, options: any, traceHeaders: {[name: string]: string}): any {
+    // Headers given to fetch() replace those of a Request, so they are built from the Request's
+    let headers = options && options.headers !== undefined ? options.headers : input && input.headers;
+    if (Array.isArray(headers)) { return options; }
+
+    // Headers instances (and the like) list their entries themselves
+    const entries: Array<[string, any]> = headers && typeof headers.entries === "function"
+        ? Array.from(headers.entries())
+        : Object.entries(headers || {});
+    headers = entries.reduce((acc, [name, value]) => Object.assign(acc, {[name]: value}), {});
+
+    const names = Object.keys(headers).map(name => name.toLowerCase());
+    Object.entries(traceHeaders)
+        .filter(([name]) => !names.includes(name))
+        .forEach(([name, value]) => headers[name] = value);
+
+    return Object.assign({}, options, {headers});
+}
+
+// Hook into the undici module, and the global fetch (which is backed by undici)
+export class UndiciIntegration extends RequireIntegration {
+    protected readonly packageName: string = "undici";
+
+    // Spans that are waiting for their request to finish
+    private readonly pendingSpans: WeakMap<UndiciRequest, ScoutSpan> = new WeakMap();
+
+    // Channels that have been subscribed to (references are kept so they aren't garbage collected)
+    private channels: any[] | null = null;
+
+    public ritmHook(exportBag: ExportBag): void {
+        super.ritmHook(exportBag);
+
+        // The global fetch is never require()d, its requests are only seen through the diagnostics channels
+        this.subscribeToDiagnosticsChannels();
+    }
+
+    protected shim(undiciExport: any): any {
+        // Requests made by undici versions that publish to diagnostics channels are already recorded
+        if (this.subscribeToDiagnosticsChannels()) { return undiciExport; }
+
+        undiciExport = this.shimUndiciFunction(undiciExport, "request");
+        undiciExport = this.shimUndiciFunction(undiciExport, "fetch");
+
+        return undiciExport;
+    }
+
+    /**
+     * Subscribe to the channels undici publishes request events to
+     *
+     * @returns {boolean} whether the channels are (or were already) subscribed to
+     */
+    private subscribeToDiagnosticsChannels(): boolean {
+        if (this.channels) { return true; }
+
+        const dc = getDiagnosticsChannel();
+        if (!dc) {
+            this.logFn("[scout/integrations/undici] diagnostics_channel is not available", LogLevel.Debug);
+            return false;
+        }
+
+        const subscriptions: Array<[string, (message: any) => void]> = [
+            [CHANNEL_REQUEST_CREATE, ({request}) => this.onRequestCreated(request)],
+            [CHANNEL_REQUEST_HEADERS, ({request, response}) => this.onResponseHeaders(request, response)],
+            [CHANNEL_REQUEST_TRAILERS, ({request}) => this.onRequestFinished(request)],
+            [CHANNEL_REQUEST_ERROR, ({request}) => this.onRequestFinished(request, true)],
+        ];
+
+        this.channels = subscriptions.map(([name, handler]) => {
+            const channel = dc.channel(name);
+            channel.subscribe(handler);
+            return channel;
+        });
+
+        this.logFn("[scout/integrations/undici] Subscribed to diagnostics channels", LogLevel.Trace);
+
+        return true;
+    }
+
+    /**
+     * Start a span for a request that is about to be sent
+     *
+     * @param {UndiciRequest} request
+     */
+    private onRequestCreated(request: UndiciRequest) {
+        if (!this.scout || !request) { return; }
+
+        const parent = this.scout.getCurrentSpan() || this.scout.getCurrentRequest();
+        if (!parent) {
+            this.logFn("[scout/integrations/undici] No current transaction, skipping request", LogLevel.Trace);
+            return;
+        }
+
+        const method = (request.method || "GET").toUpperCase();
+        const url = `${request.origin}${request.path || ""}`;
+
+        const span = parent.startChildSpanSync(`HTTP/${method}`);
+        span.startSync();
+        span.addContextsSync([
+            {name: ScoutContextName.URL, value: url},
+            {name: ScoutContextName.HTTPMethod, value: method},
+        ]);
+
+        try {
+            const origin = new URL(String(request.origin));
+            const defaultPort = origin.protocol === "https:" ? 443 : 80;
+
+            span.addContextsSync([
+                {name: ScoutContextName.HTTPHost, value: origin.hostname},
+                {name: ScoutContextName.HTTPPort, value: origin.port ? parseInt(origin.port, 10) : defaultPort},
+            ]);
+        } catch {
+            this.logFn(
+                `[scout/integrations/undici] Failed to parse request origin [${request.origin}]`,
+                LogLevel.Debug,
+            );
+        }
+
+        // Propagate the trace context (headers set by the caller are left as they are)
+        const traceHeaders = this.scout.getTraceContextHeaders(span);
+        if (traceHeaders && typeof request.addHeader === "function") {
+            Object.entries(traceHeaders)
+                .filter(([name]) => !hasRequestHeader(request, name))
+                .forEach(([name, value]) => request.addHeader(name, value));
+        }
+
+        this.pendingSpans.set(request, span);
+    }
+
+    /**
+     * Record the response's status & size, and finish the span unless waiting for the body
+     *
+     * @param {UndiciRequest} request
+     * @param {UndiciResponse} response
+     */
+    private onResponseHeaders(request: UndiciRequest, response: UndiciResponse) {
+        const span = this.pendingSpans.get(request);
+        if (!span || !response) { return; }
+
+        const statusCode = response.statusCode || 0;
+        span.addContextSync(ScoutContextName.HTTPStatusCode, statusCode);
+
+        const contentLength = parseInt(getRawHeader(response.headers, "content-length") || "", 10);
+        if (!isNaN(contentLength)) {
+            span.addContextSync(ScoutContextName.HTTPResponseContentLength, contentLength);
+        }
+
+        if (statusCode >= 400) { span.addContextSync(ScoutContextName.Error, "true"); }
+
+        const scout = this.scout;
+        if (scout && scout.getConfig().httpSpansWaitForBody) { return; }
+
+        this.onRequestFinished(request);
+    }
+
+    /**
+     * Stop the span for a request that has finished
+     *
+     * @param {UndiciRequest} request
+     * @param {boolean} [failed] - whether the request failed
+     */
+    private onRequestFinished(request: UndiciRequest, failed?: boolean) {
+        const span = this.pendingSpans.get(request);
+        if (!span) { return; }
+        this.pendingSpans.delete(request);
+
+        if (failed) { span.addContextSync(ScoutContextName.Error, "true"); }
+
+        span.stopSync();
+    }
+
+    /**
+     * Shim for undici's promise-returning `request` & `fetch` functions, used when undici
+     * does not publish to diagnostics channels
+     *
+     * @param {any} undiciExport - undici's export
+     * @param {string} fnName - name of the function to shim
+     * @returns {any} the modified undici export
+     */
+    private shimUndiciFunction(undiciExport: any, fnName: "request" | "fetch"): any {
+        const originalFn = undiciExport[fnName];
+        if (typeof originalFn !== "function") { return undiciExport; }
+
+        const integration = this;
+
+        undiciExport[fnName] = function(this: any, input: any, options: any) {
+            const scout = integration.scout;
+            const parent = scout ? scout.getCurrentSpan() || scout.getCurrentRequest() : null;
+            if (!scout || !parent) { return originalFn.apply(this, arguments); }
+
+            // Inputs may be a URL (string or `URL`), a url-like object ({origin, path}), or a fetch Request
+            let url: string;
+            if (typeof input === "string") {
+                url = input;
+            } else if (input && input.origin && input.path) {
+                url = `${input.origin}${input.path}`;
+            } else {
+                url = input && (input.href || input.url) ? input.href || input.url : "Unknown";
+            }
+            const method = ((options && options.method) || (input && input.method) || "GET").toUpperCase();
+
+            const span = parent.startChildSpanSync(`HTTP/${method}`);
+            span.startSync();
+            span.addContextsSync([
+                {name: ScoutContextName.URL, value: url},
+                {name: ScoutContextName.HTTPMethod, value: method},
+            ]);
+
+            // Propagate the trace context
+            const args = Array.from(arguments);
+            const traceHeaders = scout.getTraceContextHeaders(span);
+            if (traceHeaders) { args[1] = withTraceHeaders(input, options, traceHeaders); }
+
+            return originalFn.apply(this, args)
+                .then(res => {
+                    // request() resolves with a statusCode, fetch() with a Response
+                    const statusCode = res && (res.statusCode || res.status);
+                    if (statusCode) { span.addContextSync(ScoutContextName.HTTPStatusCode, statusCode); }
+                    if (statusCode >= 400) { span.addContextSync(ScoutContextName.Error, "true"); }
+
+                    span.stopSync();
+                    return res;
+                })
+                .catch(err => {
+                    span.addContextSync(ScoutContextName.Error, "true");
+                    span.stopSync();
+                    throw err;
+                });
+        };
+
+        return undiciExport;
+    }
+}
+
+export default new UndiciIntegration();
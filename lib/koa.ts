@@ -0,0 +1,286 @@
+import * as onFinished from "on-finished";
+import {
+    LogFn,
+    LogLevel,
+    ScoutConfiguration,
+    ScoutContextName,
+    ScoutEvent,
+    buildScoutConfiguration,
+    parseQueueTimeNS,
+} from "./types";
+import * as Constants from "./constants";
+import { Scout, ScoutRequest, ScoutSpan, ScoutOptions } from "./scout";
+import {
+    getActiveGlobalScoutInstance,
+    getOrCreateActiveGlobalScoutInstance,
+    setGlobalLastUsedConfiguration,
+    setGlobalLastUsedOptions,
+} from "./global";
+
+const getNanoTime = require("nano-time");
+const BigNumber = require("big-number");
+
+export interface KoaApplicationWithScout {
+    scout?: Scout;
+}
+
+type KoaMiddleware = (ctx: any, next: () => Promise<any>) => Promise<any>;
+
+export interface KoaMiddlewareOptions {
+    config?: Partial<ScoutConfiguration>;
+
+    // Function to use for logging
+    logFn?: LogFn;
+
+    // Request timeout
+    requestTimeoutMs?: number;
+
+    // Amount of time between calculating and sending statistics
+    statisticsIntervalMS?: number;
+
+    // Scout instance to use (rather than the one attached to the application or the global one)
+    scout?: Scout;
+
+    // Whether to wait (normally during the first request) for scout to setup
+    waitForScoutSetup?: boolean;
+}
+
+// The information that is attached to the koa context (ctx.scout)
+export interface KoaScoutInfo {
+    instance?: Scout;
+    request?: ScoutRequest;
+    rootSpan?: ScoutSpan;
+}
+
+/**
+ * Find the route template (ex. '/users/:id') that a request will be dispatched to,
+ * by matching it against the layers of the @koa/router routers mounted on the application
+ *
+ * @param {any} app - the koa application
+ * @param {string} path - the path of the request (without query)
+ * @param {string} method - the HTTP method of the request
+ * @returns {string | null} the route template, if one could be found
+ */
+export function findKoaRoutePath(app: any, path: string, method: string): string | null {
+    if (!app || !Array.isArray(app.middleware)) { return null; }
+
+    // @koa/router marks the dispatch middleware it generates with the router that created it
+    const routers = app.middleware
+        .filter(m => m && m.router && typeof m.router.match === "function")
+        .map(m => m.router);
+
+    for (const router of routers) {
+        const matched = router.match(path, method);
+        if (!matched || !matched.route) { continue; }
+
+        // Layers without methods are router-level middleware (router.use(...)), not routes
+        const routeLayers = matched.pathAndMethod.filter(l => l.methods && l.methods.length > 0);
+        if (routeLayers.length === 0) { continue; }
+
+        // Same as @koa/router, the last matching layer is the most specific one
+        return routeLayers[routeLayers.length - 1].path;
+    }
+
+    return null;
+}
+
+/**
+ * Middleware for using scout with koa, this should be
+ * attached to the application object using app.use(...)
+ *
+ * @param {KoaMiddlewareOptions} [opts]
+ * @returns {Function} a middleware function for use with koa
+ */
+export function scoutMiddleware(opts?: KoaMiddlewareOptions): KoaMiddleware {
+    // Build configuration overrides
+    const overrides = opts && opts.config ? opts.config : {};
+    const config: Partial<ScoutConfiguration> = buildScoutConfiguration(overrides);
+    const options: ScoutOptions = {
+        logFn: opts && opts.logFn ? opts.logFn : undefined,
+        statisticsIntervalMS: opts && opts.statisticsIntervalMS ? opts.statisticsIntervalMS : undefined,
+    };
+
+    // Set the last used configurations
+    setGlobalLastUsedConfiguration(config);
+    setGlobalLastUsedOptions(options);
+
+    return (ctx: any, next: () => Promise<any>) => {
+        const requestStartTimeNS = getNanoTime();
+
+        // Exit early if we cannot access the application from the context
+        if (!ctx || !ctx.app) {
+            if (opts && opts.logFn) {
+                opts.logFn(`[scout] Koa context is missing/invalid (application object missing)`, LogLevel.Warn);
+            }
+            return next();
+        }
+
+        // If there is no global scout instance yet and no scout instance just go to next middleware immediately
+        const scout = opts && opts.scout ? opts.scout : ctx.app.scout || getActiveGlobalScoutInstance();
+
+        // Build a closure that installs scout (and waits on it)
+        // depending on whether waitForScoutSetup is set we will run this in the background or inline
+        const setupScout = () => {
+            return getOrCreateActiveGlobalScoutInstance(config, options)
+                .then(scout => ctx.app.scout = scout);
+        };
+
+        const waitForScoutSetup = opts && opts.waitForScoutSetup;
+
+        // If we're not waiting for scout to set up, then set it up in the background
+        if (!scout && !waitForScoutSetup) {
+            setImmediate(setupScout);
+            return next();
+        }
+
+        // Koa does not route by itself, the route path (ex. '/echo/:name') must come from @koa/router
+        const routePath = findKoaRoutePath(ctx.app, ctx.path, ctx.method);
+
+        // Set default request timeout if not specified
+        let requestTimeoutMs = Constants.DEFAULT_EXPRESS_REQUEST_TIMEOUT_MS;
+        if (opts && "requestTimeoutMs" in opts) {
+            requestTimeoutMs = opts.requestTimeoutMs!;
+        }
+
+        // Ensure the downstream middleware is only ever run once
+        let ranNext = false;
+        const runNext = () => {
+            ranNext = true;
+            return next();
+        };
+
+        // Use scout instance already set on the application if present
+        return Promise.resolve(scout)
+            .then(scout => {
+                if (!scout && waitForScoutSetup) {
+                    return setupScout();
+                }
+                return scout;
+            })
+        // Set the scout instance on the application
+            .then(scout => ctx.app.scout = scout)
+        // Set up the scout instance (if necessary)
+            .then(scout => scout.setup())
+        // Start performing middleware duties
+            .then(scout => {
+                // If we get here but have no route path then we can't record the request
+                if (!routePath) {
+                    scout.emit(ScoutEvent.UnknownRequestPathSkipped, ctx.url);
+                    return runNext();
+                }
+
+                // Exit early if this path is on the list of ignored paths
+                if (scout.ignoresPath(routePath)) {
+                    return runNext();
+                }
+
+                ctx.scout = {instance: scout} as KoaScoutInfo;
+
+                const name = `Controller/${ctx.method.toUpperCase()} ${routePath}`;
+
+                let transactionTimeout;
+
+                // scout.transaction() swallows errors, so downstream results are passed back separately
+                return new Promise((resolve, reject) => {
+                    scout.transaction(name, (finishTransaction) => {
+                        ctx.scout.request = scout.getCurrentRequest();
+                        if (!ctx.scout.request) {
+                            if (opts && opts.logFn) {
+                                opts.logFn(`[scout] Failed to start transaction, no current request`, LogLevel.Warn);
+                            }
+                            runNext().then(resolve, reject);
+                            return;
+                        }
+
+                        // Add the path context
+                        return ctx.scout.request
+                            .addContext(ScoutContextName.Path, scout.filterRequestPath(ctx.url))
+                        // Add the remote IP context if it is being collected
+                            .then(() => {
+                                const remoteIP = scout.getRemoteIP(ctx.req);
+                                if (remoteIP) {
+                                    return ctx.scout.request.addContext(ScoutContextName.RemoteIP, remoteIP);
+                                }
+                            })
+                        // Add the trace context if the request is part of a (distributed) trace
+                            .then(() => ctx.scout.request.addContexts(scout.getTraceContextTags(ctx.req)))
+                        // Add request queue time context if present
+                            .then(() => {
+                                const matchingHeader = Constants.REQUEST_QUEUE_TIME_HEADERS
+                                    .find(headerName => ctx.get(headerName));
+
+                                // If a header was found, extract the queue time
+                                if (matchingHeader) {
+                                    const value = parseQueueTimeNS(ctx.get(matchingHeader));
+                                    return ctx.scout.request.addContext(
+                                        ScoutContextName.QueueTimeNS,
+                                        new BigNumber(requestStartTimeNS).minus(value).toString(),
+                                    );
+                                }
+                            })
+                        // Perform the rest of the request tracing
+                            .then(() => scout.instrument(name, finishSpan => {
+                                const request = ctx.scout.request;
+
+                                // Set up the request timeout
+                                if (requestTimeoutMs > 0) {
+                                    transactionTimeout = setTimeout(() => {
+                                        // Add context to indicate request as timed out
+                                        request
+                                            .addContext(ScoutContextName.Timeout, "true")
+                                            .then(() => finishTransaction())
+                                            .catch(() => {
+                                                if (opts && opts.logFn) {
+                                                    opts.logFn(
+                                                        `[scout] Failed to finish (timed out): ${request}`,
+                                                        LogLevel.Warn,
+                                                    );
+                                                }
+                                            });
+                                    }, requestTimeoutMs);
+                                }
+
+                                // Set up handler to act on end of request
+                                onFinished(ctx.res, () => {
+                                    // If the request finished, clear the timeout-marker
+                                    if (transactionTimeout) {
+                                        clearTimeout(transactionTimeout);
+                                    }
+
+                                    // Finish transaction (which *must* trigger a send)
+                                    finishTransaction()
+                                        .then(() => delete ctx.scout);
+                                });
+
+                                // Add the span to the context
+                                ctx.scout.rootSpan = scout.getCurrentSpan();
+
+                                // Setup of the transaction and instrumentation succeeded
+                                runNext()
+                                    .then(resolve)
+                                    .catch(err => {
+                                        // Mark the current request as errored, koa will respond to the error
+                                        request.addContextSync(ScoutContextName.Error, "true");
+                                        reject(err);
+                                    });
+                            }))
+                        // If tracing failed before the downstream middleware ran, run it anyway
+                            .catch(() => {
+                                if (!ranNext) { runNext().then(resolve, reject); }
+                            });
+                    }, {replacesCurrent: true});
+                });
+            })
+        // Continue even if getting scout fails
+            .catch((err: Error) => {
+                // Errors from downstream middleware must reach koa unchanged
+                if (ranNext) { throw err; }
+
+                if (opts && opts.logFn) {
+                    opts.logFn(`[scout] No scout instance on Koa application:\n ${err}`, LogLevel.Error);
+                }
+
+                return runNext();
+            });
+    };
+}
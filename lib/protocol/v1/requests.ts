@@ -2,7 +2,15 @@ import { v4 as uuidv4 } from "uuid";
 
 import * as Constants from "../../constants";
 import * as Errors from "../../errors";
-import { BaseAgentRequest, AgentRequestType, APIVersion, CoreAgentVersion, JSONValue } from "../../types";
+import {
+    BaseAgentRequest,
+    AgentRequestType,
+    APIVersion,
+    CoreAgentVersion,
+    JSONValue,
+    SendableRequest,
+    SendableSpan,
+} from "../../types";
 
 export class V1GetVersionRequest extends BaseAgentRequest {
     public readonly type: AgentRequestType = AgentRequestType.V1GetVersion;
@@ -237,3 +245,52 @@ export class V1ApplicationEvent extends BaseAgentRequest {
         };
     }
 }
+
+export class V1BatchCommand extends BaseAgentRequest {
+    public readonly type: AgentRequestType = AgentRequestType.V1BatchCommand;
+
+    public readonly commands: BaseAgentRequest[];
+
+    /**
+     * Build a batch with all the messages for a (completed) request:
+     * StartRequest, the messages for every span (depth first), TagRequests and FinishRequest
+     *
+     * @param {SendableRequest} req - the request to serialize
+     * @returns {V1BatchCommand} the batch
+     */
+    public static fromScoutRequest(req: SendableRequest): V1BatchCommand {
+        const commands: BaseAgentRequest[] = [
+            new V1StartRequest({requestId: req.id, timestamp: req.getTimestamp()}),
+        ];
+
+        const addSpan = (span: SendableSpan) => {
+            if (span.isIgnored()) { return; }
+
+            commands.push(new V1StartSpan(span.operation, span.requestId, {
+                spanId: span.id,
+                parentId: span.parentId,
+                timestamp: span.getTimestamp(),
+            }));
+            span.getChildSpansSync().forEach(addSpan);
+            span.getTags().forEach(t => commands.push(new V1TagSpan(t.name, t.value, span.id, span.requestId)));
+            commands.push(new V1StopSpan(span.id, span.requestId, {timestamp: span.getEndTime()}));
+        };
+        req.getChildSpansSync().forEach(addSpan);
+
+        req.getTags().forEach(t => commands.push(new V1TagRequest(t.name, t.value, req.id)));
+        commands.push(new V1FinishRequest(req.id, {timestamp: req.getEndTime()}));
+
+        return new V1BatchCommand(commands);
+    }
+
+    constructor(commands: BaseAgentRequest[]) {
+        super();
+        this.commands = commands;
+
+        this.json = {
+            BatchCommand: {
+                commands: this.commands.map(c => c.json),
+            },
+        };
+    }
+}
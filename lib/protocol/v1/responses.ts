@@ -1,5 +1,12 @@
 import * as Errors from "../../errors";
-import { BaseAgentResponse, AgentResponseType, CoreAgentVersion, JSONValue } from "../../types";
+import * as Constants from "../../constants";
+import {
+    BaseAgentRequest,
+    BaseAgentResponse,
+    AgentResponseType,
+    CoreAgentVersion,
+    JSONValue,
+} from "../../types";
 
 interface ResponseTypeAndCtor { // "RTAC"
     type: AgentResponseType;
@@ -50,6 +57,10 @@ const RTAC_LOOKUP: RTACWithCheck[] = [
         obj => "ApplicationEvent" in obj,
         {type: AgentResponseType.V1ApplicationEvent, ctor: (obj) => new V1ApplicationEventResponse(obj)},
     ],
+    [
+        obj => "BatchCommand" in obj,
+        {type: AgentResponseType.V1BatchCommand, ctor: (obj) => new V1BatchCommandResponse(obj)},
+    ],
     [
         obj => "Failure" in obj,
         {type: AgentResponseType.V1Failure, ctor: (obj) => new V1FailureResponse(obj)},
@@ -85,22 +96,45 @@ export class V1AgentResponse extends BaseAgentResponse {
             const json = buf.toString("utf8", 4, buf.length);
             const obj = JSON.parse(json);
 
-            // Detect response type
-            const {type: responseType, ctor} = getResponseTypeAndConstrutor(obj);
-            if (responseType === AgentResponseType.Unknown) {
-                reject(new Errors.UnrecognizedAgentResponse(`Raw JSON: ${json}`));
-                return;
-            }
+            resolve(V1AgentResponse.fromJSON(obj));
+        });
+    }
 
-            // Construct specialized response type
-            if (!ctor) {
-                reject(new Errors.UnexpectedError("Failed to construct response type"));
-                return;
-            }
-            const response = ctor(obj);
+    /**
+     * Build the specialized response for already parsed JSON
+     *
+     * @param {object} obj - the parsed JSON of the response
+     * @returns {BaseAgentResponse} the response
+     * @throws {UnrecognizedAgentResponse} if the JSON does not match any known response
+     */
+    public static fromJSON(obj: object): BaseAgentResponse {
+        // Detect response type
+        const {type: responseType, ctor} = getResponseTypeAndConstrutor(obj);
+        if (responseType === AgentResponseType.Unknown) {
+            throw new Errors.UnrecognizedAgentResponse(`Raw JSON: ${JSON.stringify(obj)}`);
+        }
 
-            resolve(response);
-        });
+        // Construct specialized response type
+        if (!ctor) {
+            throw new Errors.UnexpectedError("Failed to construct response type");
+        }
+
+        return ctor(obj);
+    }
+
+    /**
+     * Build the response that core-agent would send after successfully handling a request
+     *
+     * @param {BaseAgentRequest} msg - the request
+     * @returns {BaseAgentResponse} the (synthetic) response
+     */
+    public static successFor(msg: BaseAgentRequest): BaseAgentResponse {
+        // Requests and their responses are keyed by the same name (ex. "StartSpan")
+        const [key] = Object.keys(msg.json);
+        const inner: any = {result: "Success"};
+        if (key === "CoreAgentVersion") { inner.version = Constants.DEFAULT_CORE_AGENT_VERSION; }
+
+        return V1AgentResponse.fromJSON({[key]: inner});
     }
 }
 
@@ -231,6 +265,20 @@ export class V1ApplicationEventResponse extends V1AgentResponse {
     }
 }
 
+export class V1BatchCommandResponse extends V1AgentResponse {
+    public readonly type: AgentResponseType = AgentResponseType.V1BatchCommand;
+
+    constructor(obj: any) {
+        super();
+        if (!("BatchCommand" in obj)) {
+            throw new Errors.UnexpectedError("Invalid V1BatchCommandResponse, 'BatchCommand' key missing");
+        }
+
+        const inner = obj.BatchCommand;
+        if ("result" in inner) { this.result = inner.result; }
+    }
+}
+
 export class V1FailureResponse extends V1AgentResponse {
     public readonly type: AgentResponseType = AgentResponseType.V1Failure;
     public readonly message: string;
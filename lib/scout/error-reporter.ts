@@ -0,0 +1,397 @@
+import { EventEmitter } from "events";
+import * as http from "http";
+import * as https from "https";
+import { gzipSync } from "zlib";
+import { URL } from "url";
+import { fromError as getStackTraceFromError } from "stacktrace-js";
+
+import {
+    ApplicationEventType,
+    LogFn,
+    LogLevel,
+    ScoutConfiguration,
+    ScoutEvent,
+    ScoutStackFrame,
+    getErrorClassName,
+    processStackFrames,
+    scrubParams,
+} from "../types";
+import { V1ApplicationEvent } from "../protocol/v1/requests";
+import * as Constants from "../constants";
+import * as Errors from "../errors";
+
+/**
+ * Information about the circumstances an error was captured in
+ */
+export interface ErrorContext {
+    // ID of the request (transaction) the error occurred in
+    requestId?: string;
+
+    // URI of the request, as reported for the request (see `uriReporting`)
+    requestURI?: string;
+
+    // Params of the request (query string, body, route params), filtered before sending
+    params?: {[key: string]: any};
+
+    // Session of the request, filtered before sending
+    session?: {[key: string]: any};
+
+    // Custom context (ex. the current user), as added to the request with `scout.api.Context`
+    context?: {[key: string]: any};
+
+    // Environment the request was served in (ex. request headers), filtered before sending
+    environment?: {[key: string]: any};
+}
+
+// Marks errors that have already been captured (ex. by an integration, before reaching an error handler)
+const CAPTURED_SYMBOL = Symbol("scout-error-captured");
+
+// Headers that are never reported as part of a request's environment
+const UNREPORTED_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * Build the details of an incoming request that are reported along with errors captured while handling it
+ * (express-like requests also have their parsed params & session reported)
+ *
+ * @param {any} req - the incoming request (ex. an express Request)
+ * @returns {ErrorContext} the details of the request
+ */
+export function buildRequestErrorContext(req: any): ErrorContext {
+    if (!req || typeof req !== "object") { return {}; }
+
+    const context: ErrorContext = {};
+
+    const body = req.body && typeof req.body === "object" && !Buffer.isBuffer(req.body) ? req.body : {};
+    const params = {...(req.query || {}), ...body, ...(req.params || {})};
+    if (Object.keys(params).length > 0) { context.params = params; }
+
+    if (req.session && typeof req.session === "object") { context.session = {...req.session}; }
+
+    const headers = req.headers || {};
+    context.environment = {
+        method: req.method,
+        httpVersion: req.httpVersion,
+        headers: Object.keys(headers)
+            .filter(h => !UNREPORTED_HEADERS.includes(h.toLowerCase()))
+            .reduce((acc, h) => {
+                acc[h] = headers[h];
+                return acc;
+            }, {}),
+    };
+
+    return context;
+}
+
+export interface ErrorReporterOptions {
+    logFn?: LogFn;
+
+    // Amount of time between sending batches of captured errors
+    flushIntervalMs?: number;
+
+    // Maximum number of captured errors waiting to be sent
+    maxQueued?: number;
+
+    // Function used to send errors to the core-agent (when no errors endpoint is configured)
+    sendEvent?: (event: V1ApplicationEvent) => Promise<void>;
+}
+
+/**
+ * An error that was captured, with everything needed to report it
+ *
+ * @class
+ */
+export class CapturedError {
+    public readonly exceptionClass: string;
+    public readonly message: string;
+    public readonly trace: ScoutStackFrame[];
+    public readonly context: ErrorContext;
+    public readonly host: string;
+    public readonly revisionSHA: string;
+    public readonly timestamp: Date;
+
+    constructor(
+        err: Error,
+        trace: ScoutStackFrame[],
+        context: ErrorContext,
+        opts?: {host?: string, revisionSHA?: string, timestamp?: Date},
+    ) {
+        this.exceptionClass = getErrorClassName(err);
+        this.message = err && err.message ? err.message : String(err);
+        this.trace = trace;
+        this.context = context;
+
+        this.host = opts && opts.host ? opts.host : "";
+        this.revisionSHA = opts && opts.revisionSHA ? opts.revisionSHA : "";
+        this.timestamp = opts && opts.timestamp ? opts.timestamp : new Date();
+    }
+
+    // The error, as it is reported (a "problem")
+    get json(): object {
+        return {
+            exception_class: this.exceptionClass,
+            message: this.message,
+            request_id: this.context.requestId || null,
+            request_uri: this.context.requestURI || null,
+            request_params: this.context.params || null,
+            request_session: this.context.session || null,
+            context: this.context.context || {},
+            environment: this.context.environment || null,
+            trace: this.trace.map(f => `${f.file || "<unknown>"}:${f.line || 0}:in ${f.function}`),
+            host: this.host,
+            revision_sha: this.revisionSHA,
+            timestamp: this.timestamp,
+        };
+    }
+}
+
+/**
+ * Collects captured errors and sends them in batches, either to the core-agent (as an application event)
+ * or to the configured errors endpoint
+ *
+ * @class
+ */
+export class ErrorReporter extends EventEmitter {
+    private readonly config: Partial<ScoutConfiguration>;
+    private readonly logFn: LogFn;
+    private readonly flushIntervalMs: number;
+    private readonly maxQueued: number;
+    private readonly sendEvent?: (event: V1ApplicationEvent) => Promise<void>;
+
+    private queue: CapturedError[] = [];
+    private flushInterval?: NodeJS.Timeout;
+    private flushing: Promise<void> = Promise.resolve();
+
+    constructor(config: Partial<ScoutConfiguration>, opts?: ErrorReporterOptions) {
+        super();
+
+        this.config = config;
+        this.logFn = opts && opts.logFn ? opts.logFn : () => undefined;
+        this.flushIntervalMs = opts && opts.flushIntervalMs
+            ? opts.flushIntervalMs
+            : Constants.DEFAULT_ERRORS_FLUSH_INTERVAL_MS;
+        this.maxQueued = opts && opts.maxQueued ? opts.maxQueued : Constants.DEFAULT_ERRORS_MAX_QUEUED;
+        this.sendEvent = opts && opts.sendEvent;
+    }
+
+    public isEnabled(): boolean {
+        return !!this.config.errorsEnabled;
+    }
+
+    /**
+     * Start sending captured errors periodically
+     */
+    public start(): void {
+        if (!this.isEnabled() || this.flushInterval) { return; }
+
+        this.logFn("[scout/errors] Starting sending of captured errors...", LogLevel.Debug);
+
+        this.flushInterval = setInterval(() => this.flush(), this.flushIntervalMs);
+        // Sending errors should not keep the process alive
+        this.flushInterval.unref();
+    }
+
+    /**
+     * Stop sending captured errors, sending any that are still waiting
+     *
+     * @returns {Promise<void>} a promise that resolves when the last errors have been sent
+     */
+    public stop(): Promise<void> {
+        if (this.flushInterval) {
+            clearInterval(this.flushInterval);
+            this.flushInterval = undefined;
+        }
+
+        return this.flush();
+    }
+
+    /**
+     * Capture an error, which is sent with the next batch
+     *
+     * @param {Error} err - the error to capture
+     * @param {ErrorContext} context - the circumstances the error occurred in
+     * @returns {Promise<CapturedError | null>} the captured error, or null if it was not (or already) captured
+     */
+    public capture(err: Error, context: ErrorContext = {}): Promise<CapturedError | null> {
+        if (!this.isEnabled()) { return Promise.resolve(null); }
+
+        if (err && typeof err === "object") {
+            if (err[CAPTURED_SYMBOL]) { return Promise.resolve(null); }
+            err[CAPTURED_SYMBOL] = true;
+        }
+
+        const lookup = this.buildFilterLookup();
+        const filtered: ErrorContext = {
+            ...context,
+            params: context.params ? scrubParams(context.params, lookup) : undefined,
+            session: context.session ? scrubParams(context.session, lookup) : undefined,
+            environment: context.environment ? this.filterEnvironment(context.environment, lookup) : undefined,
+        };
+
+        // Source maps are never fetched, traces are processed as they were thrown
+        return getStackTraceFromError(err, {offline: true})
+            .catch(() => [])
+            .then(frames => {
+                const captured = new CapturedError(err, processStackFrames(frames), filtered, {
+                    host: this.config.hostname || "",
+                    revisionSHA: this.config.revisionSHA,
+                });
+
+                if (this.queue.length >= this.maxQueued) {
+                    this.logFn("[scout/errors] Too many errors waiting to be sent, dropping the oldest", LogLevel.Warn);
+                    this.queue.shift();
+                }
+
+                this.queue.push(captured);
+                this.emit(ScoutEvent.ErrorCaptured, captured);
+
+                return captured;
+            });
+    }
+
+    /**
+     * Send all captured errors that are waiting to be sent
+     *
+     * @returns {Promise<void>} a promise that resolves when the errors have been sent
+     */
+    public flush(): Promise<void> {
+        // Flushes are chained so batches are sent in the order they were captured
+        this.flushing = this.flushing
+            .then(() => {
+                if (this.queue.length === 0) { return; }
+
+                const batch = this.queue;
+                this.queue = [];
+
+                return this.send(batch)
+                    .then(() => {
+                        this.logFn(`[scout/errors] Sent [${batch.length}] captured error(s)`, LogLevel.Debug);
+                        this.emit(ScoutEvent.ErrorsSent, batch);
+                    })
+                    .catch(err => {
+                        this.logFn(`[scout/errors] Failed to send captured errors: ${err.message}`, LogLevel.Error);
+                    });
+            });
+
+        return this.flushing;
+    }
+
+    /**
+     * Build the payload for a batch of captured errors
+     *
+     * @param {CapturedError[]} errors
+     * @returns {object} the payload
+     */
+    public buildPayload(errors: CapturedError[]): object {
+        return {
+            notifier: Constants.ERRORS_NOTIFIER_NAME,
+            root: this.config.applicationRoot || "",
+            problems: errors.map(e => e.json),
+        };
+    }
+
+    private send(errors: CapturedError[]): Promise<void> {
+        const payload = this.buildPayload(errors);
+
+        if (this.config.errorsEndpoint) {
+            return this.sendToEndpoint(this.config.errorsEndpoint, payload, errors.length);
+        }
+
+        if (!this.sendEvent) { return Promise.reject(new Errors.NoAgentPresent()); }
+
+        return this.sendEvent(new V1ApplicationEvent(
+            `Pid: ${process.pid}`,
+            ApplicationEventType.ErrorReport,
+            payload,
+        ));
+    }
+
+    /**
+     * POST a payload to the errors endpoint (gzipped JSON, with the app's key & name as query params)
+     *
+     * @param {string} endpoint - URL of the errors endpoint
+     * @param {object} payload
+     * @param {number} count - the number of errors in the payload
+     * @returns {Promise<void>} a promise that resolves when the endpoint has accepted the payload
+     */
+    private sendToEndpoint(endpoint: string, payload: object, count: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const url = new URL(endpoint);
+            url.searchParams.set("key", this.config.key || "");
+            url.searchParams.set("name", this.config.name || "");
+
+            const body = gzipSync(JSON.stringify(payload));
+            const requestFn = url.protocol === "https:" ? https.request : http.request;
+
+            const req = requestFn(
+                {
+                    protocol: url.protocol,
+                    hostname: url.hostname,
+                    port: url.port,
+                    path: `${url.pathname}${url.search}`,
+                    method: "POST",
+                    headers: {
+                        "Agent-Hostname": this.config.hostname || "",
+                        "Content-Encoding": "gzip",
+                        "Content-Length": body.length,
+                        "Content-Type": "application/json",
+                        "X-Error-Count": count,
+                    },
+                    // Reports are not part of the request (if any) they are sent during
+                    [Constants.UNINSTRUMENTED_REQUEST_SYMBOL]: true,
+                } as http.RequestOptions,
+                res => {
+                    res.resume();
+
+                    const status = res.statusCode || 0;
+                    if (status >= 200 && status < 300) { return resolve(); }
+
+                    reject(new Errors.ErrorReportFailed(`Errors endpoint responded with status [${status}]`));
+                },
+            );
+
+            req.on("error", reject);
+            req.end(body);
+        });
+    }
+
+    /**
+     * Filter the environment of a request, matching header names with dashes as underscores as well
+     * (ex. "api_key" filters an "Api-Key" header)
+     *
+     * @param {Object} environment
+     * @param {Object} lookup - lookup of the params to filter
+     * @returns {Object} the filtered environment
+     */
+    private filterEnvironment(
+        environment: {[key: string]: any},
+        lookup: {[key: string]: boolean},
+    ): {[key: string]: any} {
+        const filtered = scrubParams(environment, lookup);
+
+        const headers = filtered.headers;
+        if (headers && typeof headers === "object" && !Array.isArray(headers)) {
+            filtered.headers = Object.keys(headers).reduce((acc, h) => {
+                const name = h.toLowerCase();
+                acc[h] = name in lookup || name.replace(/-/g, "_") in lookup
+                    ? Constants.DEFAULT_PARAM_SCRUB_REPLACEMENT
+                    : headers[h];
+                return acc;
+            }, {});
+        }
+
+        return filtered;
+    }
+
+    // Params that are filtered: the common ones, and the ones configured with errorsFilteredParams
+    private buildFilterLookup(): {[key: string]: boolean} {
+        return (this.config.errorsFilteredParams || []).reduce(
+            (acc, p) => {
+                acc[p.trim().toLowerCase()] = true;
+                return acc;
+            },
+            {...Constants.DEFAULT_PARAM_FILTER_LOOKUP},
+        );
+    }
+}
+
+export default ErrorReporter;
@@ -1,8 +1,8 @@
 import { EventEmitter } from "events";
+import { IncomingMessage } from "http";
 import * as path from "path";
 import * as process from "process";
 import { v4 as uuidv4 } from "uuid";
-import * as cls from "cls-hooked";
 import * as semver from "semver";
 import { pathExists } from "fs-extra";
 import { instrument as instrumentTrace } from "stacktrace-js";
@@ -15,10 +15,13 @@ import {
     AgentDownloadOptions,
     AgentDownloader,
     AgentEvent,
+    AgentType,
     ApplicationEventType,
     ApplicationMetadata,
     BaseAgentRequest,
     BaseAgentResponse,
+    ContextManager,
+    ContextManagerType,
     CoreAgentVersion,
     JSONValue,
     LogFn,
@@ -34,27 +37,42 @@ import {
     buildProcessOptions,
     buildScoutConfiguration,
     generateTriple,
+    isAsyncLocalStorageSupported,
     isLogLevel,
+    isThenable,
     parseLogLevel,
     scrubRequestPath,
     scrubRequestPathParams,
     isIgnoredLogMessage,
+    resolveRemoteIP,
+    buildTraceParent,
+    buildTraceState,
+    parseTraceParent,
+    toTraceContextId,
 } from "../types";
 import { setActiveGlobalScoutInstance, EXPORT_BAG } from "../global";
 import { getIntegrationForPackage } from "../integrations";
 
 import WebAgentDownloader from "../agent-downloaders/web";
+import AsyncLocalStorageContextManager from "../context-managers/async-local-storage";
+import ClsHookedContextManager from "../context-managers/cls-hooked";
 import ExternalProcessAgent from "../agents/external-process";
+import FileAgent from "../agents/file";
+import InMemoryAgent from "../agents/in-memory";
 import * as Requests from "../protocol/v1/requests";
 import * as Constants from "../constants";
 import * as Errors from "../errors";
 
 export { default as ScoutRequest } from "./request";
 export { default as ScoutSpan } from "./span";
+export { ErrorReporter, ErrorContext, CapturedError, buildRequestErrorContext } from "./error-reporter";
+export { MetricsAggregator, MetricType, TimingSummary } from "./metrics";
 
 import ScoutRequest from "./request";
 import { ScoutRequestOptions } from "./request";
 import ScoutSpan from "./span";
+import { ErrorReporter, ErrorContext, CapturedError } from "./error-reporter";
+import { MetricsAggregator } from "./metrics";
 
 export interface ScoutEventRequestSentData {
     request: ScoutRequest;
@@ -75,6 +93,9 @@ export interface ScoutOptions {
 
     // Amount of time between calculating and sending statistics
     statisticsIntervalMS?: number;
+
+    // Amount of time between sending batches of captured errors
+    errorsFlushIntervalMS?: number;
 }
 
 export interface CallbackInfo {
@@ -97,6 +118,16 @@ const ASYNC_NS = "scout";
 const ASYNC_NS_REQUEST = `${ASYNC_NS}.request`;
 const ASYNC_NS_SPAN = `${ASYNC_NS}.span`;
 
+// Context that scout adds to requests itself, which is not reported as custom context for captured errors
+const INTERNAL_CONTEXT_NAMES: string[] = [
+    ScoutContextName.Error,
+    ScoutContextName.Path,
+    ScoutContextName.Name,
+    ScoutContextName.Timeout,
+    ScoutContextName.IgnoreTransaction,
+    ScoutContextName.QueueTimeNS,
+];
+
 export class Scout extends EventEmitter {
     private readonly config: Partial<ScoutConfiguration>;
 
@@ -107,13 +138,13 @@ export class Scout extends EventEmitter {
     private slowRequestThresholdMs: number = Constants.DEFAULT_SLOW_REQUEST_THRESHOLD_MS;
 
     private coreAgentVersion: CoreAgentVersion;
-    private agent: ExternalProcessAgent | null;
+    private agent: Agent | null;
     private processOptions: ProcessOptions;
     private applicationMetadata: ApplicationMetadata;
 
-    private asyncNamespace: any;
-    private syncCurrentRequest: ScoutRequest | null = null;
-    private syncCurrentSpan: ScoutSpan | null = null;
+    private contextManager: ContextManager;
+    private errorReporter: ErrorReporter;
+    private metrics: MetricsAggregator;
 
     private uncaughtExceptionListenerFn: (err) => void;
 
@@ -158,8 +189,20 @@ export class Scout extends EventEmitter {
             this.config.logLevel = parseLogLevel(this.logFn.logger.level);
         }
 
-        // Create async namespace if it does not exist
-        this.createAsyncNamespace();
+        // Create the context manager used to track the current request/span
+        this.createContextManager();
+
+        // Create the reporter that captured errors are sent through
+        this.errorReporter = new ErrorReporter(this.config, {
+            logFn: (message, level) => this.log(message, level),
+            flushIntervalMs: opts && opts.errorsFlushIntervalMS,
+            sendEvent: event => this.agent ? this.agent.sendAsync(event) : Promise.reject(new Errors.NoAgentPresent()),
+        });
+        this.errorReporter.on(ScoutEvent.ErrorCaptured, captured => this.emit(ScoutEvent.ErrorCaptured, captured));
+        this.errorReporter.on(ScoutEvent.ErrorsSent, batch => this.emit(ScoutEvent.ErrorsSent, batch));
+
+        // Custom metrics are aggregated until they are sent with the statistics
+        this.metrics = new MetricsAggregator({logFn: (message, level) => this.log(message, level)});
     }
 
     public log(message: string, level: LogLevel = LogLevel.Info) {
@@ -235,9 +278,28 @@ export class Scout extends EventEmitter {
                 cpuUsagePercent,
             ));
 
+            // Send the custom metrics aggregated during this interval
+            this.sendMetrics();
+
         }, this.statsIntervalMS || Constants.DEFAULT_STATS_INTERVAL_MS);
     }
 
+    /**
+     * Send the custom metrics aggregated since they were last sent
+     *
+     * @returns {Promise<void>} a promise that resolves when the metrics have been sent
+     */
+    protected sendMetrics(): Promise<void> {
+        const agent = this.agent;
+        if (!agent || this.metrics.isEmpty()) { return Promise.resolve(); }
+
+        this.log("[scout] Sending custom metrics...", LogLevel.Debug);
+
+        return Promise.all(this.metrics.flush().map(event => agent.sendAsync(event)))
+            .then(() => undefined)
+            .catch(err => this.log(`[scout] Failed to send custom metrics: ${err}`, LogLevel.Error));
+    }
+
     /**
      * Stop sending statistics for the node process
      *
@@ -276,7 +338,7 @@ export class Scout extends EventEmitter {
         return this.config;
     }
 
-    public getAgent(): ExternalProcessAgent | null {
+    public getAgent(): Agent | null {
         return this.agent;
     }
 
@@ -304,12 +366,8 @@ export class Scout extends EventEmitter {
 
         this.log("[scout] setting up scout...", LogLevel.Debug);
 
-        const shouldLaunch = this.config.coreAgentLaunch;
-
-        const doLaunch = shouldLaunch ? this.downloadAndLaunchAgent() : this.createAgentForExistingSocket();
-
-        // If the socket path exists then we may be able to skip downloading and launching
-        this.settingUp = doLaunch
+        // Create the configured agent (downloading & launching core-agent if necessary)
+        this.settingUp = this.createAgent()
             .then(() => {
                 if (!this.agent) { throw new Errors.NoAgentPresent(); }
                 return this.agent.connect();
@@ -326,6 +384,10 @@ export class Scout extends EventEmitter {
         // Register the application
             .then(() => {
                 if (!this.agent) { throw new Errors.NoAgentPresent(); }
+
+                // Only core-agent connections need the registration & metadata re-sent on (re)connect
+                if (!(this.agent instanceof ExternalProcessAgent)) { return; }
+
                 return this.agent.setRegistrationAndMetadata(
                     new Requests.V1Register(
                         this.config.name || "",
@@ -340,6 +402,14 @@ export class Scout extends EventEmitter {
             .then(() => this.sendAppMetadataEvent())
         // Set up integration(s)
             .then(() => this.setupIntegrations())
+            .then(() => {
+                const disabled = this.config.disabledInstruments || [];
+                if (disabled.length > 0) {
+                    this.log(`[scout] disabled integrations: [${disabled.join(", ")}]`, LogLevel.Info);
+                }
+
+                this.log(`[scout] active integrations: [${this.getActiveIntegrations().join(", ")}]`, LogLevel.Info);
+            })
         // Set up process uncaught exception handler
             .then(() => {
                 this.uncaughtExceptionListenerFn = (err) => this.onUncaughtExceptionListener(err);
@@ -349,6 +419,8 @@ export class Scout extends EventEmitter {
             .then(() => setActiveGlobalScoutInstance(this))
         // Start the statistics sending interval
             .then(() => this.startSendingStatistics())
+        // Start sending captured errors
+            .then(() => this.errorReporter.start())
             .then(() => this);
 
         return this.settingUp;
@@ -371,10 +443,14 @@ export class Scout extends EventEmitter {
             process.removeListener("uncaughtException", this.uncaughtExceptionListenerFn);
         }
 
-        return this.agent
-            .disconnect()
+        const agent = this.agent;
+
+        // Send the errors that were captured & the metrics that were recorded but not sent yet, before disconnecting
+        return this.errorReporter.stop()
+            .then(() => this.sendMetrics())
+            .then(() => agent.disconnect())
             .then(() => {
-                if (this.config.allowShutdown && this.agent) {
+                if (this.config.allowShutdown && this.agent instanceof ExternalProcessAgent) {
                     return this.agent.stopProcess();
                 }
             })
@@ -434,14 +510,93 @@ export class Scout extends EventEmitter {
         }
     }
 
+    /**
+     * Get the remote IP of a given incoming request, if remote IPs are being collected
+     * (forwarding headers are only used when they were set by a trusted proxy)
+     *
+     * @param {IncomingMessage} req
+     * @returns {string | null} the remote IP of the request
+     */
+    public getRemoteIP(req: IncomingMessage): string | null {
+        if (!this.config.collectRemoteIP || !req) { return null; }
+
+        const socket = req.socket || req.connection;
+
+        return resolveRemoteIP(
+            req.headers || {},
+            socket ? socket.remoteAddress : undefined,
+            this.config.trustedProxies || [],
+        );
+    }
+
+    /**
+     * Get the trace context (W3C traceparent & tracestate headers) of a given incoming request,
+     * as the context to add to the request's transaction
+     *
+     * @param {IncomingMessage} req
+     * @returns {ScoutTag[]} the trace context (empty if the request is not part of a trace)
+     */
+    public getTraceContextTags(req: IncomingMessage): ScoutTag[] {
+        if (!this.config.propagateTraceContext || !req || !req.headers) { return []; }
+
+        const traceParent = parseTraceParent(req.headers[Constants.TRACEPARENT_HEADER]);
+        if (!traceParent) { return []; }
+
+        const tags: ScoutTag[] = [
+            {name: ScoutContextName.TraceId, value: traceParent.traceId},
+            {name: ScoutContextName.TraceParentId, value: traceParent.parentId},
+        ];
+
+        // Multiple tracestate headers are combined, like other list-valued headers
+        const traceState = req.headers[Constants.TRACESTATE_HEADER];
+        if (traceState) {
+            tags.push({
+                name: ScoutContextName.TraceState,
+                value: Array.isArray(traceState) ? traceState.join(",") : traceState,
+            });
+        }
+
+        return tags;
+    }
+
+    /**
+     * Build the trace context headers (W3C traceparent & tracestate) for an outgoing request
+     * made during the current request, continuing the trace the current request is part of (if any)
+     *
+     * @param {ScoutSpan} [span] - the span the outgoing request is recorded as (defaults to the current span)
+     * @returns {Object | null} the headers, or null if there is no current request
+     */
+    public getTraceContextHeaders(span?: ScoutSpan): {[name: string]: string} | null {
+        if (!this.config.propagateTraceContext) { return null; }
+
+        const request = this.getCurrentRequest();
+        if (!request) { return null; }
+
+        const traceId = request.getContextValue(ScoutContextName.TraceId);
+        const traceState = request.getContextValue(ScoutContextName.TraceState);
+        const parentId = toTraceContextId((span || this.getCurrentSpan() || request).id, 16);
+
+        return {
+            [Constants.TRACEPARENT_HEADER]: buildTraceParent(
+                typeof traceId === "string" ? traceId : toTraceContextId(request.id, 32),
+                parentId,
+            ),
+            [Constants.TRACESTATE_HEADER]: buildTraceState(
+                parentId,
+                typeof traceState === "string" ? traceState : undefined,
+            ),
+        };
+    }
+
     /**
      * Start a transaction
      *
      * @param {string} name
      * @param {Function} callback
+     * @param {ScoutRequestOptions} [opts] - options for the request
      * @returns void
      */
-    public transaction(name: string, cb: DoneCallback): Promise<any> {
+    public transaction(name: string, cb: DoneCallback, opts?: ScoutRequestOptions): Promise<any> {
         this.log(`[scout] Starting transaction [${name}]`, LogLevel.Debug);
 
         let ranContext = false;
@@ -450,12 +605,12 @@ export class Scout extends EventEmitter {
         return this.setup()
             .then(() => {
                 ranContext = true;
-                return this.withAsyncRequestContext(cb);
+                return this.withAsyncRequestContext(cb, opts);
             })
             .catch(err => {
                 this.log("[scout] Scout setup failed: ${err}", LogLevel.Error);
                 if (!ranContext) {
-                    return this.withAsyncRequestContext(cb);
+                    return this.withAsyncRequestContext(cb, opts);
                 }
             });
     }
@@ -464,24 +619,57 @@ export class Scout extends EventEmitter {
      * Start a synchronous transaction
      *
      * @param {string} name
+     * @param {RequestCallback} fn
+     * @param {ScoutRequestOptions} [opts] - options for the request
      */
-    public transactionSync(name: string, fn: RequestCallback): any {
+    public transactionSync(name: string, fn: RequestCallback, opts?: ScoutRequestOptions): any {
         this.log(`[scout] Starting transaction [${name}]`, LogLevel.Debug);
 
-        // Create & start the request synchronously
-        const request = this.startRequestSync();
-        this.syncCurrentRequest = request;
+        return this.contextManager.run(() => {
+            // Create & start the request synchronously
+            const request = this.startRequestSync(opts);
+            this.contextManager.set(ASYNC_NS_REQUEST, request);
+            this.contextManager.set(ASYNC_NS_SPAN, undefined);
 
-        const result = fn({request});
-        request.stopSync();
+            const result = fn({request});
+            request.stopSync();
 
-        // Reset the current request as sync
-        this.syncCurrentRequest = null;
+            // Fire and forget the request
+            request.finishAndSend();
 
-        // Fire and forget the request
-        request.finishAndSend();
+            return result;
+        });
+    }
 
-        return result;
+    /**
+     * Run a function in a transaction that is started synchronously (without waiting for setup)
+     *
+     * The transaction is finished once the function's result settles: when a returned promise settles, or right
+     * away for values & thrown errors. Thrown errors and rejections mark the transaction as errored.
+     * Transactions finished before scout has been set up are sent once it has been.
+     *
+     * @param {string} name
+     * @param {RequestCallback} fn
+     * @param {ScoutRequestOptions} [opts] - options for the request
+     * @returns {any} the result of the function (thrown errors are re-thrown, rejections are passed on)
+     */
+    public runInTransaction(name: string, fn: RequestCallback, opts?: ScoutRequestOptions): any {
+        this.log(`[scout] Starting transaction [${name}]`, LogLevel.Debug);
+
+        return this.contextManager.run(() => {
+            const request = this.startRequestSync(opts);
+            this.contextManager.set(ASYNC_NS_REQUEST, request);
+            this.contextManager.set(ASYNC_NS_SPAN, undefined);
+
+            return runAndSettle(() => fn({request}), failed => {
+                if (failed) { request.addContextSync(ScoutContextName.Error, "true"); }
+                request.stopSync();
+
+                this.setup()
+                    .then(() => request.finishAndSend())
+                    .catch(err => this.log(`[scout] Failed to send request [${request.id}]: ${err}`, LogLevel.Error));
+            });
+        });
     }
 
     /**
@@ -538,14 +726,14 @@ export class Scout extends EventEmitter {
 
         return new Promise((resolve, reject) => {
             // Create a new async context for the instrumentation
-            this.asyncNamespace.run(() => {
+            this.contextManager.run(() => {
                 // Create a done function that will clear the entry and stop the span
                 const doneFn = () => {
                     // Set the parent for other sibling/same-level spans
                     if (parentIsSpan) {
                         // If the parent of this span is a span, then we want other spans in this namespace
                         // to be children of that parent span, so save the parent
-                        this.asyncNamespace.set(ASYNC_NS_SPAN, parent);
+                        this.contextManager.set(ASYNC_NS_SPAN, parent);
                     } else {
                         // If the parent of this span *not* a span,
                         // then the parent of sibling spans should be the request,
@@ -576,8 +764,8 @@ export class Scout extends EventEmitter {
                     .then(s => span = s)
                     .then(() => {
                         // Set the span & request on the namespace
-                        this.asyncNamespace.set(ASYNC_NS_REQUEST, request);
-                        this.asyncNamespace.set(ASYNC_NS_SPAN, span);
+                        this.contextManager.set(ASYNC_NS_REQUEST, request);
+                        this.contextManager.set(ASYNC_NS_SPAN, span);
 
                         // Set function to call on finish
                         span.setOnStop(() => {
@@ -625,9 +813,7 @@ export class Scout extends EventEmitter {
      * @throws {NoActiveRequest} If there is no request in scope (via async context or override param)
      */
     public instrumentSync(operation: string, fn: SpanCallback, requestOverride?: ScoutRequest): any {
-        let parent = requestOverride || this.syncCurrentSpan || this.syncCurrentRequest;
-        // Check the async sources in case we're in a async context but not a sync one
-        parent = parent || this.getCurrentSpan() || this.getCurrentRequest();
+        const parent = requestOverride || this.getCurrentSpan() || this.getCurrentRequest();
 
         // If there isn't a current parent for instrumentSync, auto create one
         if (!parent) {
@@ -639,22 +825,111 @@ export class Scout extends EventEmitter {
             return this.transactionSync(operation, () => this.instrumentSync(operation, fn));
         }
 
-        // Start a child span of the parent synchronously
-        const span = parent.startChildSpanSync(operation);
-        this.syncCurrentSpan = span;
+        const request = requestOverride || this.getCurrentRequest() || undefined;
 
-        span.startSync();
-        const result = fn({
-            span,
-            parent,
-            request: this.getCurrentRequest() || undefined,
+        return this.runInChildSpan(operation, parent, request, (info, stopSpan) => {
+            const result = fn(info);
+            stopSpan(false);
+
+            return result;
         });
-        span.stopSync();
+    }
 
-        // Clear out the current span for synchronous operations
-        this.syncCurrentSpan = null;
+    /**
+     * Wrap a function so that calls made during a transaction are instrumented with a span
+     *
+     * The span is stopped once the call completes: when a returned promise settles, when a trailing
+     * node-style callback is called, or right away for synchronous functions. Thrown errors, rejections
+     * and errors passed to the callback mark the span as errored.
+     * Calls made outside of a transaction are passed through untouched.
+     *
+     * @param {string} operation - operation name for the span
+     * @param {Function} fn - function to wrap
+     * @returns {Function} the wrapped function
+     */
+    public wrap<T extends (...args: any[]) => any>(operation: string, fn: T): T {
+        const scout = this;
 
-        return result;
+        return function(this: any, ...args: any[]) {
+            const request = scout.getCurrentRequest();
+            const parent = scout.getCurrentSpan() || request;
+            if (!parent || !request) { return fn.apply(this, args); }
+
+            // The callback (if any) runs in the caller's context, not the context of the (stopped) span
+            const callback = args[args.length - 1];
+            const boundCallback = typeof callback === "function" ? scout.contextManager.bind(callback) : null;
+
+            return scout.runInChildSpan(operation, parent, request, (info, stopSpan) => {
+                if (!boundCallback) {
+                    return runAndSettle(() => fn.apply(this, args), stopSpan);
+                }
+
+                // Functions that return a promise are done once it settles, the function they were given
+                // (if it is called at all) is not a node-style callback
+                let returnedThenable = false;
+                let stopped = false;
+                const stopSpanOnce = (failed: boolean) => {
+                    if (stopped) { return; }
+                    stopped = true;
+                    stopSpan(failed);
+                };
+
+                // Stop the span when the callback is called, passing the callback's arguments along unchanged
+                args[args.length - 1] = function(this: any, err?: any) {
+                    if (!returnedThenable) { stopSpanOnce(!!err); }
+                    return boundCallback.apply(this, arguments);
+                };
+
+                let result;
+                try {
+                    result = fn.apply(this, args);
+                } catch (err) {
+                    stopSpanOnce(true);
+                    throw err;
+                }
+
+                if (!isThenable(result)) { return result; }
+
+                returnedThenable = true;
+                return settleThenable(result, stopSpanOnce);
+            });
+        } as T;
+    }
+
+    /**
+     * Get the aggregator for custom metrics (sent along with the CPU & memory statistics)
+     *
+     * @returns {MetricsAggregator}
+     */
+    public getMetrics(): MetricsAggregator {
+        return this.metrics;
+    }
+
+    /**
+     * Capture an error (ex. one that was handled), to be reported along with the current request's details
+     *
+     * @param {Error} err - the error to capture
+     * @param {ErrorContext} [context] - details of the error's circumstances, overriding the current request's
+     * @returns {Promise<CapturedError | null>} the captured error, or null if it was not (or already) captured
+     */
+    public captureError(err: Error, context?: ErrorContext): Promise<CapturedError | null> {
+        const request = this.getCurrentRequest();
+        const requestContext: ErrorContext = {};
+
+        if (request) {
+            const path = request.getContextValue(ScoutContextName.Path);
+
+            requestContext.requestId = request.id;
+            if (typeof path === "string") { requestContext.requestURI = path; }
+            requestContext.context = request.getTags()
+                .filter(t => !INTERNAL_CONTEXT_NAMES.includes(t.name))
+                .reduce((acc, t) => {
+                    acc[t.name] = t.value;
+                    return acc;
+                }, {});
+        }
+
+        return this.errorReporter.capture(err, {...requestContext, ...context});
     }
 
     /**
@@ -670,9 +945,6 @@ export class Scout extends EventEmitter {
     ): Promise<ScoutRequest | ScoutSpan | void> {
         let parent = this.getCurrentSpan() || this.getCurrentRequest();
 
-        // If we're not in an async context then attempt to use the sync parent span or request
-        if (!parent) { parent = this.syncCurrentSpan || this.syncCurrentRequest; }
-
         // If a parent override was provided, use it
         if (parentOverride) { parent = parentOverride; }
 
@@ -694,8 +966,7 @@ export class Scout extends EventEmitter {
      */
     public getCurrentRequest(): ScoutRequest | null {
         try {
-            const req = this.asyncNamespace.get(ASYNC_NS_REQUEST);
-            return req || this.syncCurrentRequest;
+            return this.contextManager.get(ASYNC_NS_REQUEST) || null;
         } catch {
             return null;
         }
@@ -708,11 +979,9 @@ export class Scout extends EventEmitter {
      */
     public getCurrentSpan(): ScoutSpan | null {
         try {
-            const span = this.asyncNamespace.get(ASYNC_NS_SPAN);
-            return span || this.syncCurrentSpan;
+            return this.contextManager.get(ASYNC_NS_SPAN) || null;
         } catch {
             return null;
-
         }
     }
 
@@ -723,6 +992,20 @@ export class Scout extends EventEmitter {
             .forEach(integration => integration.setScoutInstance(this));
     }
 
+    /**
+     * Get the names of the packages whose integrations are active
+     * (the package has been required and shimmed, and the integration isn't disabled)
+     *
+     * @returns {string[]} the names of the packages
+     */
+    public getActiveIntegrations(): string[] {
+        const disabled = this.config.disabledInstruments || [];
+
+        return Object.keys(EXPORT_BAG)
+            .filter(packageName => !disabled.includes(packageName))
+            .sort();
+    }
+
     /**
      * Check if an agent is already running
      *
@@ -747,18 +1030,37 @@ export class Scout extends EventEmitter {
     /**
      * Attempt to clear an async name space entry
      *
-     * this.asyncNamespace.set can fail if the async context ID is already gone
+     * this.contextManager.set can fail if the async context is already gone
      * before someone tries to clear it. This can happen if some caller moves calls to
      * another async context or if it's cleaned up suddenly
      */
     private clearAsyncNamespaceEntry(key: string) {
         try {
-            this.asyncNamespace.set(key, undefined);
+            this.contextManager.set(key, undefined);
         } catch {
             // this.logFn("failed to clear async namespace", LogLevel.Debug);
         }
     }
 
+    // Helper for creating the agent of the configured type
+    private createAgent(): Promise<Agent> {
+        switch (this.config.agentType) {
+            case AgentType.InMemory:
+                this.log("[scout] using in-memory agent, messages will not reach core-agent", LogLevel.Debug);
+                return this.setupAgent(new InMemoryAgent({}, (message, level) => this.log(message, level)));
+
+            case AgentType.File:
+                const filePath = this.config.agentFilePath || Constants.DEFAULT_AGENT_FILE_PATH;
+                return this.setupAgent(new FileAgent({filePath}, (message, level) => this.log(message, level)))
+                    .then(agent => agent.start());
+
+            default:
+                return this.config.coreAgentLaunch
+                    ? this.downloadAndLaunchAgent()
+                    : this.createAgentForExistingSocket();
+        }
+    }
+
     // Helper for creating an ExternalProcessAgent for an existing, listening agent
     private createAgentForExistingSocket(socketPath?: string): Promise<ExternalProcessAgent> {
         this.log(`[scout] detected existing socket @ [${this.socketPath}], skipping agent launch`, LogLevel.Debug);
@@ -786,7 +1088,7 @@ export class Scout extends EventEmitter {
     }
 
     // Helper for downloading and launching an agent
-    private downloadAndLaunchAgent(): Promise<ExternalProcessAgent> {
+    private downloadAndLaunchAgent(): Promise<Agent> {
         this.log(`[scout] downloading and launching agent`, LogLevel.Debug);
         this.downloader = new WebAgentDownloader({logFn: this.log});
 
@@ -846,29 +1148,39 @@ export class Scout extends EventEmitter {
     }
 
     /**
-     * Create an async namespace internally for use with tracking if not already present
+     * Create the context manager configured by contextManager, falling back to cls-hooked
+     * if AsyncLocalStorage is not supported by the running version of NodeJS
      */
-    private createAsyncNamespace() {
-        this.asyncNamespace = cls.getNamespace(ASYNC_NS);
+    private createContextManager() {
+        if (this.config.contextManager === ContextManagerType.ClsHooked) {
+            this.contextManager = new ClsHookedContextManager(ASYNC_NS);
+            return;
+        }
 
-        // Create if it doesn't exist
-        if (!this.asyncNamespace) {
-            this.asyncNamespace = cls.createNamespace(ASYNC_NS);
+        if (!isAsyncLocalStorageSupported()) {
+            this.log(
+                "[scout] AsyncLocalStorage is not supported by this version of NodeJS, falling back to cls-hooked",
+                LogLevel.Warn,
+            );
+            this.contextManager = new ClsHookedContextManager(ASYNC_NS);
+            return;
         }
+
+        this.contextManager = new AsyncLocalStorageContextManager();
     }
 
     /**
      * Perform some action within a context
      *
      */
-    private withAsyncRequestContext(cb: DoneCallback): Promise<any> {
+    private withAsyncRequestContext(cb: DoneCallback, opts?: ScoutRequestOptions): Promise<any> {
         return new Promise((resolve) => {
             let result;
             let request: ScoutRequest;
             let ranCb = false;
 
             // Run in the async namespace
-            this.asyncNamespace.run(() => {
+            this.contextManager.run(() => {
 
                 // Make done function that will run after
                 const doneFn = () => {
@@ -896,19 +1208,19 @@ export class Scout extends EventEmitter {
                 this.log(`[scout] Starting request in async namespace...`, LogLevel.Debug);
 
                 // Bind the cb to this namespace
-                cb = this.asyncNamespace.bind(cb);
+                cb = this.contextManager.bind(cb);
 
                 // Start the request
-                this.startRequest()
+                this.startRequest(opts)
                     .then(r => request = r)
                 // Update async namespace, run function
                     .then(() => {
                         this.log(`[scout] Request started w/ ID [${request.id}]`, LogLevel.Debug);
-                        this.asyncNamespace.set(ASYNC_NS_REQUEST, request);
+                        this.contextManager.set(ASYNC_NS_REQUEST, request);
 
                         // Set function to call on finish
                         // NOTE: at least *two* async contexts will be created for each request -- one for the request
-                        // and one for every span started inside the request. this.asyncNamespace is almost certain
+                        // and one for every span started inside the request. the active context is almost certain
                         // to be different by the time that stopFn is run -- we need to bind the stopFn to ensure
                         // the right async namespace gets cleared.
                         const stopFn = () => {
@@ -916,7 +1228,7 @@ export class Scout extends EventEmitter {
                             if (request) { request.clearOnStop(); }
                             return result;
                         };
-                        request.setOnStop(this.asyncNamespace.bind(stopFn));
+                        request.setOnStop(this.contextManager.bind(stopFn));
 
                         ranCb = true;
                         result = cb(() => request.stop(), {request});
@@ -955,6 +1267,11 @@ export class Scout extends EventEmitter {
      * @returns {ScoutRequest} a new scout request
      */
     private startRequestSync(opts?: ScoutRequestOptions): ScoutRequest {
+        // Framework integrations take over from the replaceable transaction (ex. the one the http.Server
+        // integration started for the same request)
+        const current = this.getCurrentRequest();
+        if (opts && opts.replacesCurrent && current && current.isReplaceable()) { current.ignore(); }
+
         const request = new ScoutRequest(Object.assign({}, {scoutInstance: this}, opts || {}));
         return request.startSync();
     }
@@ -991,27 +1308,56 @@ export class Scout extends EventEmitter {
             });
     }
 
+    /**
+     * Run a function in a new async context, with a newly started child span of the given parent as the current span
+     *
+     * @param {string} operation - operation name for the span
+     * @param {ScoutSpan | ScoutRequest} parent - parent of the span
+     * @param {ScoutRequest} [request] - request the span is part of
+     * @param {Function} fn - function to run, given a function that stops the span (marking it errored if failed)
+     * @returns {any} the result of the function
+     */
+    private runInChildSpan(
+        operation: string,
+        parent: ScoutSpan | ScoutRequest,
+        request: ScoutRequest | undefined,
+        fn: (info: CallbackInfo, stopSpan: (failed: boolean) => void) => any,
+    ): any {
+        return this.contextManager.run(() => {
+            // Start a child span of the parent synchronously
+            const span = parent.startChildSpanSync(operation);
+            this.contextManager.set(ASYNC_NS_REQUEST, request);
+            this.contextManager.set(ASYNC_NS_SPAN, span);
+
+            span.startSync();
+
+            return fn({span, parent, request}, failed => {
+                if (failed) { span.addContextSync(ScoutContextName.Error, "true"); }
+                span.stopSync();
+            });
+        });
+    }
+
     // Helper function for setting up an agent to be part of the scout instance
-    private setupAgent(agent: ExternalProcessAgent): Promise<ExternalProcessAgent> {
+    private setupAgent<T extends Agent & EventEmitter>(agent: T): Promise<T> {
         this.agent = agent;
 
         // Setup forwarding of all events of the agent through the scout instance
         Object.values(AgentEvent).forEach(evt => {
-            if (this.agent) {
-                this.agent.on(evt, msg => this.emit(evt, msg));
-            }
+            agent.on(evt, msg => this.emit(evt, msg));
         });
 
-        return Promise.resolve(this.agent);
+        return Promise.resolve(agent);
     }
 
     private onUncaughtExceptionListener(err: Error) {
-        // Get the current request if available
+        // Mark the current request (if available) as errored
         const currentRequest = this.getCurrentRequest();
-        if (!currentRequest) { return; }
+        if (currentRequest) { currentRequest.addContext(ScoutContextName.Error, "true"); }
 
-        // Mark the curernt request as errored
-        currentRequest.addContext(ScoutContextName.Error, "true");
+        // The process may be about to exit, so the error is sent right away
+        this.captureError(err)
+            .then(() => this.errorReporter.flush());
     }
 
 }
@@ -1020,90 +1366,33 @@ export class Scout extends EventEmitter {
 // code in this module but *not* as part of the public API for a Scout instance.
 
 /**
- * Send the StartRequest message to the agent
- *
- * @param {Scout} scout - A scout instance
- * @param {ScoutRequest} req - The original request
- * @returns {Promise<ScoutRequest>} the passed in request
- */
-export function sendStartRequest(scout: Scout, req: ScoutRequest): Promise<ScoutRequest> {
-    if (req.isIgnored()) {
-        scout.log(`[scout] Skipping sending StartRequest for ignored req [${req.id}]`, LogLevel.Warn);
-        scout.emit(ScoutEvent.IgnoredRequestProcessingSkipped, req);
-        return Promise.resolve(req);
-    }
-
-    const startReq = new Requests.V1StartRequest({
-        requestId: req.id,
-        timestamp: req.getTimestamp(),
-    });
-
-    return sendThroughAgent(scout, startReq)
-        .then(() => req)
-        .catch(err => {
-            scout.log(`[scout] failed to send start request request: ${err}`, LogLevel.Error);
-            return req;
-        });
-}
-
-/**
- * Send the StopRequest message to the agent
+ * Send a request (with all of it's spans and tags) to the agent, as a single batch
  *
  * @param {Scout} scout - A scout instance
  * @param {ScoutRequest} req - The original request
  * @returns {Promise<ScoutRequest>} the passed in request
  */
-export function sendStopRequest(scout: Scout, req: ScoutRequest): Promise<ScoutRequest> {
+export function sendRequestBatch(scout: Scout, req: ScoutRequest): Promise<ScoutRequest> {
     if (req.isIgnored()) {
-        scout.log(`[scout] Skipping sending StopRequest for ignored req [${req.id}]`, LogLevel.Warn);
+        scout.log(`[scout] Skipping sending BatchCommand for ignored req [${req.id}]`, LogLevel.Warn);
         scout.emit(ScoutEvent.IgnoredRequestProcessingSkipped, req);
         return Promise.resolve(req);
     }
 
-    const stopReq = new Requests.V1FinishRequest(req.id, {timestamp: req.getEndTime()});
+    const batch = Requests.V1BatchCommand.fromScoutRequest(req);
 
-    return sendThroughAgent(scout, stopReq)
+    return sendThroughAgent(scout, batch)
         .then(() => {
             scout.emit(ScoutEvent.RequestSent, {request: req} as ScoutEventRequestSentData);
 
             return req;
         })
         .catch(err => {
-            scout.log("[scout] failed to send stop request request", LogLevel.Error);
+            scout.log(`[scout] failed to send request batch: ${err}`, LogLevel.Error);
             return req;
         });
 }
 
-/**
- * Send the TagRequest message to the agent for a single tag
- *
- * @param {Scout} scout - A scout instance
- * @param {ScoutRequest} req - The original request
- * @param {String} name - The tag name
- * @param {String} value - The tag value
- * @returns {Promise<void>} A promise which resolves when the message has been sent
- */
-export function sendTagRequest(
-    scout: Scout,
-    req: ScoutRequest,
-    name: string,
-    value: JSONValue | JSONValue[],
-): Promise<void> {
-    if (req.isIgnored()) {
-        scout.log(`[scout] Skipping sending TagRequest for ignored req [${req.id}]`, LogLevel.Warn);
-        scout.emit(ScoutEvent.IgnoredRequestProcessingSkipped, req);
-        return Promise.resolve();
-    }
-
-    const tagReq = new Requests.V1TagRequest(name, value, req.id);
-
-    return sendThroughAgent(scout, tagReq)
-        .then(() => undefined)
-        .catch(err => {
-            scout.log("[scout] failed to send tag request", LogLevel.Error);
-        });
-}
-
 /**
  * Send the StartSpan message to the agent
  *
@@ -1244,3 +1533,48 @@ export function sendThroughAgent<T extends BaseAgentRequest, R extends BaseAgent
 
     return agent.send(msg) as Promise<void | R>;
 }
+
+/**
+ * Run a function, calling onSettled once its result has settled
+ * (right away for values & thrown errors, once resolved/rejected for promises)
+ *
+ * @param {Function} fn - the function to run
+ * @param {Function} onSettled - called with whether the function failed
+ * @returns {any} the result of the function (thrown errors are re-thrown, rejections are passed on)
+ */
+function runAndSettle(fn: () => any, onSettled: (failed: boolean) => void): any {
+    let result;
+    try {
+        result = fn();
+    } catch (err) {
+        onSettled(true);
+        throw err;
+    }
+
+    if (!isThenable(result)) {
+        onSettled(false);
+        return result;
+    }
+
+    return settleThenable(result, onSettled);
+}
+
+/**
+ * Call onSettled once a promise has settled
+ *
+ * @param {PromiseLike} result - the promise
+ * @param {Function} onSettled - called with whether the promise was rejected
+ * @returns {Promise<any>} a promise for the same value, rejected with the same error (left for the caller to handle)
+ */
+function settleThenable(result: PromiseLike<any>, onSettled: (failed: boolean) => void): Promise<any> {
+    return Promise.resolve(result).then(
+        value => {
+            onSettled(false);
+            return value;
+        },
+        err => {
+            onSettled(true);
+            throw err;
+        },
+    );
+}
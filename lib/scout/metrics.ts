@@ -0,0 +1,157 @@
+import { LogFn, LogLevel } from "../types";
+import { V1ApplicationEvent } from "../protocol/v1/requests";
+import * as Constants from "../constants";
+
+export enum MetricType {
+    Counter = "counter",
+    Gauge = "gauge",
+    Timing = "timing",
+}
+
+/**
+ * Summary of the timings recorded for a metric during an interval
+ */
+export interface TimingSummary {
+    count: number;
+    total: number;
+    min: number;
+    max: number;
+    mean: number;
+}
+
+export interface MetricsAggregatorOptions {
+    logFn?: LogFn;
+
+    // Maximum number of distinct metrics recorded per interval
+    maxMetrics?: number;
+}
+
+interface AggregatedMetric {
+    type: MetricType;
+    value: number | TimingSummary;
+}
+
+/**
+ * Aggregates custom metrics (counters, gauges & timings) in-process, until they are flushed
+ * as application events (once per statistics interval)
+ *
+ * @class
+ */
+export class MetricsAggregator {
+    private readonly logFn: LogFn;
+    private readonly maxMetrics: number;
+
+    private metrics: Map<string, AggregatedMetric> = new Map();
+
+    constructor(opts?: MetricsAggregatorOptions) {
+        this.logFn = opts && opts.logFn ? opts.logFn : () => undefined;
+        this.maxMetrics = opts && opts.maxMetrics ? opts.maxMetrics : Constants.DEFAULT_METRICS_MAX_PER_INTERVAL;
+    }
+
+    /**
+     * Increment a counter (counters are summed over the interval)
+     *
+     * @param {string} name - name of the metric
+     * @param {number} [value] - amount to increment the counter by
+     */
+    public increment(name: string, value: number = 1): void {
+        const metric = this.getMetric(name, MetricType.Counter, value);
+        if (!metric) { return; }
+
+        metric.value = (metric.value as number) + value;
+    }
+
+    /**
+     * Set a gauge (the last value set during the interval is reported)
+     *
+     * @param {string} name - name of the metric
+     * @param {number} value - current value (ex. queue depth)
+     */
+    public gauge(name: string, value: number): void {
+        const metric = this.getMetric(name, MetricType.Gauge, value);
+        if (!metric) { return; }
+
+        metric.value = value;
+    }
+
+    /**
+     * Record a timing (timings are summarized over the interval)
+     *
+     * @param {string} name - name of the metric
+     * @param {number} ms - duration in milliseconds
+     */
+    public timing(name: string, ms: number): void {
+        const metric = this.getMetric(name, MetricType.Timing, ms);
+        if (!metric) { return; }
+
+        const summary = metric.value as TimingSummary;
+        summary.count += 1;
+        summary.total += ms;
+        summary.min = summary.count === 1 ? ms : Math.min(summary.min, ms);
+        summary.max = summary.count === 1 ? ms : Math.max(summary.max, ms);
+        summary.mean = summary.total / summary.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.metrics.size === 0;
+    }
+
+    /**
+     * Build the application events for the metrics aggregated since the last flush, and start a new interval
+     *
+     * @param {Date} [timestamp] - time the events are reported at
+     * @returns {V1ApplicationEvent[]} one event per metric
+     */
+    public flush(timestamp: Date = new Date()): V1ApplicationEvent[] {
+        const metrics = this.metrics;
+        this.metrics = new Map();
+
+        return Array.from(metrics.entries()).map(([name, metric]) => new V1ApplicationEvent(
+            `Pid: ${process.pid}`,
+            `${Constants.CUSTOM_METRICS_EVENT_TYPE_PREFIX}${name}`,
+            metric.value,
+            {timestamp},
+        ));
+    }
+
+    /**
+     * Get (or create) the aggregated metric for a name, if the value can be recorded for it
+     *
+     * @param {string} name - name of the metric
+     * @param {MetricType} type - type of the metric
+     * @param {number} value - value being recorded
+     * @returns {AggregatedMetric | null} the aggregated metric, or null if the value should not be recorded
+     */
+    private getMetric(name: string, type: MetricType, value: number): AggregatedMetric | null {
+        if (!name || typeof name !== "string" || typeof value !== "number" || !isFinite(value)) {
+            this.logFn(`[scout/metrics] Invalid value [${value}] for metric [${name}], ignoring`, LogLevel.Warn);
+            return null;
+        }
+
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (existing.type === type) { return existing; }
+
+            this.logFn(
+                `[scout/metrics] Metric [${name}] is a ${existing.type}, ignoring ${type} value`,
+                LogLevel.Warn,
+            );
+            return null;
+        }
+
+        if (this.metrics.size >= this.maxMetrics) {
+            this.logFn(`[scout/metrics] Too many metrics this interval, ignoring [${name}]`, LogLevel.Warn);
+            return null;
+        }
+
+        const metric: AggregatedMetric = {
+            type,
+            value: type === MetricType.Timing ? {count: 0, total: 0, min: 0, max: 0, mean: 0} : 0,
+        };
+        this.metrics.set(name, metric);
+
+        return metric;
+    }
+}
+
+export default MetricsAggregator;
@@ -15,10 +15,7 @@ import { ChildSpannable } from "./span";
 
 import {
     Scout,
-    sendStartRequest,
-    sendStopRequest,
-    sendTagRequest,
-    sendStopSpan,
+    sendRequestBatch,
 } from "./index";
 
 import { ScoutContextName, ScoutEvent, isScoutTag } from "../types";
@@ -33,6 +30,13 @@ export interface ScoutRequestOptions {
     started?: boolean;
     ignored?: boolean;
 
+    // Whether a transaction started while this one is current can take over from it (this request is then ignored)
+    replaceable?: boolean;
+
+    // Whether this request takes over from the current request, if that one is replaceable
+    // (only framework integrations take over, transactions started by a handler are recorded separately)
+    replacesCurrent?: boolean;
+
     onStop?: () => Promise<void>;
 }
 
@@ -53,6 +57,7 @@ export default class ScoutRequest implements ChildSpannable, Taggable, Stoppable
     private tags: { [key: string]: JSONValue | JSONValue[] } = {};
 
     private ignored: boolean = false;
+    private replaceable: boolean = false;
 
     private onStop: () => Promise<void>;
 
@@ -69,6 +74,7 @@ export default class ScoutRequest implements ChildSpannable, Taggable, Stoppable
             if (opts.started) { this.started = opts.started; }
 
             if (typeof opts.ignored === "boolean") { this.ignored = opts.ignored; }
+            if (opts.replaceable) { this.replaceable = opts.replaceable; }
 
             if (opts.onStop) { this.onStop = opts.onStop; }
 
@@ -94,6 +100,10 @@ export default class ScoutRequest implements ChildSpannable, Taggable, Stoppable
         return this.ignored;
     }
 
+    public isReplaceable(): boolean {
+        return this.replaceable;
+    }
+
     // Set a request as ignored
     public ignore(): this {
         this.addContextSync(ScoutContextName.IgnoreTransaction, true);
@@ -281,16 +291,8 @@ export default class ScoutRequest implements ChildSpannable, Taggable, Stoppable
             return Promise.resolve(this);
         }
 
-        this.sending = sendStartRequest(inst, this)
-        // Send all the child spans
-            .then(() => Promise.all(this.childSpans.map(s => s.send())))
-        // Send tags
-            .then(() => Promise.all(
-                Object.entries(this.tags)
-                    .map(([name, value]) => sendTagRequest(inst, this, name, value)),
-            ))
-        // End the span
-            .then(() => sendStopRequest(inst, this))
+        // Send the request, it's spans and all of their tags in one message
+        this.sending = sendRequestBatch(inst, this)
             .then(() => this.sent = true)
             .then(() => this)
             .catch(err => {
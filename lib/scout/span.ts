@@ -15,6 +15,7 @@ import {
     ScoutTag,
     JSONValue,
     ScoutStackFrame,
+    processStackFrames,
 } from "../types";
 
 import {
@@ -112,11 +113,11 @@ export default class ScoutSpan implements ChildSpannable, Taggable, Stoppable, S
     }
 
     public pushTraceFrames(frames: StackFrame[]) {
-        this.traceFrames = this.traceFrames.concat(this.processStackFrames(frames));
+        this.traceFrames = this.traceFrames.concat(processStackFrames(frames));
     }
 
     public prependTraceFrames(frames: StackFrame[]) {
-        this.traceFrames = this.processStackFrames(frames).concat(this.traceFrames);
+        this.traceFrames = processStackFrames(frames).concat(this.traceFrames);
     }
 
     // Get the start of this span
@@ -353,27 +354,5 @@ export default class ScoutSpan implements ChildSpannable, Taggable, Stoppable, S
         return this.sending;
     }
 
-    /**
-     * Convert StackTraces as generated by stacktrace-js into Scout's expected format
-     *
-     * @param {StackFrame[]} frames - stack frames from stacktrace-js
-     * @returns {ScoutStackTrace[]} the scout format for stack frames
-     */
-    private processStackFrames(frames: StackFrame[]): ScoutStackFrame[] {
-        if (!frames || !(frames instanceof Array) || frames.length === 0) { return []; }
-
-        return frames
-        // Filter out scout_apm_node related traces
-            .filter(f => !f.fileName || !f.fileName.includes("node_modules/@scout_apm/scout-apm"))
-        // Filter out node internals
-            .filter(f => !f.fileName || !f.fileName.startsWith("internal/modules/"))
-        // Simplify the traces
-            .map(f => ({
-                line: f.lineNumber,
-                file: f.fileName,
-                function: f.functionName || "<anonymous>",
-            }));
-    }
-
     private logFn: LogFn = () => undefined;
 }
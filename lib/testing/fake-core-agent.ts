@@ -0,0 +1,262 @@
+import { EventEmitter } from "events";
+import * as net from "net";
+import { AddressInfo } from "net";
+import { remove } from "fs-extra";
+
+import * as Errors from "../errors";
+import * as Constants from "../constants";
+import { ScoutConfiguration, splitAgentResponses } from "../types";
+import { RecordedCommand, RecordedTransaction, buildTransactions } from "./transactions";
+
+export enum FakeCoreAgentEvent {
+    CommandReceived = "fake-core-agent-command-received",
+}
+
+export interface FakeCoreAgentOptions {
+    // Path of a unix socket to listen on (a TCP socket is used if not provided)
+    socketPath?: string;
+
+    // Host & port for the TCP socket (by default, a random port on localhost is used)
+    host?: string;
+    port?: number;
+}
+
+const DEFAULT_WAIT_FOR_TRANSACTION_TIMEOUT_MS = 5000;
+
+/**
+ * A stand-in for core-agent, which records the commands it receives and answers them successfully
+ *
+ * @class
+ */
+export class FakeCoreAgent extends EventEmitter {
+    private readonly opts: FakeCoreAgentOptions;
+
+    private server: net.Server | null = null;
+    private sockets: net.Socket[] = [];
+    private commands: RecordedCommand[] = [];
+
+    constructor(opts?: FakeCoreAgentOptions) {
+        super();
+        this.opts = opts || {};
+    }
+
+    /**
+     * Start listening for connections
+     *
+     * @returns {Promise<this>} A promise that resolves to the fake core-agent once it is listening
+     */
+    public start(): Promise<this> {
+        if (this.server) { return Promise.resolve(this); }
+
+        const server = net.createServer(socket => this.handleConnection(socket));
+        this.server = server;
+
+        // Remove socket files left over from previous runs
+        const cleanup = this.opts.socketPath ? remove(this.opts.socketPath) : Promise.resolve();
+
+        return cleanup
+            .then(() => new Promise((resolve, reject) => {
+                server.once("error", reject);
+
+                const onListening = () => {
+                    server.removeListener("error", reject);
+                    resolve();
+                };
+
+                if (this.opts.socketPath) {
+                    server.listen(this.opts.socketPath, onListening);
+                    return;
+                }
+
+                const host = this.opts.host || Constants.CORE_AGENT_TCP_DEFAULT_HOST;
+                server.listen(this.opts.port || 0, host, onListening);
+            }))
+            .then(() => this);
+    }
+
+    /**
+     * Stop listening, disconnecting all clients
+     *
+     * @returns {Promise<void>} A promise that resolves once the server is closed
+     */
+    public stop(): Promise<void> {
+        const server = this.server;
+        if (!server) { return Promise.resolve(); }
+
+        this.server = null;
+        this.sockets.forEach(s => s.destroy());
+        this.sockets = [];
+
+        return new Promise(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Get the socket path of the fake core-agent, in the format of the `socketPath` configuration value
+     *
+     * @returns {string} the socket path
+     */
+    public getSocketPath(): string {
+        if (!this.server) { throw new Errors.UnexpectedError("Fake core-agent has not been started"); }
+
+        if (this.opts.socketPath) { return this.opts.socketPath; }
+
+        const {address, port} = this.server.address() as AddressInfo;
+        return `tcp://${address}:${port}`;
+    }
+
+    /**
+     * Get the configuration that will make scout send to the fake core-agent
+     *
+     * @returns {Partial<ScoutConfiguration>} configuration to merge into the scout configuration
+     */
+    public getScoutConfiguration(): Partial<ScoutConfiguration> {
+        return {
+            coreAgentLaunch: false,
+            monitor: true,
+            socketPath: this.getSocketPath(),
+        };
+    }
+
+    /**
+     * Get the commands received so far (with batches expanded into the commands they contain)
+     *
+     * @param {string} [name] - only return commands with this name (ex. "StartSpan")
+     * @returns {RecordedCommand[]} the commands, in the order they were received
+     */
+    public getCommands(name?: string): RecordedCommand[] {
+        if (!name) { return this.commands.slice(); }
+
+        return this.commands.filter(c => name in c);
+    }
+
+    /**
+     * Get the transactions reported so far
+     *
+     * @returns {RecordedTransaction[]} the transactions, in the order they were started
+     */
+    public getTransactions(): RecordedTransaction[] {
+        return buildTransactions(this.commands);
+    }
+
+    /**
+     * Expect a finished transaction with a given name (ex. "Controller/GET /users") to have been reported
+     *
+     * @param {string} name
+     * @returns {RecordedTransaction} the (most recent) matching transaction
+     * @throws {ExpectationFailed} if there is no such transaction
+     */
+    public expectTransaction(name: string): RecordedTransaction {
+        const transactions = this.getTransactions();
+        const found = this.findTransaction(transactions, name);
+        if (!found) {
+            const names = transactions.map(t => `${t.name}${t.finished ? "" : " (unfinished)"}`);
+            throw new Errors.ExpectationFailed(
+                `Expected a finished transaction [${name}], received: [${names.join(", ")}]`,
+            );
+        }
+
+        return found;
+    }
+
+    /**
+     * Wait for a finished transaction with a given name to be reported
+     *
+     * @param {string} name
+     * @param {number} [timeoutMs]
+     * @returns {Promise<RecordedTransaction>} A promise that resolves to the matching transaction
+     */
+    public waitForTransaction(
+        name: string,
+        timeoutMs: number = DEFAULT_WAIT_FOR_TRANSACTION_TIMEOUT_MS,
+    ): Promise<RecordedTransaction> {
+        const existing = this.findTransaction(this.getTransactions(), name);
+        if (existing) { return Promise.resolve(existing); }
+
+        return new Promise((resolve, reject) => {
+            const listener = () => {
+                const found = this.findTransaction(this.getTransactions(), name);
+                if (!found) { return; }
+
+                clearTimeout(timer);
+                this.removeListener(FakeCoreAgentEvent.CommandReceived, listener);
+                resolve(found);
+            };
+
+            const timer = setTimeout(() => {
+                this.removeListener(FakeCoreAgentEvent.CommandReceived, listener);
+
+                try {
+                    resolve(this.expectTransaction(name));
+                } catch (err) {
+                    reject(err);
+                }
+            }, timeoutMs);
+
+            this.on(FakeCoreAgentEvent.CommandReceived, listener);
+        });
+    }
+
+    /**
+     * Forget all the commands that have been received
+     */
+    public clear() {
+        this.commands = [];
+    }
+
+    private findTransaction(transactions: RecordedTransaction[], name: string): RecordedTransaction | null {
+        const matching = transactions.filter(t => t.finished && t.name === name);
+        return matching.length > 0 ? matching[matching.length - 1] : null;
+    }
+
+    // Read framed messages from a connected client
+    private handleConnection(socket: net.Socket) {
+        this.sockets.push(socket);
+
+        let chunks = Buffer.from([]);
+
+        socket.on("data", (data: Buffer) => {
+            const {framed, remaining} = splitAgentResponses(Buffer.concat([chunks, data]));
+            chunks = remaining;
+
+            framed.forEach(msg => this.handleMessage(socket, msg));
+        });
+
+        socket.on("error", () => socket.destroy());
+        socket.on("close", () => {
+            this.sockets = this.sockets.filter(s => s !== socket);
+        });
+    }
+
+    // Record a framed message and answer it the way core-agent would
+    private handleMessage(socket: net.Socket, msg: Buffer) {
+        let json: RecordedCommand;
+        try {
+            json = JSON.parse(msg.toString("utf8", 4));
+        } catch {
+            this.writeResponse(socket, {Failure: {message: "Invalid JSON"}});
+            return;
+        }
+
+        const [name] = Object.keys(json);
+        const commands = name === "BatchCommand" ? json.BatchCommand.commands : [json];
+        commands.forEach(c => {
+            this.commands.push(c);
+            this.emit(FakeCoreAgentEvent.CommandReceived, c);
+        });
+
+        const inner: any = {result: "Success"};
+        if (name === "CoreAgentVersion") { inner.version = Constants.DEFAULT_CORE_AGENT_VERSION; }
+
+        this.writeResponse(socket, {[name]: inner});
+    }
+
+    private writeResponse(socket: net.Socket, json: object) {
+        const payload = Buffer.from(JSON.stringify(json), "utf8");
+        const length = Buffer.allocUnsafe(4);
+        length.writeUInt32BE(payload.length, 0);
+
+        if (!socket.destroyed) { socket.write(Buffer.concat([length, payload])); }
+    }
+}
+
+export default FakeCoreAgent;
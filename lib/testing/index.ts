@@ -0,0 +1,2 @@
+export * from "./fake-core-agent";
+export * from "./transactions";
@@ -0,0 +1,288 @@
+import * as Errors from "../errors";
+
+// Raw JSON of a command received by a (fake) core-agent, ex. {StartSpan: {...}}
+export interface RecordedCommand {
+    [name: string]: any;
+}
+
+export interface RecordedTags {
+    [name: string]: any;
+}
+
+// Expected shape of a span tree, either an operation or an operation with its expected children
+export type SpanTreeShape = string | {operation: string, children?: SpanTreeShape[]};
+
+/**
+ * A span that was reported to a (fake) core-agent
+ *
+ * @class
+ */
+export class RecordedSpan {
+    public readonly id: string;
+    public readonly operation: string;
+    public readonly parentId?: string;
+    public readonly tags: RecordedTags = {};
+    public readonly children: RecordedSpan[] = [];
+    public stopped: boolean = false;
+
+    constructor(id: string, operation: string, parentId?: string) {
+        this.id = id;
+        this.operation = operation;
+        this.parentId = parentId;
+    }
+
+    /**
+     * Find a span with a given operation among the descendants of this span (depth-first)
+     *
+     * @param {string} operation
+     * @returns {RecordedSpan | null} the span, if one was found
+     */
+    public findSpan(operation: string): RecordedSpan | null {
+        return findSpan(this.children, operation);
+    }
+
+    /**
+     * Expect a span with a given operation to be a descendant of this span
+     *
+     * @param {string} operation
+     * @returns {RecordedSpan} the span
+     * @throws {ExpectationFailed} if there is no such span
+     */
+    public expectSpan(operation: string): RecordedSpan {
+        const span = this.findSpan(operation);
+        if (!span) {
+            throw new Errors.ExpectationFailed(
+                `Expected a span [${operation}] under [${this.operation}], spans:\n${renderSpanTree(this.children)}`,
+            );
+        }
+
+        return span;
+    }
+
+    /**
+     * Expect the children of this span to match a given shape
+     *
+     * @param {SpanTreeShape[]} shape
+     * @throws {ExpectationFailed} if the children do not match
+     */
+    public expectSpanTree(shape: SpanTreeShape[]) {
+        expectSpanTree(this.children, shape);
+    }
+
+    /**
+     * Expect this span to have a tag (with a given value, if provided)
+     *
+     * @param {string} name
+     * @param {any} [value]
+     * @throws {ExpectationFailed} if the tag is missing or has a different value
+     */
+    public expectTag(name: string, value?: any) {
+        expectTag(`span [${this.operation}]`, this.tags, name, value);
+    }
+}
+
+/**
+ * A request (transaction) that was reported to a (fake) core-agent
+ *
+ * @class
+ */
+export class RecordedTransaction {
+    public readonly id: string;
+    public readonly tags: RecordedTags = {};
+    public readonly spans: RecordedSpan[] = [];
+    public finished: boolean = false;
+
+    constructor(id: string) {
+        this.id = id;
+    }
+
+    /**
+     * The name of a transaction is the operation of its first top level span (ex. "Controller/GET /users")
+     *
+     * @returns {string | undefined} the name of the transaction
+     */
+    get name(): string | undefined {
+        return this.spans.length > 0 ? this.spans[0].operation : undefined;
+    }
+
+    /**
+     * Find a span with a given operation in the transaction (depth-first)
+     *
+     * @param {string} operation
+     * @returns {RecordedSpan | null} the span, if one was found
+     */
+    public findSpan(operation: string): RecordedSpan | null {
+        return findSpan(this.spans, operation);
+    }
+
+    /**
+     * Expect a span with a given operation to be part of the transaction
+     *
+     * @param {string} operation
+     * @returns {RecordedSpan} the span
+     * @throws {ExpectationFailed} if there is no such span
+     */
+    public expectSpan(operation: string): RecordedSpan {
+        const span = this.findSpan(operation);
+        if (!span) {
+            throw new Errors.ExpectationFailed(
+                `Expected a span [${operation}] in transaction [${this.name}], spans:\n${renderSpanTree(this.spans)}`,
+            );
+        }
+
+        return span;
+    }
+
+    /**
+     * Expect the top level spans of the transaction to match a given shape
+     *
+     * @param {SpanTreeShape[]} shape
+     * @throws {ExpectationFailed} if the spans do not match
+     */
+    public expectSpanTree(shape: SpanTreeShape[]) {
+        expectSpanTree(this.spans, shape);
+    }
+
+    /**
+     * Expect the transaction to have a tag (with a given value, if provided)
+     *
+     * @param {string} name
+     * @param {any} [value]
+     * @throws {ExpectationFailed} if the tag is missing or has a different value
+     */
+    public expectTag(name: string, value?: any) {
+        expectTag(`transaction [${this.name}]`, this.tags, name, value);
+    }
+}
+
+/**
+ * Build the transactions (with their span trees) that were reported with a list of commands
+ *
+ * @param {RecordedCommand[]} commands - commands in the order they were received (batches expanded)
+ * @returns {RecordedTransaction[]} transactions in the order they were started
+ */
+export function buildTransactions(commands: RecordedCommand[]): RecordedTransaction[] {
+    const transactions = new Map<string, RecordedTransaction>();
+    const spans = new Map<string, RecordedSpan>();
+
+    commands.forEach(cmd => {
+        const [name] = Object.keys(cmd);
+        const body = cmd[name] || {};
+
+        if (name === "StartRequest") {
+            transactions.set(body.request_id, new RecordedTransaction(body.request_id));
+            return;
+        }
+
+        const transaction = transactions.get(body.request_id);
+        if (!transaction) { return; }
+
+        switch (name) {
+            case "TagRequest":
+                transaction.tags[body.tag] = body.value;
+                break;
+
+            case "FinishRequest":
+                transaction.finished = true;
+                break;
+
+            case "StartSpan":
+                const span = new RecordedSpan(body.span_id, body.operation, body.parent_id || undefined);
+                spans.set(span.id, span);
+
+                const parent = span.parentId ? spans.get(span.parentId) : undefined;
+                if (parent) {
+                    parent.children.push(span);
+                } else {
+                    transaction.spans.push(span);
+                }
+                break;
+
+            case "TagSpan":
+                const tagged = spans.get(body.span_id);
+                if (tagged) { tagged.tags[body.tag] = body.value; }
+                break;
+
+            case "StopSpan":
+                const stopped = spans.get(body.span_id);
+                if (stopped) { stopped.stopped = true; }
+                break;
+        }
+    });
+
+    return Array.from(transactions.values());
+}
+
+/**
+ * Render a span tree as indented text (used in failed expectation messages)
+ *
+ * @param {RecordedSpan[]} spans
+ * @param {number} [depth]
+ * @returns {string} the rendered tree
+ */
+export function renderSpanTree(spans: RecordedSpan[], depth: number = 0): string {
+    if (spans.length === 0 && depth === 0) { return "  (none)"; }
+
+    return spans
+        .map(s => [`${"  ".repeat(depth + 1)}${s.operation}`, renderSpanTree(s.children, depth + 1)])
+        .reduce((acc, lines) => acc.concat(lines), [])
+        .filter(line => line.length > 0)
+        .join("\n");
+}
+
+function findSpan(spans: RecordedSpan[], operation: string): RecordedSpan | null {
+    for (const span of spans) {
+        if (span.operation === operation) { return span; }
+
+        const found = findSpan(span.children, operation);
+        if (found) { return found; }
+    }
+
+    return null;
+}
+
+// Check whether spans match a shape (children are only checked when the shape lists them)
+function matchesSpanTree(spans: RecordedSpan[], shape: SpanTreeShape[]): boolean {
+    if (spans.length !== shape.length) { return false; }
+
+    return shape.every((expected, idx) => {
+        const span = spans[idx];
+        if (typeof expected === "string") { return span.operation === expected; }
+
+        if (span.operation !== expected.operation) { return false; }
+
+        return !expected.children || matchesSpanTree(span.children, expected.children);
+    });
+}
+
+function renderShape(shape: SpanTreeShape[], depth: number = 0): string {
+    return shape
+        .map(s => typeof s === "string"
+             ? `${"  ".repeat(depth + 1)}${s}`
+             : [`${"  ".repeat(depth + 1)}${s.operation}`, renderShape(s.children || [], depth + 1)]
+                .filter(line => line.length > 0)
+                .join("\n"))
+        .join("\n");
+}
+
+function expectSpanTree(spans: RecordedSpan[], shape: SpanTreeShape[]) {
+    if (matchesSpanTree(spans, shape)) { return; }
+
+    throw new Errors.ExpectationFailed(
+        `Span tree does not match\nexpected:\n${renderShape(shape)}\nactual:\n${renderSpanTree(spans)}`,
+    );
+}
+
+function expectTag(owner: string, tags: RecordedTags, name: string, value?: any) {
+    if (!(name in tags)) {
+        throw new Errors.ExpectationFailed(`Expected tag [${name}] on ${owner}, tags: ${JSON.stringify(tags)}`);
+    }
+
+    if (typeof value === "undefined") { return; }
+
+    if (JSON.stringify(tags[name]) !== JSON.stringify(value)) {
+        throw new Errors.ExpectationFailed(
+            `Expected tag [${name}] on ${owner} to be ${JSON.stringify(value)}, got ${JSON.stringify(tags[name])}`,
+        );
+    }
+}
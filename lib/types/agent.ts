@@ -169,7 +169,7 @@ export interface HashDigests {
     sha512?: string;
 }
 
-export type AgentOptions = ProcessOptions;
+export type AgentOptions = ProcessOptions | InMemoryAgentOptions | FileAgentOptions;
 
 export type ConnectionPoolOptions = Partial<GenericPoolOptions>;
 
@@ -253,6 +253,22 @@ export class ProcessOptions {
 
 }
 
+/**
+ * Options for agents that keep sent messages in memory
+ */
+export interface InMemoryAgentOptions {
+    // Maximum number of messages to keep, 1000 by default (the oldest are dropped first)
+    maxMessages?: number;
+}
+
+/**
+ * Options for agents that write sent messages to a file
+ */
+export interface FileAgentOptions {
+    // Path to the file that messages are appended to (as newline-delimited JSON)
+    filePath: string;
+}
+
 export interface AgentStatus {
     connected: boolean;
 }
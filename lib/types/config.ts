@@ -7,15 +7,17 @@ import { path as appRootPath } from "app-root-path";
 import * as semver from "semver";
 
 import {
+    AgentType,
     Architecture,
     ConfigSourceName,
+    ContextManagerType,
     LogLevel,
     Platform,
     URIReportingLevel,
     parseLogLevel,
 } from "./enum";
 import { AgentDownloadOptions } from "./downloader";
-import { LogFn, convertCamelCaseToEnvVar } from "./util";
+import { LogFn, convertCamelCaseToEnvVar, isAsyncLocalStorageSupported } from "./util";
 import { ProcessOptions } from "./agent";
 import { PlatformTriple } from "./enum";
 
@@ -207,6 +209,8 @@ export interface ScoutConfiguration {
     frameworkVersion: string;
 
     // Agent
+    agentType: AgentType;
+    agentFilePath: string; // file that messages are written to when agentType is "file"
     apiVersion: string;
     downloadUrl: string;
 
@@ -223,9 +227,20 @@ export interface ScoutConfiguration {
     // Trace controls
     ignore: string[]; // ignored route prefixes
     collectRemoteIP: boolean;
+    trustedProxies: string[]; // CIDRs of proxies whose forwarding headers are trusted
     uriReporting: URIReportingLevel;
+    propagateTraceContext: boolean; // W3C traceparent/tracestate headers on inbound & outbound HTTP requests
+    httpSpansWaitForBody: boolean; // outbound HTTP spans stop once the response body has been read
+    httpServerTransactions: boolean; // transactions for requests to http.Server instances (without a framework)
+    httpServerRoutes: string[]; // route templates (ex. "/users/:id") request paths are normalized to
+
+    // Error monitoring
+    errorsEnabled: boolean;
+    errorsEndpoint: string; // errors are sent to the core-agent (as application events) when empty
+    errorsFilteredParams: string[]; // params filtered from reported errors, in addition to the common ones
 
     // Misc
+    contextManager: ContextManagerType;
     disabledInstruments: string[];
 
     // Derived
@@ -238,6 +253,14 @@ export const DEFAULT_SCOUT_CONFIGURATION: Partial<ScoutConfiguration> = {
     name: "",
     appServer: "",
 
+    agentFilePath: Constants.DEFAULT_AGENT_FILE_PATH,
+    agentType: AgentType.Process,
+
+    collectRemoteIP: true,
+    contextManager: isAsyncLocalStorageSupported()
+        ? ContextManagerType.AsyncLocalStorage
+        : ContextManagerType.ClsHooked,
+
     coreAgentDownload: true,
     coreAgentLaunch: true,
     coreAgentLogLevel: LogLevel.Error,
@@ -247,15 +270,26 @@ export const DEFAULT_SCOUT_CONFIGURATION: Partial<ScoutConfiguration> = {
     disabledInstruments: [],
     downloadUrl: "https://s3-us-west-1.amazonaws.com/scout-public-downloads/apm_core_agent/release",
 
+    errorsEnabled: true,
+    errorsEndpoint: "",
+    errorsFilteredParams: [],
+
     framework: "",
     frameworkVersion: "",
 
     hostname: null,
 
+    httpServerRoutes: [],
+    httpServerTransactions: false,
+    httpSpansWaitForBody: false,
+
     monitor: false,
 
+    propagateTraceContext: true,
+
     revisionSHA: process.env.HEROKU_SLUG_COMMIT || "",
     scmSubdirectory: "",
+    trustedProxies: Constants.DEFAULT_TRUSTED_PROXIES,
     uriReporting: URIReportingLevel.FilteredParams,
 
     // Application root should be the folder *containing* the node project
@@ -300,14 +334,22 @@ class DefaultConfigSource implements ConfigSource {
 
 // List of transformations to use on certain ENV variables to create appropriate JS objects
 const ENV_TRANSFORMS = {
+    SCOUT_COLLECT_REMOTE_IP: v => v.toLowerCase() === "true",
     SCOUT_CORE_AGENT_LOG_LEVEL: parseLogLevel,
     SCOUT_LOG_LEVEL: parseLogLevel,
     SCOUT_CORE_AGENT_DOWNLOAD: v => v.toLowerCase() === "true",
     SCOUT_CORE_AGENT_LAUNCH: v => v.toLowerCase() === "true",
     SCOUT_CORE_AGENT_PERMISSIONS: v => parseInt(v, 10),
     SCOUT_DISABLED_INSTRUMENTS: v => v.split(","),
+    SCOUT_ERRORS_ENABLED: v => v.toLowerCase() === "true",
+    SCOUT_ERRORS_FILTERED_PARAMS: v => v.split(","),
+    SCOUT_HTTP_SERVER_ROUTES: v => v.split(","),
+    SCOUT_HTTP_SERVER_TRANSACTIONS: v => v.toLowerCase() === "true",
+    SCOUT_HTTP_SPANS_WAIT_FOR_BODY: v => v.toLowerCase() === "true",
     SCOUT_IGNORE: v => v.split(","),
     SCOUT_MONITOR: v => v.toLowerCase() === "true",
+    SCOUT_PROPAGATE_TRACE_CONTEXT: v => v.toLowerCase() === "true",
+    SCOUT_TRUSTED_PROXIES: v => v.split(","),
 };
 
 /**
@@ -542,6 +584,7 @@ export function buildDownloadOptions(config: Partial<ScoutConfiguration>): Parti
         coreAgentDir: config.coreAgentDir,
         disallowDownload: !config.coreAgentDownload,
         downloadUrl: config.downloadUrl,
+        httpProxy: config.httpProxy,
     };
 }
 
@@ -0,0 +1,42 @@
+import { ContextManagerType } from "./enum";
+
+/**
+ * Context managers keep track of values (ex. the current request & span) across async boundaries
+ */
+export interface ContextManager {
+    // Type of the context manager
+    readonly type: ContextManagerType;
+
+    /**
+     * Run a function in a new context, which starts out with the values of the current context
+     *
+     * @param {Function} fn - the function to run
+     * @returns {T} the result of the function
+     */
+    run<T>(fn: () => T): T;
+
+    /**
+     * Bind a function to the current context, so it runs in that context wherever it is called from
+     *
+     * @param {Function} fn - the function to bind
+     * @returns {Function} the bound function
+     */
+    bind<T extends (...args: any[]) => any>(fn: T): T;
+
+    /**
+     * Get a value from the current context
+     *
+     * @param {string} key
+     * @returns {any} the value, if present
+     */
+    get(key: string): any;
+
+    /**
+     * Set a value in the current context
+     *
+     * @param {string} key
+     * @param {any} value
+     * @throws {NoActiveAsyncContext} if there is no current context
+     */
+    set(key: string, value: any): void;
+}
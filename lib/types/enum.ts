@@ -9,6 +9,13 @@ export enum URIReportingLevel {
 
 export enum AgentType {
     Process = "process",
+    InMemory = "in-memory",
+    File = "file",
+}
+
+export enum ContextManagerType {
+    AsyncLocalStorage = "async-local-storage",
+    ClsHooked = "cls-hooked",
 }
 
 export enum LogLevel {
@@ -21,6 +28,7 @@ export enum LogLevel {
 
 export enum ApplicationEventType {
     ScoutMetadata = "scout.metadata",
+    ErrorReport = "scout.errors",
 
     CPUUtilizationPercent = "CPU/Utilization",
     MemoryUsageMB = "Memory/Physical",
@@ -58,6 +66,8 @@ export enum AgentRequestType {
     V1TagSpan = "v1-tag-span",
 
     V1ApplicationEvent = "v1-application-event",
+
+    V1BatchCommand = "v1-batch-command",
 }
 
 export enum AgentResponseType {
@@ -75,6 +85,8 @@ export enum AgentResponseType {
 
     V1ApplicationEvent = "v1-application-event-response",
 
+    V1BatchCommand = "v1-batch-command-response",
+
     V1Failure = "v1-failure-response",
 }
 
@@ -131,26 +143,44 @@ export enum ScoutEvent {
     IgnoredRequestProcessingSkipped = "ignored-request-processing-skipped",
     UnknownRequestPathSkipped = "unknown-request-path-skipped",
     Shutdown = "scout-event-shutdown",
+    ErrorCaptured = "scout-event-error-captured",
+    ErrorsSent = "scout-event-errors-sent",
 }
 
 export enum ScoutContextName {
     Traceback = "stack",
     DBStatement = "db.statement",
+    DBCommands = "db.commands",
     Error = "error",
+    ErrorClass = "error.class",
+    ErrorMessage = "error.message",
+    HTTPStatusCode = "http.status_code",
+    HTTPMethod = "http.method",
+    HTTPHost = "http.host",
+    HTTPPort = "http.port",
+    HTTPResponseContentLength = "http.response_content_length",
     Name = "name",
     URL = "url",
     Path = "path",
     Timeout = "timeout",
     IgnoreTransaction = "ignore_transaction",
     QueueTimeNS = "scout.queue_time_ns",
+    RemoteIP = "remote_ip",
+    TraceId = "trace.id",
+    TraceParentId = "trace.parent_id",
+    TraceState = "trace.state",
 }
 
 export enum ScoutSpanOperation {
     SQLQuery = "SQL/Query",
+    MySQLConnectionAcquire = "MySQL/Connection/Acquire",
+    PGConnectionAcquire = "PostgreSQL/Connection/Acquire",
     TemplateRender = "Template/Render",
     HTTPGet = "HTTP/GET",
     HTTPPost = "HTTP/POST",
     HTTPDelete = "HTTP/DELETE",
     HTTPPut = "HTTP/PUT",
     HTTPPatch = "HTTP/PATCH",
+    MongoDB = "MongoDB",
+    Redis = "Redis",
 }
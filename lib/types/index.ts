@@ -1,6 +1,7 @@
 export * from "./config";
 export * from "./agent";
 export * from "./downloader";
+export * from "./context";
 export * from "./enum";
 export * from "./util";
 export * from "./express";
@@ -4,6 +4,7 @@ import { Scout } from "../scout";
 import { LogFn } from "./util";
 import * as Errors from "../errors";
 import { LogLevel } from "../types/enum";
+import { buildScoutConfiguration } from "../types/config";
 
 import { getActiveGlobalScoutInstance } from "../global";
 
@@ -60,6 +61,12 @@ export abstract class RequireIntegration {
                 return exports;
             }
 
+            // If the integration has been disabled, leave the package as it is
+            if (this.isDisabled()) {
+                this.logFn(`[scout/integrations] integration for package [${name}] is disabled`, LogLevel.Info);
+                return exports;
+            }
+
             const sym = getIntegrationSymbol();
 
             // Check if the shim has already been performed
@@ -107,15 +114,36 @@ export abstract class RequireIntegration {
         this.scoutInstance = scout;
     }
 
+    /**
+     * Check whether the integration has been disabled with the `disabledInstruments` configuration
+     * (if there's no scout instance yet, the configuration is built from the ENV & defaults)
+     *
+     * @returns {boolean} whether the integration is disabled
+     */
+    public isDisabled(): boolean {
+        const scout = this.scoutInstance || getActiveGlobalScoutInstance();
+        const config = scout ? scout.getConfig() : buildScoutConfiguration();
+
+        return (config.disabledInstruments || []).includes(this.getPackageName());
+    }
+
     /**
      * Custom getter for scout property
      * if a custom specific scout instance is provided, use that, if not use the default
      *
+     * Disabled integrations have no scout instance, so shims that were already
+     * performed pass everything straight through to the original package
+     *
      * @returns {Scout | null}
      */
     public get scout() {
-        if (this.scoutInstance) { return this.scoutInstance; }
-        return getActiveGlobalScoutInstance();
+        const scout = this.scoutInstance || getActiveGlobalScoutInstance();
+        if (!scout) { return null; }
+
+        const disabled = scout.getConfig().disabledInstruments || [];
+        if (disabled.includes(this.getPackageName())) { return null; }
+
+        return scout;
     }
 }
 
@@ -1,8 +1,16 @@
 import { LogLevel } from "./enum";
+import { IncomingHttpHeaders } from "http";
+import { isIPv4, isIPv6 } from "net";
+import { StackFrame } from "stacktrace-js";
 import { snakeCase } from "snake-case";
+import { pathToRegexp } from "path-to-regexp";
 import * as winston from "winston";
 import * as Constants from "../constants";
 
+const BigNumber = require("big-number");
+// AsyncLocalStorage is missing from the (older) node typings that are in use
+const { AsyncLocalStorage } = require("async_hooks");
+
 export interface LogFn {
     (message: string, level?: LogLevel): void;
 
@@ -171,6 +179,27 @@ export function scrubRequestPathParams(
     return `${pieces[0]}?${decodeURI(parsedParams.toString())}`;
 }
 
+/**
+ * Scrub the values of filtered parameters (at any depth) out of a params-like object (ex. a request body)
+ *
+ * @param {any} params
+ * @param {Object} lookup - A lookup dictionary of terms to scrub
+ * @returns {any} a scrubbed copy of the params
+ */
+export function scrubParams(params: any, lookup?: { [key: string]: boolean }): any {
+    lookup = lookup || Constants.DEFAULT_PARAM_FILTER_LOOKUP;
+
+    if (Array.isArray(params)) { return params.map(p => scrubParams(p, lookup)); }
+    if (params === null || typeof params !== "object") { return params; }
+
+    return Object.keys(params).reduce((acc, k) => {
+        acc[k] = lookup && k.toLowerCase() in lookup
+            ? Constants.DEFAULT_PARAM_SCRUB_REPLACEMENT
+            : scrubParams(params[k], lookup);
+        return acc;
+    }, {});
+}
+
 /**
  * Scrub a URL down to only it's path (removing all query parameters)
  * this function modifies the provided URL object in-place.
@@ -182,6 +211,258 @@ export function scrubRequestPath(path: string): string {
     return path.split("?")[0];
 }
 
+/**
+ * Scrub the values out of a (MongoDB) query document, leaving only it's structure
+ * (field names and operators) behind.
+ *
+ * @param {any} doc - the document (ex. a query filter) to scrub
+ * @returns {any} a scrubbed copy of the document
+ */
+export function scrubDocument(doc: any): any {
+    if (Array.isArray(doc)) { return doc.map(scrubDocument); }
+
+    // Anything that isn't a plain object (ex. strings, numbers, ObjectIds, Dates) is a value
+    const isPlainObject = doc !== null
+        && typeof doc === "object"
+        && [Object.prototype, null].includes(Object.getPrototypeOf(doc));
+    if (!isPlainObject) { return Constants.DEFAULT_DOCUMENT_SCRUB_REPLACEMENT; }
+
+    return Object.keys(doc).reduce((acc, k) => {
+        acc[k] = scrubDocument(doc[k]);
+        return acc;
+    }, {});
+}
+
+/**
+ * Parse a queue time in NS out of a HTTP header value
+ *
+ * @param {string} value - value of the header
+ * @return {BigNumber}
+ */
+export function parseQueueTimeNS(value: string): any {
+    if (!value) { return null; }
+
+    value = value.trim();
+    if (!value.startsWith("t=")) { return null; }
+
+    const parsed = new BigNumber(value.slice(2));
+    if (parsed.number === "Invalid Number") { return null; }
+
+    return parsed;
+}
+
+/**
+ * Parse an IP address into it's bytes (4 for IPv4, 16 for IPv6)
+ * IPv4-mapped IPv6 addresses (ex. "::ffff:127.0.0.1") are parsed as IPv4 addresses
+ *
+ * @param {string} ip
+ * @returns {number[] | null} the bytes of the address, or null if the address is invalid
+ */
+function parseIPAddressBytes(ip: string): number[] | null {
+    // Scoped IPv6 addresses (ex. "fe80::1%eth0") may carry a zone index
+    ip = ip.trim().split("%")[0];
+
+    if (isIPv4(ip)) { return ip.split(".").map(p => parseInt(p, 10)); }
+    if (!isIPv6(ip)) { return null; }
+
+    const halves = ip.split("::");
+    const head = halves[0] ? halves[0].split(":") : [];
+    const tail = halves.length > 1 && halves[1] ? halves[1].split(":") : [];
+
+    // An IPv4 address may be embedded in the last 32 bits (ex. "::ffff:10.0.0.1"), taking up two groups
+    const groups = halves.length > 1 ? tail : head;
+    const last = groups[groups.length - 1];
+    const embeddedV4 = last && last.includes(".") ? parseIPAddressBytes(groups.pop() as string) || [] : [];
+    const groupCount = head.length + tail.length + embeddedV4.length / 2;
+
+    const zeroes = halves.length > 1 ? new Array(8 - groupCount).fill("0") : [];
+    const bytes = head.concat(zeroes, tail).reduce((acc: number[], group) => {
+        const value = parseInt(group, 16);
+        acc.push(Math.floor(value / 256), value % 256);
+        return acc;
+    }, []).concat(embeddedV4);
+
+    const isV4Mapped = bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+    return isV4Mapped ? bytes.slice(12) : bytes;
+}
+
+/**
+ * Normalize an address from a forwarding header or socket, removing quotes, brackets and ports
+ * (ex. "\"[2001:db8::1]:4711\"" => "2001:db8::1", "10.0.0.1:8080" => "10.0.0.1")
+ *
+ * @param {string} address
+ * @returns {string | null} the normalized IP address, or null if the address is not an IP (ex. "unknown")
+ */
+function normalizeIPAddress(address: string): string | null {
+    let ip = address.trim().replace(/^"|"$/g, "");
+
+    const bracketed = ip.match(/^\[([^\]]+)\](:\d+)?$/);
+    if (bracketed) {
+        ip = bracketed[1];
+    } else if (/^[\d.]+:\d+$/.test(ip)) {
+        ip = ip.split(":")[0];
+    }
+
+    const bytes = parseIPAddressBytes(ip);
+    if (!bytes) { return null; }
+
+    // IPv4-mapped addresses are reported as plain IPv4 addresses
+    return bytes.length === 4 ? bytes.join(".") : ip;
+}
+
+/**
+ * Check whether an IP address is inside a given CIDR range (ex. "10.0.0.0/8")
+ *
+ * @param {string} ip
+ * @param {string} cidr - CIDR range, a plain address matches only itself
+ * @returns {boolean} whether the IP address is in the range
+ */
+export function isIPInCIDR(ip: string, cidr: string): boolean {
+    const [range, prefix] = cidr.trim().split("/");
+    const ipBytes = parseIPAddressBytes(ip);
+    const rangeBytes = parseIPAddressBytes(range);
+    if (!ipBytes || !rangeBytes || ipBytes.length !== rangeBytes.length) { return false; }
+
+    const bits = typeof prefix === "undefined" ? rangeBytes.length * 8 : parseInt(prefix, 10);
+    if (isNaN(bits)) { return false; }
+
+    // Compare the leading (prefix) bits of each byte
+    for (let i = 0; i < rangeBytes.length && bits > i * 8; i++) {
+        const divisor = Math.pow(2, 8 - Math.min(8, bits - i * 8));
+        if (Math.floor(ipBytes[i] / divisor) !== Math.floor(rangeBytes[i] / divisor)) { return false; }
+    }
+
+    return true;
+}
+
+/**
+ * Get the addresses listed in the forwarding headers of a request, in the order the hops were made
+ * (the client first), with the standard `Forwarded` header taking precedence over
+ * `X-Forwarded-For`, which takes precedence over `X-Real-IP`
+ *
+ * @param {IncomingHttpHeaders} headers
+ * @returns {string[]} the forwarded addresses
+ */
+function getForwardedAddresses(headers: IncomingHttpHeaders): string[] {
+    const getHeader = (name: string) => {
+        const value = headers[name];
+        return Array.isArray(value) ? value.join(",") : value;
+    };
+
+    const forwarded = getHeader("forwarded");
+    if (forwarded) {
+        // ex. "for=192.0.2.60;proto=http;by=203.0.113.43, for=\"[2001:db8:cafe::17]:4711\""
+        return forwarded
+            .split(",")
+            .map(element => element
+                .split(";")
+                .map(pair => pair.trim())
+                .find(pair => pair.toLowerCase().startsWith("for=")))
+            .filter((pair): pair is string => !!pair)
+            .map(pair => pair.slice(4));
+    }
+
+    const forwardedFor = getHeader("x-forwarded-for");
+    if (forwardedFor) { return forwardedFor.split(","); }
+
+    const realIP = getHeader("x-real-ip");
+    if (realIP) { return [realIP]; }
+
+    return [];
+}
+
+/**
+ * Resolve the remote IP of a request, using it's forwarding headers only when they were set by trusted proxies.
+ *
+ * Starting from the socket's address, hops are walked back (closest first) for as long as the address
+ * belongs to a trusted proxy -- the first untrusted address is the client.
+ *
+ * @param {IncomingHttpHeaders} headers - headers of the request
+ * @param {string} [socketAddress] - address of the connected socket
+ * @param {string[]} trustedProxies - CIDR ranges of trusted proxies
+ * @returns {string | null} the remote IP, or null if it could not be determined
+ */
+export function resolveRemoteIP(
+    headers: IncomingHttpHeaders,
+    socketAddress: string | undefined,
+    trustedProxies: string[],
+): string | null {
+    if (!socketAddress) { return null; }
+
+    let address = normalizeIPAddress(socketAddress);
+    const isTrusted = (ip: string) => trustedProxies.some(cidr => isIPInCIDR(ip, cidr));
+    const hops = getForwardedAddresses(headers).reverse();
+
+    for (const hop of hops) {
+        if (!address || !isTrusted(address)) { break; }
+
+        // Hops that are not IPs (ex. "unknown") end the chain at the proxy that reported them
+        const hopAddress = normalizeIPAddress(hop);
+        if (!hopAddress) { break; }
+
+        address = hopAddress;
+    }
+
+    return address;
+}
+
+/**
+ * Check whether a URL should bypass proxies, according to a NO_PROXY-style list
+ * (ex. "localhost,.internal.example.com,10.0.0.0/8,registry:8080", "*" bypasses all proxies)
+ *
+ * @param {string} url
+ * @param {string} [noProxy] - comma (or space) separated hosts, domains, ports and CIDR ranges
+ * @returns {boolean} whether the URL should be requested directly
+ */
+export function isProxyBypassed(url: string, noProxy?: string): boolean {
+    if (!noProxy) { return false; }
+
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    const port = parsed.port || (parsed.protocol === "https:" ? "443" : "80");
+
+    return noProxy
+        .split(/[\s,]+/)
+        .filter(entry => entry)
+        .some(entry => {
+            if (entry === "*") { return true; }
+            if (entry.includes("/")) { return isIPInCIDR(hostname, entry); }
+
+            // Entries may carry a port (ex. "example.com:8080", "[::1]:8080")
+            let entryHost = entry.toLowerCase();
+            let entryPort: string | undefined;
+            const withPort = entryHost.match(/^\[([^\]]+)\](?::(\d+))?$/) || entryHost.match(/^([^:]+):(\d+)$/);
+            if (withPort) { [, entryHost, entryPort] = withPort; }
+
+            if (entryPort && entryPort !== port) { return false; }
+
+            // Domains match themselves and their subdomains (ex. ".example.com" & "*.example.com")
+            const domain = entryHost.replace(/^\*?\./, "");
+            return hostname === domain || hostname.endsWith(`.${domain}`);
+        });
+}
+
+/**
+ * Get the proxy that should be used to request a given URL, with an explicitly configured proxy
+ * taking precedence over the HTTPS_PROXY/HTTP_PROXY ENV variables (NO_PROXY applies to both)
+ *
+ * @param {string} url
+ * @param {string} [httpProxy] - explicitly configured proxy
+ * @param {Object} [env] - the ENV to read proxy variables from
+ * @returns {string | null} the proxy URL to use, or null if the URL should be requested directly
+ */
+export function getProxyForURL(url: string, httpProxy?: string, env: NodeJS.ProcessEnv = process.env): string | null {
+    if (isProxyBypassed(url, env.NO_PROXY || env.no_proxy)) { return null; }
+    if (httpProxy) { return httpProxy; }
+
+    const httpEnvProxy = env.HTTP_PROXY || env.http_proxy;
+    if (url.toLowerCase().startsWith("https:")) {
+        return env.HTTPS_PROXY || env.https_proxy || httpEnvProxy || null;
+    }
+
+    return httpEnvProxy || null;
+}
+
 export interface Stoppable {
     stop(): Promise<this>;
 
@@ -199,6 +480,139 @@ export interface ScoutTag {
     value: JSONValue | JSONValue[];
 }
 
+// A parsed W3C traceparent header (https://www.w3.org/TR/trace-context/#traceparent-header)
+export interface TraceParent {
+    version: string;
+    traceId: string;
+    parentId: string;
+    flags: string;
+}
+
+const TRACEPARENT_RGX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a W3C traceparent header value
+ *
+ * @param {string | string[]} [value] - value of the header
+ * @returns {TraceParent | null} the parsed header, or null if it is missing or invalid
+ */
+export function parseTraceParent(value?: string | string[]): TraceParent | null {
+    if (Array.isArray(value)) { value = value[0]; }
+    if (!value) { return null; }
+
+    const match = TRACEPARENT_RGX.exec(value.trim());
+    if (!match) { return null; }
+
+    const [, version, traceId, parentId, flags, rest] = match;
+
+    // Version ff is invalid, and only versions after 00 may have more fields
+    if (version === "ff" || (version === "00" && rest)) { return null; }
+
+    // All-zero IDs are invalid
+    if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) { return null; }
+
+    return {version, traceId, parentId, flags};
+}
+
+/**
+ * Build a W3C traceparent header value
+ *
+ * @param {string} traceId - the ID of the trace (32 hex characters)
+ * @param {string} parentId - the ID of the calling span (16 hex characters)
+ * @returns {string} the header value
+ */
+export function buildTraceParent(traceId: string, parentId: string): string {
+    return `00-${traceId}-${parentId}-01`;
+}
+
+/**
+ * Build a W3C tracestate header value, with scout's entry first (followed by the other vendors' entries)
+ *
+ * @param {string} parentId - the ID of the calling span (16 hex characters)
+ * @param {string} [inbound] - the tracestate that was received, if any
+ * @returns {string} the header value
+ */
+export function buildTraceState(parentId: string, inbound?: string): string {
+    const others = (inbound || "")
+        .split(",")
+        .map(e => e.trim())
+        .filter(e => e && !e.startsWith(`${Constants.TRACESTATE_VENDOR_KEY}=`));
+
+    return [`${Constants.TRACESTATE_VENDOR_KEY}=${parentId}`]
+        .concat(others)
+        .slice(0, Constants.TRACESTATE_MAX_ENTRIES)
+        .join(",");
+}
+
+/**
+ * Convert a scout ID (ex. "req-<uuid>") to a trace context ID (hex, of the given length)
+ *
+ * @param {string} id - the scout request/span ID
+ * @param {number} length - the length of the trace context ID (32 for traces, 16 for spans)
+ * @returns {string} the trace context ID
+ */
+export function toTraceContextId(id: string, length: number): string {
+    const hex = id.slice(id.indexOf("-") + 1).replace(/[^0-9a-f]/gi, "").toLowerCase();
+    return `${hex}${"0".repeat(length)}`.slice(0, length);
+}
+
+// Path segments that identify a record (numbers, UUIDs, long hex strings)
+const RECORD_ID_SEGMENT_RGX = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/**
+ * Build a function that normalizes request paths into route names, so requests to the same route are grouped
+ * (paths matching one of the routes are named after it, record IDs in other paths are replaced with ":id")
+ *
+ * @param {string[]} [routes] - route templates (ex. "/users/:id"), checked in order
+ * @returns {Function} a function that normalizes a path (without query string)
+ */
+export function buildRoutePathNormalizer(routes: string[] = []): (path: string) => string {
+    const matchers = routes.map(route => ({route, regex: pathToRegexp(route)}));
+
+    return (path: string) => {
+        const match = matchers.find(m => m.regex.test(path));
+        if (match) { return match.route; }
+
+        return path
+            .split("/")
+            .map(segment => RECORD_ID_SEGMENT_RGX.test(segment) ? ":id" : segment)
+            .join("/");
+    };
+}
+
+/**
+ * Check whether AsyncLocalStorage is available in the running version of NodeJS (12.17+)
+ *
+ * @returns {boolean} whether AsyncLocalStorage is available
+ */
+export function isAsyncLocalStorageSupported(): boolean {
+    return typeof AsyncLocalStorage === "function";
+}
+
+/**
+ * Check whether a value is a promise (or some other "thenable")
+ *
+ * @param {any} obj
+ * @returns {boolean} whether the value is thenable
+ */
+export function isThenable(obj: any): obj is PromiseLike<any> {
+    return !!obj && (typeof obj === "object" || typeof obj === "function") && typeof obj.then === "function";
+}
+
+/**
+ * Get the name of the class of an error (ex. "TypeError")
+ *
+ * @param {any} err
+ * @returns {string} the class name of the error
+ */
+export function getErrorClassName(err: any): string {
+    if (err && err.constructor && err.constructor.name && err.constructor.name !== "Object") {
+        return err.constructor.name;
+    }
+
+    return (err && err.name) || "Error";
+}
+
 export function isScoutTag(obj: any): obj is ScoutTag {
     return obj && "name" in obj && "value" in obj;
 }
@@ -216,12 +630,58 @@ export interface Taggable {
     getContextValue(name: string): JSONValue | JSONValue[] | undefined;
 }
 
+// A finished span, as it is sent to the agent
+export interface SendableSpan {
+    readonly id: string;
+    readonly requestId: string;
+    readonly parentId?: string;
+    readonly operation: string;
+
+    getTimestamp(): Date;
+    getEndTime(): Date;
+    getTags(): ScoutTag[];
+    getChildSpansSync(): SendableSpan[];
+    isIgnored(): boolean;
+}
+
+// A finished request, as it is sent to the agent
+export interface SendableRequest {
+    readonly id: string;
+
+    getTimestamp(): Date;
+    getEndTime(): Date;
+    getTags(): ScoutTag[];
+    getChildSpansSync(): SendableSpan[];
+}
+
 export interface ScoutStackFrame {
     line?: number;
     file?: string;
     function?: string;
 }
 
+/**
+ * Convert StackTraces as generated by stacktrace-js into Scout's expected format
+ *
+ * @param {StackFrame[]} frames - stack frames from stacktrace-js
+ * @returns {ScoutStackTrace[]} the scout format for stack frames
+ */
+export function processStackFrames(frames: StackFrame[]): ScoutStackFrame[] {
+    if (!frames || !(frames instanceof Array) || frames.length === 0) { return []; }
+
+    return frames
+    // Filter out scout_apm_node related traces
+        .filter(f => !f.fileName || !f.fileName.includes("node_modules/@scout_apm/scout-apm"))
+    // Filter out node internals
+        .filter(f => !f.fileName || !f.fileName.startsWith("internal/modules/"))
+    // Simplify the traces
+        .map(f => ({
+            line: f.lineNumber,
+            file: f.fileName,
+            function: f.functionName || "<anonymous>",
+        }));
+}
+
 export function waitMs(ms: number): Promise<void> {
     return new Promise(resolve => {
         setTimeout(() => {
@@ -342,6 +342,41 @@ test(`TagSpan works for leaf span (v${TestConstants.TEST_APP_VERSION})`, t => {
         .catch(err => TestUtil.cleanup(t, agent, err));
 });
 
+test(`BatchCommand message works (v${TestConstants.TEST_APP_VERSION})`, t => {
+    const appVersion = new CoreAgentVersion(TestConstants.TEST_APP_VERSION);
+    let agent: ExternalProcessAgent;
+
+    // Ensure agent key is present (fed in from ENV)
+    if (!TEST_AGENT_KEY) { return t.end(new Error("TEST_AGENT_KEY ENV variable")); }
+
+    // Build a batch for a whole request
+    const reqStart = new Requests.V1StartRequest();
+    const spanStart = new Requests.V1StartSpan("test/batch-span", reqStart.requestId);
+    const batch = new Requests.V1BatchCommand([
+        reqStart,
+        spanStart,
+        new Requests.V1TagSpan("tag-span-test", "value", spanStart.spanId, spanStart.requestId),
+        new Requests.V1StopSpan(spanStart.spanId, spanStart.requestId),
+        new Requests.V1TagRequest("tag-request-test", "value", reqStart.requestId),
+        new Requests.V1FinishRequest(reqStart.requestId),
+    ]);
+
+    // Create the external process agent, with special function for building the proc opts with
+    TestUtil.bootstrapExternalProcessAgent(t, TestConstants.TEST_APP_VERSION)
+        .then(a => agent = a)
+    // Start the agent & connect to the local socket
+        .then(() => TestUtil.initializeAgent(t, agent, TestConstants.TEST_SCOUT_NAME, TEST_AGENT_KEY, appVersion))
+    // Send the whole request in one message
+        .then(() => agent.send(batch))
+        .then((resp: BaseAgentResponse) => {
+            t.equals(resp.type, AgentResponseType.V1BatchCommand, "type matches");
+            t.assert(resp.succeeded(), "batch-command succeeded");
+        })
+    // Cleanup the process & end test
+        .then(() => TestUtil.cleanup(t, agent))
+        .catch(err => TestUtil.cleanup(t, agent, err));
+});
+
 test(`ApplicationEvent for application metadata works (v${TestConstants.TEST_APP_VERSION})`, t => {
     const appVersion = new CoreAgentVersion(TestConstants.TEST_APP_VERSION);
     let agent: ExternalProcessAgent;
@@ -0,0 +1,69 @@
+import * as test from "tape";
+import * as path from "path";
+import * as tmp from "tmp-promise";
+import { readFile } from "fs-extra";
+
+import FileAgent from "../../lib/agents/file";
+import * as TestUtil from "../util";
+
+import { AgentResponseType, AgentType, APIVersion } from "../../lib/types";
+import * as Requests from "../../lib/protocol/v1/requests";
+
+test("file agent appends messages as newline-delimited JSON", t => {
+    let agent: FileAgent;
+    let filePath: string;
+
+    const register = new Requests.V1Register("app", "key", APIVersion.V1);
+    const startRequest = new Requests.V1StartRequest();
+
+    tmp.dir({prefix: "scout-file-agent-test", unsafeCleanup: true})
+        .then(result => {
+            // The directory of the file should be created on start
+            filePath = path.join(result.path, "nested", "messages.ndjson");
+            agent = new FileAgent({filePath});
+        })
+        .then(() => agent.start())
+        .then(() => agent.connect())
+        .then(() => agent.send(register))
+        .then((resp: any) => {
+            t.equals(resp.type, AgentResponseType.V1Register, "response type matches the request");
+            t.assert(resp.succeeded(), "response was successful");
+        })
+        .then(() => agent.sendAsync(startRequest))
+        .then(() => agent.disconnect())
+        .then(() => readFile(filePath, "utf8"))
+        .then(contents => {
+            const lines = contents.split("\n");
+            t.equals(lines.pop(), "", "file ends with a newline");
+            t.deepEquals(
+                lines.map(l => JSON.parse(l)),
+                JSON.parse(JSON.stringify([register.json, startRequest.json])),
+                "messages were written in order",
+            );
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("scout writes messages to the file configured by agentFilePath", t => {
+    let filePath: string;
+    let scout: any;
+
+    tmp.dir({prefix: "scout-file-agent-test", unsafeCleanup: true})
+        .then(result => {
+            filePath = path.join(result.path, "messages.ndjson");
+            scout = TestUtil.buildTestScoutInstance({agentType: AgentType.File, agentFilePath: filePath});
+        })
+        .then(() => scout.setup())
+        .then(() => t.equals(scout.getAgent().type(), AgentType.File, "scout is using the file agent"))
+        .then(() => scout.transaction("Controller/file", finishRequest => finishRequest()))
+        .then(() => scout.shutdown())
+        .then(() => readFile(filePath, "utf8"))
+        .then(contents => {
+            const messages = contents.trim().split("\n").map(l => JSON.parse(l));
+            t.assert(messages.some(m => "Register" in m), "registration was written");
+            t.assert(messages.some(m => "BatchCommand" in m), "request was written");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
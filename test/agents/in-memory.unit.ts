@@ -0,0 +1,130 @@
+import * as test from "tape";
+
+import * as Errors from "../../lib/errors";
+import InMemoryAgent from "../../lib/agents/in-memory";
+import * as TestUtil from "../util";
+
+import { Scout } from "../../lib/scout";
+import {
+    AgentEvent,
+    AgentRequestType,
+    AgentResponseType,
+    AgentType,
+    APIVersion,
+    BaseAgentResponse,
+    LogLevel,
+} from "../../lib/types";
+import * as Requests from "../../lib/protocol/v1/requests";
+import * as Constants from "../../lib/constants";
+
+test("in-memory agent records messages and answers with successful responses", t => {
+    const agent = new InMemoryAgent();
+    const sent: any[] = [];
+    agent.on(AgentEvent.RequestSent, msg => sent.push(msg));
+
+    const register = new Requests.V1Register("app", "key", APIVersion.V1);
+
+    agent.start()
+        .then(() => agent.connect())
+        .then(status => t.assert(status.connected, "agent is connected"))
+        .then(() => agent.send(register))
+        .then((resp: BaseAgentResponse) => {
+            t.equals(resp.type, AgentResponseType.V1Register, "response type matches the request");
+            t.assert(resp.succeeded(), "response was successful");
+        })
+        .then(() => agent.send(new Requests.V1GetVersionRequest()))
+        .then((resp: any) => t.assert(resp.version, "version response has a version"))
+        .then(() => {
+            t.equals(agent.type(), AgentType.InMemory, "agent type is in-memory");
+            t.deepEquals(agent.getMessages().map(m => m.type), [
+                AgentRequestType.V1Register,
+                AgentRequestType.V1GetVersion,
+            ], "messages were recorded in order");
+            t.equals(sent.length, 2, "request sent events were emitted");
+
+            agent.clearMessages();
+            t.equals(agent.getMessages().length, 0, "messages were cleared");
+        })
+        .then(() => agent.disconnect())
+        .then(() => agent.send(register))
+        .then(() => t.end(new Error("send() should fail after disconnect")))
+        .catch(err => {
+            t.assert(err instanceof Errors.Disconnected, "send() fails after disconnect");
+            t.end();
+        });
+});
+
+test("in-memory agent drops the oldest messages past maxMessages", t => {
+    const agent = new InMemoryAgent({maxMessages: 2});
+
+    agent.connect()
+        .then(() => agent.sendAsync(new Requests.V1StartRequest({requestId: "req-1"})))
+        .then(() => agent.sendAsync(new Requests.V1StartRequest({requestId: "req-2"})))
+        .then(() => agent.sendAsync(new Requests.V1StartRequest({requestId: "req-3"})))
+        .then(() => {
+            t.deepEquals(
+                agent.getMessages().map(m => (m as Requests.V1StartRequest).requestId),
+                ["req-2", "req-3"],
+                "only the newest messages were kept",
+            );
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("in-memory agent keeps a limited number of messages by default", t => {
+    const agent = new InMemoryAgent();
+    const requestIds = Array.from({length: Constants.DEFAULT_IN_MEMORY_AGENT_MAX_MESSAGES + 1}, (_, i) => `req-${i}`);
+
+    agent.connect()
+        .then(() => Promise.all(requestIds.map(requestId => agent.sendAsync(new Requests.V1StartRequest({requestId})))))
+        .then(() => {
+            const messages = agent.getMessages() as Requests.V1StartRequest[];
+            t.equals(messages.length, Constants.DEFAULT_IN_MEMORY_AGENT_MAX_MESSAGES, "messages were capped");
+            t.equals(messages[0].requestId, "req-1", "the oldest message was dropped");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("in-memory agent created by scout logs through scout", t => {
+    const logged: string[] = [];
+    const scout = TestUtil.buildTestScoutInstance(
+        {agentType: AgentType.InMemory, logLevel: LogLevel.Debug},
+        {logFn: message => logged.push(message)},
+    );
+
+    scout.setup()
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            return agent.sendAsync(new Requests.V1StartRequest({requestId: "req-1"}));
+        })
+        .then(() => t.assert(
+            logged.some(m => m.startsWith("[scout/in-memory] recording message")),
+            "agent messages were logged",
+        ))
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("scout sends finished requests to the in-memory agent", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    let agent: InMemoryAgent;
+
+    scout.setup()
+        .then(() => agent = scout.getAgent() as InMemoryAgent)
+        .then(() => t.equals(agent.type(), AgentType.InMemory, "scout is using the in-memory agent"))
+        .then(() => scout.transaction("Controller/in-memory", finishRequest => {
+            return scout.instrument("SQL/Query", finishSpan => finishSpan())
+                .then(() => finishRequest());
+        }))
+        .then(() => {
+            t.equals(agent.getCommands(AgentRequestType.V1Register).length, 1, "registration was sent");
+
+            const started = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            t.deepEquals(started.map(s => s.operation), ["SQL/Query"], "span was sent");
+            t.equals(agent.getCommands(AgentRequestType.V1FinishRequest).length, 1, "request was finished");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
@@ -0,0 +1,159 @@
+import * as test from "tape";
+
+import * as TestUtil from "./util";
+import InMemoryAgent from "../lib/agents/in-memory";
+
+import * as scoutAPI from "../lib";
+import { Scout } from "../lib/scout";
+import { AgentRequestType, AgentType, ScoutContextName } from "../lib/types";
+import * as Requests from "../lib/protocol/v1/requests";
+
+// Get the spans that were stopped, with whether they were marked as errored
+function stoppedSpans(agent: InMemoryAgent): Array<[string, boolean]> {
+    const started = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+    const errored = (agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[])
+        .filter(c => c.tagName === ScoutContextName.Error)
+        .map(c => c.spanId);
+
+    return (agent.getCommands(AgentRequestType.V1StopSpan) as Requests.V1StopSpan[])
+        .map(stop => {
+            const start = started.find(s => s.spanId === stop.spanId) as Requests.V1StartSpan;
+            return [start.operation, errored.includes(stop.spanId)] as [string, boolean];
+        });
+}
+
+let scout: Scout;
+let agent: InMemoryAgent;
+
+test("set up scout with an in-memory agent", t => {
+    scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    scout.setup()
+        .then(() => agent = scout.getAgent() as InMemoryAgent)
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("api.wrap instruments synchronous functions", t => {
+    agent.clearMessages();
+
+    const add = scoutAPI.api.wrap("Custom/add", (a: number, b: number) => a + b, scout);
+    const fail = scoutAPI.api.wrap("Custom/fail", () => { throw new Error("failed"); }, scout);
+
+    t.equals(add(1, 2), 3, "outside of a transaction the result is returned");
+
+    scout.transactionSync("Controller/sync", () => {
+        t.equals(add(1, 2), 3, "result is returned synchronously");
+        t.throws(() => fail(), /failed/, "thrown errors are re-thrown");
+    });
+
+    TestUtil.waitMs(10)
+        .then(() => t.deepEquals(
+            stoppedSpans(agent),
+            [["Custom/add", false], ["Custom/fail", true]],
+            "spans were stopped, the thrown error marked its span",
+        ))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("api.wrap instruments functions returning promises", t => {
+    agent.clearMessages();
+
+    const load = scoutAPI.api.wrap("Custom/load", (id: number) => TestUtil.waitMs(10).then(() => id), scout);
+    const reject = scoutAPI.api.wrap("Custom/reject", () => Promise.reject(new Error("rejected")), scout);
+
+    scout.transaction("Controller/async", finishTransaction => {
+        return load(1)
+            .then(id => t.equals(id, 1, "resolved value is returned"))
+            .then(() => reject())
+            .catch(err => t.equals(err.message, "rejected", "rejection is passed through"))
+            .then(() => finishTransaction());
+    })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(
+            stoppedSpans(agent),
+            [["Custom/load", false], ["Custom/reject", true]],
+            "spans were stopped once settled, the rejection marked its span",
+        ))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("api.wrap instruments functions taking node-style callbacks", t => {
+    agent.clearMessages();
+
+    const read = scoutAPI.api.wrap("Custom/read", (key: string, cb: (err: Error | null, v?: string) => void) => {
+        setTimeout(() => key === "missing" ? cb(new Error("not found")) : cb(null, `value-${key}`), 10);
+        return "pending";
+    }, scout);
+
+    scout.transaction("Controller/callback", finishTransaction => new Promise<void>(resolve => {
+        const returned = read("a", (err, value) => {
+            t.equals(value, "value-a", "callback received the value");
+
+            read("missing", err => {
+                t.equals(err && err.message, "not found", "callback received the error");
+                resolve();
+            });
+        });
+
+        t.equals(returned, "pending", "wrapped function's own return value is passed through");
+    }).then(() => finishTransaction()))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(
+            stoppedSpans(agent),
+            [["Custom/read", false], ["Custom/read", true]],
+            "spans were stopped when the callbacks were called, the error marked its span",
+        ))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("api.wrap stops the spans of functions that return a promise instead of calling their callback", t => {
+    agent.clearMessages();
+
+    const map = scoutAPI.api.wrap("Custom/map", (values: number[], fn: (v: number) => number) => {
+        return TestUtil.waitMs(10).then(() => values.map(fn));
+    }, scout);
+
+    scout.transaction("Controller/map", finishTransaction => {
+        return map([1, 2], v => v * 2)
+            .then(mapped => t.deepEquals(mapped, [2, 4], "resolved value is returned"))
+            .then(() => finishTransaction());
+    })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(stoppedSpans(agent), [["Custom/map", false]], "span was stopped once settled"))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("api.wrap leaves rejections that the caller doesn't handle unhandled", t => {
+    agent.clearMessages();
+
+    const reject = scoutAPI.api.wrap("Custom/reject", () => Promise.reject(new Error("unhandled")), scout);
+
+    const rejections: any[] = [];
+    const onUnhandledRejection = (reason: any) => rejections.push(reason);
+    process.on("unhandledRejection", onUnhandledRejection);
+
+    scout.transaction("Controller/unhandled", finishTransaction => {
+        reject();
+        return TestUtil.waitMs(10).then(() => finishTransaction());
+    })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+
+            t.deepEquals(rejections.map(reason => reason.message), ["unhandled"], "the rejection was not handled");
+            t.deepEquals(stoppedSpans(agent), [["Custom/reject", true]], "the rejection marked its span");
+        })
+        .then(() => t.end())
+        .catch(err => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+            t.end(err);
+        });
+});
+
+test("shut down scout", t => {
+    TestUtil.shutdownScout(t, scout);
+});
@@ -7,11 +7,13 @@ import { version as processVersion } from "process";
 import { get as getRootDir } from "app-root-dir";
 
 import {
+    AgentType,
     ScoutConfiguration,
     buildScoutConfiguration,
     ApplicationMetadata,
     LogLevel,
     CoreAgentVersion,
+    ContextManagerType,
     generateTriple,
     isLogLevel,
     parseLogLevel,
@@ -51,6 +53,14 @@ test("ScoutConfiguration overrides correctly for every config value", (t: Test)
       envValue: "/var/app/root",
       expectedValue: "/var/app/root"},
     );
+    testConfigurationOverlay(t, {appKey: "agentFilePath", envValue: "/tmp/m.ndjson", expectedValue: "/tmp/m.ndjson"});
+    testConfigurationOverlay(t, {appKey: "agentType", envValue: "in-memory", expectedValue: AgentType.InMemory});
+    testConfigurationOverlay(t, {appKey: "collectRemoteIP", envValue: "false", expectedValue: false});
+    testConfigurationOverlay(t, {
+        appKey: "contextManager",
+        envValue: "cls-hooked",
+        expectedValue: ContextManagerType.ClsHooked,
+    });
     testConfigurationOverlay(t, {appKey: "coreAgentDir", envValue: "/tmp/dir", expectedValue: "/tmp/dir"});
     testConfigurationOverlay(t, {appKey: "coreAgentDownload", envValue: "true", expectedValue: true});
     testConfigurationOverlay(t, {appKey: "coreAgentLaunch", envValue: "false", expectedValue: false});
@@ -63,9 +73,27 @@ test("ScoutConfiguration overrides correctly for every config value", (t: Test)
         expectedValue: ["instrument_1", "instrument_2"],
     });
     testConfigurationOverlay(t, {appKey: "downloadUrl", envValue: "example.org", expectedValue: "example.org"});
+    testConfigurationOverlay(t, {appKey: "errorsEnabled", envValue: "false", expectedValue: false});
+    testConfigurationOverlay(t, {
+        appKey: "errorsEndpoint",
+        envValue: "https://errors.example.org",
+        expectedValue: "https://errors.example.org",
+    });
+    testConfigurationOverlay(t, {
+        appKey: "errorsFilteredParams",
+        envValue: "card_cvc,pin",
+        expectedValue: ["card_cvc", "pin"],
+    });
     testConfigurationOverlay(t, {appKey: "framework", envValue: "fw_value", expectedValue: "fw_value"});
     testConfigurationOverlay(t, {appKey: "frameworkversion", envValue: "v1", expectedValue: "v1"});
     testConfigurationOverlay(t, {appKey: "hostname", envValue: "test-hostname", expectedValue: "test-hostname"});
+    testConfigurationOverlay(t, {
+        appKey: "httpServerRoutes",
+        envValue: "/users/:id,/files/(.*)",
+        expectedValue: ["/users/:id", "/files/(.*)"],
+    });
+    testConfigurationOverlay(t, {appKey: "httpServerTransactions", envValue: "true", expectedValue: true});
+    testConfigurationOverlay(t, {appKey: "httpSpansWaitForBody", envValue: "true", expectedValue: true});
     testConfigurationOverlay(t, {
         appKey: "ignore",
         envValue: "/api/v1/example,/api/v1/test",
@@ -74,6 +102,7 @@ test("ScoutConfiguration overrides correctly for every config value", (t: Test)
     testConfigurationOverlay(t, {appKey: "key", envValue: "123456789", expectedValue: "123456789"});
     testConfigurationOverlay(t, {appKey: "logLevel", envValue: "warn", expectedValue: LogLevel.Warn});
     testConfigurationOverlay(t, {appKey: "monitor", envValue: "true", expectedValue: true});
+    testConfigurationOverlay(t, {appKey: "propagateTraceContext", envValue: "false", expectedValue: false});
     testConfigurationOverlay(t, {appKey: "revisionSha", envValue: "51ab8123", expectedValue: "51ab8123"});
     testConfigurationOverlay(t, {appKey: "scmSubdirectory", envValue: "/var/code", expectedValue: "/var/code"});
     testConfigurationOverlay(t, {
@@ -81,6 +110,11 @@ test("ScoutConfiguration overrides correctly for every config value", (t: Test)
         envValue: "/var/path/to/socket.sock",
         expectedValue: "/var/path/to/socket.sock",
     });
+    testConfigurationOverlay(t, {
+        appKey: "trustedProxies",
+        envValue: "10.0.0.0/8,2001:db8::/32",
+        expectedValue: ["10.0.0.0/8", "2001:db8::/32"],
+    });
 
     t.end();
 });
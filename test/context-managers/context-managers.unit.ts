@@ -0,0 +1,89 @@
+import * as test from "tape";
+
+import { ContextManager, ContextManagerType, waitMs } from "../../lib/types";
+import { AsyncLocalStorageContextManager } from "../../lib/context-managers/async-local-storage";
+import { ClsHookedContextManager } from "../../lib/context-managers/cls-hooked";
+import * as Errors from "../../lib/errors";
+
+const MANAGERS: Array<[ContextManagerType, () => ContextManager]> = [
+    [ContextManagerType.AsyncLocalStorage, () => new AsyncLocalStorageContextManager()],
+    [ContextManagerType.ClsHooked, () => new ClsHookedContextManager("scout-test")],
+];
+
+MANAGERS.forEach(([type, createManager]) => {
+    test(`[${type}] values are kept across await boundaries`, t => {
+        const manager = createManager();
+
+        manager.run(async () => {
+            manager.set("value", "outer");
+            await waitMs(10);
+            t.equals(manager.get("value"), "outer", "value is present after await");
+
+            await Promise.resolve();
+            t.equals(manager.get("value"), "outer", "value is present after a resolved promise");
+        })
+            .then(() => t.end())
+            .catch(t.end);
+    });
+
+    test(`[${type}] concurrent contexts do not see each other's values`, t => {
+        const manager = createManager();
+
+        const runWithValue = (value: string, delayMs: number) => manager.run(async () => {
+            manager.set("value", value);
+            await waitMs(delayMs);
+            return manager.get("value");
+        });
+
+        Promise.all([runWithValue("first", 20), runWithValue("second", 5)])
+            .then(values => {
+                t.deepEquals(values, ["first", "second"], "each context kept its own value");
+                t.equals(manager.get("value"), undefined, "no value outside of the contexts");
+            })
+            .then(() => t.end())
+            .catch(t.end);
+    });
+
+    test(`[${type}] nested contexts inherit values without changing the parent`, t => {
+        const manager = createManager();
+
+        manager.run(() => {
+            manager.set("value", "parent");
+
+            manager.run(() => {
+                t.equals(manager.get("value"), "parent", "nested context inherits the value");
+                manager.set("value", "child");
+                t.equals(manager.get("value"), "child", "nested context value was updated");
+            });
+
+            t.equals(manager.get("value"), "parent", "parent value is unchanged");
+        });
+
+        t.end();
+    });
+
+    test(`[${type}] bound functions run in the context they were bound in`, t => {
+        const manager = createManager();
+
+        const bound = manager.run(() => {
+            manager.set("value", "bound");
+            return manager.bind(() => manager.get("value"));
+        });
+
+        t.equals(bound(), "bound", "value from the bound context is visible");
+        t.end();
+    });
+
+    test(`[${type}] set() outside of run() throws`, t => {
+        const manager = createManager();
+
+        try {
+            manager.set("value", "nope");
+            t.fail("set() should have thrown");
+        } catch (err) {
+            t.assert(err instanceof Errors.NoActiveAsyncContext, "NoActiveAsyncContext was thrown");
+        }
+
+        t.end();
+    });
+});
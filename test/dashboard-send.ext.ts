@@ -134,7 +134,8 @@ test("Scout sends basic controller span to dashboard", {timeout: TestUtil.DASHBO
     // Set up a listener to wait for scout to report the transaction
     const listener = (message: BaseAgentRequest) => {
         // Ignore requests that are sent that aren't span starts
-        if (!message || message.type !== AgentRequestType.V1FinishRequest) { return; }
+        const sent = TestUtil.getSentMessages(message);
+        if (!sent.some(m => m.type === AgentRequestType.V1FinishRequest)) { return; }
         t.pass("Witnessed V1FinishRequest being sent");
 
         scout.removeListener(ScoutEvent.RequestSent, listener);
@@ -191,7 +192,8 @@ test("transaction with with postgres DB query to dashboard", {timeout: TestUtil.
     // Set up a listener to wait for scout to report the transaction
     const listener = (message: BaseAgentRequest) => {
         // Ignore requests that are sent that aren't span starts
-        if (!message || message.type !== AgentRequestType.V1FinishRequest) { return; }
+        const sent = TestUtil.getSentMessages(message);
+        if (!sent.some(m => m.type === AgentRequestType.V1FinishRequest)) { return; }
         t.pass("Witnessed V1FinishRequest being sent");
 
         scout.removeListener(ScoutEvent.RequestSent, listener);
@@ -374,7 +376,8 @@ test("transaction with mysql query to dashboard", {timeout: TestUtil.DASHBOARD_S
     // Set up a listener to wait for scout to report the transaction
     const listener = (message: BaseAgentRequest) => {
         // Ignore requests that are sent that aren't span starts
-        if (!message || message.type !== AgentRequestType.V1FinishRequest) { return; }
+        const sent = TestUtil.getSentMessages(message);
+        if (!sent.some(m => m.type === AgentRequestType.V1FinishRequest)) { return; }
         t.pass("witnessed V1FinishRequest being sent");
 
         scout.removeListener(ScoutEvent.RequestSent, listener);
@@ -440,7 +443,8 @@ test("transaction with mysql2 query to dashboard", {timeout: TestUtil.DASHBOARD_
     // Set up a listener to wait for scout to report the transaction
     const listener = (message: BaseAgentRequest) => {
         // Ignore requests that are sent that aren't span starts
-        if (!message || message.type !== AgentRequestType.V1FinishRequest) { return; }
+        const sent = TestUtil.getSentMessages(message);
+        if (!sent.some(m => m.type === AgentRequestType.V1FinishRequest)) { return; }
         t.pass("witnessed V1FinishRequest being sent");
 
         scout.removeListener(ScoutEvent.RequestSent, listener);
@@ -0,0 +1,247 @@
+import * as test from "tape";
+
+import * as TestUtil from "./util";
+import InMemoryAgent from "../lib/agents/in-memory";
+
+import { Instrument, BackgroundTransaction } from "../lib";
+import { Scout, ScoutEventRequestSentData, ScoutRequest } from "../lib/scout";
+import { AgentRequestType, AgentType, ScoutContextName, ScoutEvent } from "../lib/types";
+import * as Requests from "../lib/protocol/v1/requests";
+
+class UserService {
+    @Instrument("Service/User/find")
+    public find(id: number): Promise<{id: number}> {
+        return Promise.resolve({id});
+    }
+
+    @Instrument("Service/User/load")
+    public load(id: number): Promise<{id: number}> {
+        return TestUtil.waitMs(10).then(() => ({id}));
+    }
+
+    @Instrument("Service/User/reject")
+    public reject(): Promise<void> {
+        return Promise.reject(new Error("load failed"));
+    }
+
+    @Instrument()
+    public count(): Promise<number> {
+        return Promise.resolve(1);
+    }
+
+    @Instrument("Service/User/format")
+    public format(id: number): string {
+        return `user-${id}`;
+    }
+
+    @Instrument("Service/User/validate")
+    public validate(id: number): void {
+        throw new Error(`invalid user ${id}`);
+    }
+}
+
+@BackgroundTransaction("Job/Mailer")
+class Mailer {
+    public send(to: string): Promise<string> {
+        return TestUtil.waitMs(10).then(() => to);
+    }
+
+    public render(template: string): string {
+        return `rendered ${template}`;
+    }
+
+    public check(to: string): void {
+        throw new Error(`invalid address ${to}`);
+    }
+}
+
+class Cleanup {
+    @BackgroundTransaction("Job/cleanup")
+    public run(): Promise<string> {
+        return Promise.resolve("cleaned");
+    }
+}
+
+// Get the operations of the spans that were started (in order)
+function startedOperations(agent: InMemoryAgent): string[] {
+    return agent.getCommands(AgentRequestType.V1StartSpan)
+        .map(c => (c as Requests.V1StartSpan).operation);
+}
+
+// Get the operations of the spans that were tagged as errored
+function erroredOperations(agent: InMemoryAgent): string[] {
+    const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+
+    return agent.getCommands(AgentRequestType.V1TagSpan)
+        .map(c => c as Requests.V1TagSpan)
+        .filter(c => c.tagName === ScoutContextName.Error)
+        .map(c => (spans.find(s => s.spanId === c.spanId) as Requests.V1StartSpan).operation);
+}
+
+let scout: Scout;
+let agent: InMemoryAgent;
+
+// Run a function in a transaction, resolving to its result
+function inTransaction<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        scout.transaction(name, finishTransaction => fn()
+            .then(result => {
+                finishTransaction();
+                resolve(result);
+            })
+            .catch(err => {
+                finishTransaction();
+                reject(err);
+            }));
+    });
+}
+
+test("set up scout with an in-memory agent", t => {
+    scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    scout.setup()
+        .then(() => agent = scout.getAgent() as InMemoryAgent)
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@Instrument passes calls through outside of a transaction", t => {
+    agent.clearMessages();
+
+    new UserService().find(1)
+        .then(result => t.deepEquals(result, {id: 1}, "result is returned"))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(startedOperations(agent), [], "no spans were started"))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@Instrument records methods until their promise resolves", t => {
+    agent.clearMessages();
+
+    inTransaction("Controller/async", () => new UserService().load(2))
+        .then(result => t.deepEquals(result, {id: 2}, "resolved value is returned"))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            t.deepEquals(startedOperations(agent), ["Service/User/load"], "span was recorded");
+            t.deepEquals(erroredOperations(agent), [], "span is not errored");
+
+            const stop = agent.getCommands(AgentRequestType.V1StopSpan)[0] as Requests.V1StopSpan;
+            const start = agent.getCommands(AgentRequestType.V1StartSpan)[0] as Requests.V1StartSpan;
+            t.assert(stop.timestamp.getTime() - start.timestamp.getTime() >= 10, "span lasted until resolution");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@Instrument marks rejections", t => {
+    agent.clearMessages();
+
+    inTransaction("Controller/reject", () => new UserService().reject())
+        .then(() => t.fail("promise should have been rejected"))
+        .catch(err => t.equals(err.message, "load failed", "rejection is passed through"))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(erroredOperations(agent), ["Service/User/reject"], "span was marked as errored"))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@Instrument defaults the operation to the class & method name", t => {
+    agent.clearMessages();
+
+    inTransaction("Controller/default", () => new UserService().count())
+        .then(() => TestUtil.waitMs(10))
+        .then(() => t.deepEquals(startedOperations(agent), ["Custom/UserService/count"], "default operation used"))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@Instrument records synchronous methods, returning their value directly", t => {
+    agent.clearMessages();
+
+    scout.transactionSync("Controller/sync", () => {
+        const service = new UserService();
+
+        t.equals(service.format(3), "user-3", "value is returned synchronously");
+        t.throws(() => service.validate(4), /invalid user 4/, "thrown errors are re-thrown");
+    });
+
+    TestUtil.waitMs(10)
+        .then(() => {
+            t.deepEquals(
+                startedOperations(agent),
+                ["Service/User/format", "Service/User/validate"],
+                "spans were recorded",
+            );
+            t.deepEquals(erroredOperations(agent), ["Service/User/validate"], "thrown error marked its span");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@BackgroundTransaction runs methods as transactions", t => {
+    agent.clearMessages();
+
+    new Cleanup().run()
+        .then(result => t.equals(result, "cleaned", "resolved value is returned"))
+        .then(() => new Mailer().send("user@example.com"))
+        .then(result => t.equals(result, "user@example.com", "resolved value is returned"))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            t.deepEquals(startedOperations(agent), ["Job/cleanup", "Job/Mailer/send"], "spans were recorded");
+            t.equals(agent.getCommands(AgentRequestType.V1FinishRequest).length, 2, "both transactions finished");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("@BackgroundTransaction runs synchronous methods as transactions, returning their value directly", t => {
+    agent.clearMessages();
+
+    const sent: ScoutRequest[] = [];
+    const listener = (data: ScoutEventRequestSentData) => sent.push(data.request);
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    const mailer = new Mailer();
+    t.equals(mailer.render("welcome"), "rendered welcome", "value is returned synchronously");
+    t.throws(() => mailer.check("nobody"), /invalid address nobody/, "thrown errors are re-thrown");
+
+    TestUtil.waitMs(10)
+        .then(() => {
+            t.deepEquals(startedOperations(agent), ["Job/Mailer/render", "Job/Mailer/check"], "spans were recorded");
+            t.deepEquals(erroredOperations(agent), ["Job/Mailer/check"], "thrown error marked its span");
+            scout.removeListener(ScoutEvent.RequestSent, listener);
+
+            t.deepEquals(
+                sent.map(r => r.getContextValue(ScoutContextName.Error)),
+                [undefined, "true"],
+                "both transactions were sent, the thrown error marked its transaction",
+            );
+        })
+        .then(() => t.end())
+        .catch(err => {
+            scout.removeListener(ScoutEvent.RequestSent, listener);
+            t.end(err);
+        });
+});
+
+test("@BackgroundTransaction runs methods called during a transaction as spans", t => {
+    agent.clearMessages();
+
+    inTransaction("Controller/signup", () => new Mailer().send("user@example.com"))
+        .then(result => t.equals(result, "user@example.com", "resolved value is returned"))
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            t.deepEquals(startedOperations(agent), ["Job/Mailer/send"], "span was recorded");
+            t.equals(agent.getCommands(AgentRequestType.V1StartRequest).length, 1, "no transaction was started");
+
+            const span = agent.getCommands(AgentRequestType.V1StartSpan)[0] as Requests.V1StartSpan;
+            const request = agent.getCommands(AgentRequestType.V1StartRequest)[0] as Requests.V1StartRequest;
+            t.equals(span.requestId, request.requestId, "span is part of the current transaction");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("shut down scout", t => {
+    TestUtil.shutdownScout(t, scout);
+});
@@ -115,12 +115,13 @@ test("Dynamic segment routes (uses global instance)", {timeout: TestUtil.EXPRESS
         .then(() => {
             // Create a listener to watch for the request finished event
             const listener = (message: BaseAgentRequest) => {
-                // Ignore requests that are sent that aren't span starts
-                if (!message || message.type !== AgentRequestType.V1StartSpan) { return; }
-
-                // Skip requests that aren't the span we expect ( the initial GET / will trigger this)
-                const msg: V1StartSpan = message as V1StartSpan;
-                if (msg.operation !== expectedRootSpan) { return; }
+                // Ignore requests that are sent that aren't span starts, and spans that aren't
+                // the span we expect (the initial GET / will trigger this)
+                const msg = TestUtil.getSentMessages(message)
+                    .filter(m => m.type === AgentRequestType.V1StartSpan)
+                    .map(m => m as V1StartSpan)
+                    .find(m => m.operation === expectedRootSpan);
+                if (!msg) { return; }
 
                 // Ensure that the span is what we expect
                 t.equals(
@@ -749,6 +750,50 @@ test("Request queue time should be recorded", t => {
         .catch(err => TestUtil.shutdownScout(t, scout, err));
 });
 
+test("Remote IP is resolved through trusted proxies", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Create an application that's set up to do a simple instrumentation
+    const app: Application & ApplicationWithScout = TestUtil.simpleExpressApp(scoutMiddleware({
+        scout,
+        requestTimeoutMs: 0, // disable request timeout to stop test from hanging
+        waitForScoutSetup: true,
+    }));
+
+    // Set up a listener that should fire when the request is finished
+    const listener = (data: ScoutEventRequestSentData) => {
+        // Remove listener since this should fire once
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        // The test client connects over loopback, which is a trusted proxy by default
+        t.equals(
+            data.request.getContextValue(ScoutContextName.RemoteIP),
+            "198.51.100.1",
+            "remote IP is the first untrusted forwarded address",
+        );
+
+        // Shutdown and close scout
+        TestUtil.shutdownScout(t, scout);
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => {
+            return request(app)
+                .get("/")
+                .set("X-Forwarded-For", "203.0.113.9, 198.51.100.1, 10.0.0.2")
+                .expect("Content-Type", /json/)
+                .expect(200)
+                .then(() => t.pass("root route was visited"));
+        })
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
 // Cleanup the global isntance(s) that get created
 test("Shutdown the global instance", t => {
     const inst = getActiveGlobalScoutInstance();
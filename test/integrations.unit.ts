@@ -0,0 +1,390 @@
+import * as test from "tape";
+import { EventEmitter } from "events";
+
+import * as TestUtil from "./util";
+import InMemoryAgent from "../lib/agents/in-memory";
+
+import { AgentRequestType, AgentType, ScoutContextName, buildScoutConfiguration } from "../lib/types";
+import { getIntegrationSymbol } from "../lib/types/integrations";
+import { getIntegrationForPackage } from "../lib/integrations";
+import { MongoDBIntegration } from "../lib/integrations/mongodb";
+import { setupRequireIntegrations } from "../lib";
+import { Scout } from "../lib/scout";
+import * as Requests from "../lib/protocol/v1/requests";
+
+// A mongodb client that sends commands (as command monitoring events) when asked to
+class FakeMongoClient extends EventEmitter {
+    public monitorCommands: boolean = false;
+
+    public connect() { return Promise.resolve(this); }
+    public close() { return Promise.resolve(); }
+
+    public send(requestId: number, reply?: any) {
+        this.emit("commandStarted", {requestId, commandName: "find", command: {find: "users", filter: {}}});
+        if (reply) { this.emit("commandSucceeded", {requestId, commandName: "find", reply}); }
+    }
+}
+
+test("integrations listed in disabledInstruments have no scout instance", t => {
+    const scout = new Scout(buildScoutConfiguration({disabledInstruments: ["mongoose"]}));
+
+    const disabledIntegration = getIntegrationForPackage("mongoose");
+    disabledIntegration.setScoutInstance(scout);
+    t.assert(disabledIntegration.isDisabled(), "mongoose integration is disabled");
+    t.equals(disabledIntegration.scout, null, "disabled integration has no scout instance");
+
+    const enabledIntegration = getIntegrationForPackage("ioredis");
+    enabledIntegration.setScoutInstance(scout);
+    t.assert(!enabledIntegration.isDisabled(), "ioredis integration is not disabled");
+    t.equals(enabledIntegration.scout, scout, "enabled integration has the scout instance");
+
+    t.end();
+});
+
+test("packages of disabled integrations are not shimmed when required", t => {
+    const scout = new Scout(buildScoutConfiguration({disabledInstruments: ["redis"]}));
+    getIntegrationForPackage("redis").setScoutInstance(scout);
+
+    setupRequireIntegrations(["redis"]);
+    const redis = require("redis");
+
+    t.assert(!(getIntegrationSymbol() in redis), "redis export does not have the integration symbol");
+    t.assert(!scout.getActiveIntegrations().includes("redis"), "redis is not reported as an active integration");
+
+    t.end();
+});
+
+test("the redis integration leaves unsupported (v4+) exports unchanged", t => {
+    const scout = new Scout(buildScoutConfiguration());
+    const integration: any = getIntegrationForPackage("redis");
+    integration.setScoutInstance(scout);
+
+    const createClient = () => undefined;
+    const redisExport = integration.shim({createClient});
+
+    t.deepEquals(Object.keys(redisExport), ["createClient"], "export has no added properties");
+    t.equals(redisExport.createClient, createClient, "createClient is not shimmed");
+
+    t.end();
+});
+
+test("the mongoose integration returns what the original operation returns", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const integration: any = getIntegrationForPackage("mongoose");
+
+    // A query that runs the given function when executed
+    class Query {
+        public readonly op: string = "find";
+        public readonly model = {modelName: "User"};
+
+        constructor(private readonly run: () => any) {}
+
+        public getFilter() { return {}; }
+        public exec() { return this.run(); }
+    }
+
+    scout.setup()
+        .then(() => {
+            integration.setScoutInstance(scout);
+            const mongooseExport = integration.shim({
+                Query,
+                Model: class { public save() { return undefined; } },
+                Aggregate: class { public exec() { return undefined; } },
+            });
+
+            return scout.transaction("Controller/mongoose", finishTransaction => {
+                t.throws(
+                    () => new mongooseExport.Query(() => { throw new Error("invalid query"); }).exec(),
+                    /invalid query/,
+                    "synchronous errors are thrown",
+                );
+
+                return new mongooseExport.Query(() => Promise.resolve([{name: "user"}])).exec()
+                    .then(users => t.deepEquals(users, [{name: "user"}], "the promise's value is passed on"))
+                    .then(() => finishTransaction());
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            const errored = (agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[])
+                .filter(c => c.tagName === ScoutContextName.Error);
+
+            t.deepEquals(
+                spans.map(s => s.operation),
+                ["MongoDB/User/find", "MongoDB/User/find"],
+                "spans were recorded",
+            );
+            t.deepEquals(errored.map(c => c.spanId), [spans[0].spanId], "the thrown error marked its span");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("commands sent by mongoose operations are not recorded again by the mongodb integration", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const mongooseIntegration: any = getIntegrationForPackage("mongoose");
+    const mongodbIntegration: any = getIntegrationForPackage("mongodb");
+
+    // A query that sends its command to the server asynchronously
+    class Query {
+        public readonly op: string = "find";
+        public readonly model = {modelName: "User"};
+
+        constructor(private readonly client: FakeMongoClient) {}
+
+        public getFilter() { return {}; }
+        public exec() {
+            return TestUtil.waitMs(1).then(() => this.client.send(1, {ok: 1}));
+        }
+    }
+
+    scout.setup()
+        .then(() => {
+            mongooseIntegration.setScoutInstance(scout);
+            mongodbIntegration.setScoutInstance(scout);
+
+            const mongooseExport = mongooseIntegration.shim({
+                Query,
+                Model: class { public save() { return undefined; } },
+                Aggregate: class { public exec() { return undefined; } },
+            });
+            const mongodbExport = mongodbIntegration.shim({MongoClient: FakeMongoClient});
+
+            const client = new mongodbExport.MongoClient();
+            client.connect();
+
+            return scout.transaction("Controller/mongoose", finishTransaction => {
+                return new mongooseExport.Query(client).exec()
+                    .then(() => finishTransaction());
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+
+            t.deepEquals(spans.map(s => s.operation), ["MongoDB/User/find"], "only the mongoose span was recorded");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("the mongodb integration stops the spans of pending commands when the client is closed", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const integration: any = getIntegrationForPackage("mongodb");
+
+    let client: any;
+
+    scout.setup()
+        .then(() => {
+            integration.setScoutInstance(scout);
+            const mongodbExport = integration.shim({MongoClient: FakeMongoClient});
+
+            client = new mongodbExport.MongoClient();
+            client.connect();
+            t.assert(client.monitorCommands, "command monitoring was enabled");
+
+            scout.transactionSync("Controller/mongodb", () => {
+                client.send(1, {ok: 1});
+                client.send(2);
+                client.close();
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            const stopped = (agent.getCommands(AgentRequestType.V1StopSpan) as Requests.V1StopSpan[])
+                .map(c => c.spanId);
+            const errored = (agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[])
+                .filter(c => c.tagName === ScoutContextName.Error)
+                .map(c => c.spanId);
+
+            t.deepEquals(
+                spans.map(s => s.operation),
+                ["MongoDB/users/find", "MongoDB/users/find"],
+                "spans were recorded",
+            );
+            t.deepEquals(stopped.sort(), spans.map(s => s.spanId).sort(), "both spans were stopped");
+            t.deepEquals(errored, [spans[1].spanId], "the pending command's span was marked as errored");
+            t.equals(integration.pendingSpans.get(client).size, 0, "no spans are left pending");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("the mongodb integration records collection methods on drivers without command monitoring", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const integration: any = new MongoDBIntegration();
+
+    // A client and collection from a driver that predates command monitoring
+    class MongoClient {
+        public connect() { return Promise.resolve(this); }
+    }
+
+    class Collection {
+        constructor(public readonly collectionName: string) {}
+
+        public findOne(filter: any, cb: (err?: Error, doc?: any) => void) { setImmediate(() => cb(undefined, {})); }
+        public insertOne(doc: any) { return Promise.reject(new Error("duplicate key")); }
+    }
+
+    scout.setup()
+        .then(() => {
+            integration.setScoutInstance(scout);
+            const mongodbExport = integration.shim({MongoClient, Collection});
+            new mongodbExport.MongoClient().connect();
+
+            const users = new mongodbExport.Collection("users");
+
+            return scout.transaction("Controller/mongodb", finishRequest => {
+                return new Promise(resolve => users.findOne({email: "user@example.com"}, resolve))
+                    .then(() => users.insertOne({email: "user@example.com"}))
+                    .catch(() => undefined)
+                    .then(() => finishRequest());
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            const stopped = (agent.getCommands(AgentRequestType.V1StopSpan) as Requests.V1StopSpan[])
+                .map(c => c.spanId);
+            const tags = agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[];
+
+            t.deepEquals(
+                spans.map(s => s.operation),
+                ["MongoDB/users/findOne", "MongoDB/users/insertOne"],
+                "collection methods were recorded",
+            );
+            t.deepEquals(stopped.sort(), spans.map(s => s.spanId).sort(), "both spans were stopped");
+
+            const statement = tags.find(c => c.tagName === ScoutContextName.DBStatement);
+            t.equals(statement && statement.spanId, spans[0].spanId, "the filter was added to the span");
+            t.equals(statement && statement.tagValue, JSON.stringify({email: "?"}), "the filter was scrubbed");
+
+            const errored = tags.filter(c => c.tagName === ScoutContextName.Error).map(c => c.spanId);
+            t.deepEquals(errored, [spans[1].spanId], "the failed method's span was marked as errored");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("the ioredis integration leaves failed commands unhandled", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const integration: any = getIntegrationForPackage("ioredis");
+
+    const rejections: any[] = [];
+    const onUnhandledRejection = (reason: any) => rejections.push(reason);
+    process.on("unhandledRejection", onUnhandledRejection);
+
+    let client: any;
+
+    scout.setup()
+        .then(() => {
+            integration.setScoutInstance(scout);
+            const Redis = integration.shim(require("ioredis"));
+
+            // Commands sent by a client that isn't connected (and doesn't queue them) are rejected right away
+            client = new Redis({lazyConnect: true, enableOfflineQueue: false, retryStrategy: () => null});
+            client.on("error", () => undefined);
+
+            return scout.transaction("Controller/ioredis", finishRequest => {
+                client.get("key");
+                return TestUtil.waitMs(10).then(() => finishRequest());
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+            client.disconnect();
+
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            const stopped = (agent.getCommands(AgentRequestType.V1StopSpan) as Requests.V1StopSpan[])
+                .map(c => c.spanId);
+            const errored = (agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[])
+                .filter(c => c.tagName === ScoutContextName.Error)
+                .map(c => c.spanId);
+
+            t.equals(rejections.length, 1, "the command's rejection was not handled");
+            t.deepEquals(spans.map(s => s.operation), ["Redis/GET"], "the command was recorded");
+            t.deepEquals(stopped, [spans[0].spanId], "the command's span was stopped");
+            t.deepEquals(errored, [spans[0].spanId], "the command's span was marked as errored");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+test("the mysql2 integration stops the spans of queries that fail before (or while) preparing", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const integration: any = getIntegrationForPackage("mysql2");
+
+    // A connection that checks bind parameters like mysql2 does, and whose prepares always fail
+    class Connection {
+        public query() { return new EventEmitter(); }
+
+        public execute(sql: string, values: any[], cb?: (err: Error) => void) {
+            if (values.includes(undefined)) { throw new TypeError("Bind parameters must not contain undefined"); }
+
+            const command = new EventEmitter();
+            setImmediate(() => {
+                const err = new Error("prepare failed");
+                return cb ? cb(err) : command.emit("error", err);
+            });
+
+            return command;
+        }
+    }
+
+    const errors: Error[] = [];
+
+    scout.setup()
+        .then(() => {
+            integration.setScoutInstance(scout);
+            const mysql2Export = integration.shim({Connection});
+            const connection = new mysql2Export.Connection({});
+
+            return scout.transaction("Controller/mysql2", finishTransaction => {
+                t.throws(
+                    () => connection.execute("SELECT ?", [undefined]),
+                    /must not contain undefined/,
+                    "invalid bind parameters are thrown",
+                );
+
+                return new Promise(resolve => connection.execute("SELECT ?", [1], err => {
+                    errors.push(err);
+                    resolve();
+                }))
+                    .then(() => new Promise(resolve => {
+                        connection.execute("SELECT ?", [2]).on("error", err => {
+                            errors.push(err);
+                            resolve();
+                        });
+                    }))
+                    .then(() => finishTransaction());
+            });
+        })
+        .then(() => TestUtil.waitMs(10))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            const spans = agent.getCommands(AgentRequestType.V1StartSpan) as Requests.V1StartSpan[];
+            const stopped = (agent.getCommands(AgentRequestType.V1StopSpan) as Requests.V1StopSpan[])
+                .map(c => c.spanId);
+            const errored = (agent.getCommands(AgentRequestType.V1TagSpan) as Requests.V1TagSpan[])
+                .filter(c => c.tagName === ScoutContextName.Error)
+                .map(c => c.spanId);
+
+            t.deepEquals(errors.map(err => err.message), ["prepare failed", "prepare failed"], "errors were reported");
+            t.equals(spans.length, 3, "spans were recorded");
+            t.deepEquals(stopped.sort(), spans.map(s => s.spanId).sort(), "all spans were stopped");
+            t.deepEquals(errored.sort(), spans.map(s => s.spanId).sort(), "all spans were marked as errored");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
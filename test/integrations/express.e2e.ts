@@ -15,6 +15,7 @@ import {
     ScoutRequest,
     ScoutSpan,
     ScoutEventRequestSentData,
+    CapturedError,
 } from "../../lib/scout";
 
 // The hook for http has to be triggered this way in a typescript context
@@ -26,9 +27,9 @@ import * as TestUtil from "../util";
 import * as Constants from "../../lib/constants";
 import { getIntegrationSymbol } from "../../lib/types/integrations";
 import ExpressIntegration from "../../lib/integrations/express";
-import { scoutMiddleware, ApplicationWithScout } from "../../lib/express";
+import { scoutMiddleware, scoutErrorHandler, ApplicationWithScout } from "../../lib/express";
 
-import { ScoutContextName, ScoutSpanOperation, ExpressFn } from "../../lib/types";
+import { AgentType, ScoutContextName, ScoutSpanOperation, ExpressFn } from "../../lib/types";
 
 import { FILE_PATHS } from "../fixtures";
 
@@ -91,6 +92,130 @@ test("errors in controller functions trigger context updates", t => {
         .catch(err => TestUtil.shutdownScout(t, scout, err));
 });
 
+test("rejected async handlers tag the request with the error details", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+
+    const app: Application & ApplicationWithScout = TestUtil.appWithGETAsyncError(
+        scoutMiddleware({scout, requestTimeoutMs: 0}),
+        (fn: ExpressFn) => ExpressIntegration.shimExpressFn(fn),
+    );
+
+    // Recording the error must not change whether the rejection is handled (express 4 leaves it unhandled)
+    const rejections: any[] = [];
+    const onUnhandledRejection = (reason: any) => rejections.push(reason);
+    process.on("unhandledRejection", onUnhandledRejection);
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(data.request.getContextValue(ScoutContextName.Error), "true", "request had error context");
+        t.equals(data.request.getContextValue(ScoutContextName.ErrorClass), "Error", "error class was tagged");
+        t.equals(
+            data.request.getContextValue(ScoutContextName.ErrorMessage),
+            "Expected application error (appWithGETAsyncError)",
+            "error message was tagged",
+        );
+        t.equals(data.request.getContextValue(ScoutContextName.HTTPStatusCode), 503, "status code was tagged");
+
+        TestUtil.waitMs(10)
+            .then(() => {
+                process.removeListener("unhandledRejection", onUnhandledRejection);
+                t.deepEquals(
+                    rejections.map(reason => reason.message),
+                    ["Expected application error (appWithGETAsyncError)"],
+                    "the handler's rejection is still unhandled",
+                );
+            })
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => request(app).get("/").expect(503))
+    // If an error occurs, shutdown scout
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("rejections of async handlers handled by the caller are not left unhandled", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const captured: CapturedError[] = [];
+    scout.on(ScoutEvent.ErrorCaptured, e => captured.push(e));
+
+    const rejections: any[] = [];
+    const onUnhandledRejection = (reason: any) => rejections.push(reason);
+    process.on("unhandledRejection", onUnhandledRejection);
+
+    const app: any = TestUtil.appWithGETAsyncError(
+        (req, res, next) => next(),
+        (fn: ExpressFn) => ExpressIntegration.shimExpressFn(fn),
+    );
+
+    // Call the (shimmed) route handler the way a promise-aware router (ex. express 5) would
+    const layer = app._router.stack.find(l => l.route);
+    const handler = layer.route.stack[0].handle;
+
+    let handled: Error | undefined;
+
+    scout
+        .setup()
+        .then(() => scout.transaction("Controller/GET /", finishRequest => {
+            const res = {statusCode: 200, status: () => res, send: () => res};
+            return handler({method: "GET", headers: {}}, res, () => undefined)
+                .catch(err => handled = err)
+                .then(() => finishRequest());
+        }))
+        .then(() => TestUtil.waitMs(50))
+        .then(() => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+
+            t.assert(handled && handled.message.includes("appWithGETAsyncError"), "caller received the rejection");
+            t.equals(rejections.length, 0, "no unhandled rejection was raised");
+            t.equals(captured.length, 1, "the error was captured");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => {
+            process.removeListener("unhandledRejection", onUnhandledRejection);
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+test("scoutErrorHandler tags the request with errors passed to next()", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const captured: CapturedError[] = [];
+    scout.on(ScoutEvent.ErrorCaptured, e => captured.push(e));
+
+    const app: Application & ApplicationWithScout = TestUtil.appWithGETNextError(
+        scoutMiddleware({scout, requestTimeoutMs: 0}),
+        scoutErrorHandler(),
+        (fn: ExpressFn) => ExpressIntegration.shimExpressFn(fn),
+    );
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(data.request.getContextValue(ScoutContextName.Error), "true", "request had error context");
+        t.equals(data.request.getContextValue(ScoutContextName.ErrorClass), "TypeError", "error class was tagged");
+        t.equals(data.request.getContextValue(ScoutContextName.HTTPStatusCode), 422, "error's status was tagged");
+        t.equals(captured.length, 1, "the error was captured");
+        t.equals(captured[0].context.requestId, data.request.id, "the captured error belongs to the request");
+
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // The error is passed on to express' default error handler
+        .then(() => request(app).get("/").expect(422))
+    // If an error occurs, shutdown scout
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
 // https://github.com/scoutapp/scout_apm_node/issues/238
 test("express Routers are recorded (one level)", t => {
     const config = buildScoutConfiguration({
@@ -0,0 +1,142 @@
+import * as test from "tape";
+import * as request from "supertest";
+import { generate as generateRandomString } from "randomstring";
+
+import {
+    ScoutEvent,
+    buildScoutConfiguration,
+} from "../../lib/types";
+
+import { setupRequireIntegrations } from "../../lib";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+// The hook for fastify has to be triggered this way in a typescript context
+// since a partial import from scout itself (lib/index) will not run the setupRequireIntegrations() code
+setupRequireIntegrations(["fastify"]);
+
+import * as TestUtil from "../util";
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+
+import { ScoutContextName } from "../../lib/types";
+
+// fastify needs to be required this way to trigger the require integration
+const fastify = require("fastify");
+
+// Build a fastify application with an echo route
+function appWithEchoRoute(): any {
+    const app = fastify();
+
+    app.get("/echo/:name", (req, reply) => {
+        reply.send({status: "success", name: req.params.name});
+    });
+    app.get("/error", (req, reply) => {
+        throw new Error("Expected application error (appWithEchoRoute)");
+    });
+
+    return app;
+}
+
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in fastify, "fastify export has the integration symbol");
+    t.end();
+});
+
+test("fastify requests are recorded with the route path", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const app = appWithEchoRoute();
+    const reqName = generateRandomString(5);
+
+    // Set up a listener for the scout request that will be sent after the route is hit
+    const listener = (data: ScoutEventRequestSentData) => {
+        if (!data || !data.request) { return; }
+
+        const spans = data.request.getChildSpansSync();
+        if (!spans || spans.length <= 0) { return; }
+
+        // Ensure that the top level span is a Controller span
+        const topLevelSpan = spans[0];
+        if (!topLevelSpan.operation.startsWith("Controller")) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(
+            topLevelSpan.operation,
+            "Controller/GET /echo/:name",
+            "operation matches the route path",
+        );
+
+        t.equals(
+            data.request.getContextValue(ScoutContextName.Path),
+            `/echo/${reqName}`,
+            "tagged URL matches the expected URL",
+        );
+
+        app.close();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => app.ready())
+        .then(() => {
+            return request(app.server)
+                .get(`/echo/${reqName}`)
+                .expect("Content-Type", /json/)
+                .expect(200)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => {
+            app.close();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+test("errors thrown by handlers mark the request", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const app = appWithEchoRoute();
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.assert(data.request.getContextValue(ScoutContextName.Error), "request had error context");
+
+        app.close();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => app.ready())
+        .then(() => {
+            return request(app.server)
+                .get("/error")
+                .expect(500)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => {
+            app.close();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
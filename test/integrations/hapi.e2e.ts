@@ -0,0 +1,147 @@
+import * as test from "tape";
+import * as request from "supertest";
+import { generate as generateRandomString } from "randomstring";
+
+import {
+    ScoutEvent,
+    buildScoutConfiguration,
+} from "../../lib/types";
+
+import { setupRequireIntegrations } from "../../lib";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+// The hook for hapi has to be triggered this way in a typescript context
+// since a partial import from scout itself (lib/index) will not run the setupRequireIntegrations() code
+setupRequireIntegrations(["@hapi/hapi"]);
+
+import * as TestUtil from "../util";
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+
+import { ScoutContextName } from "../../lib/types";
+
+// hapi needs to be required this way to trigger the require integration
+const Hapi = require("@hapi/hapi");
+const Boom = require("@hapi/boom");
+
+// Build a hapi server with an echo route
+function serverWithEchoRoute(): any {
+    const server = Hapi.server();
+
+    server.route({
+        method: "GET",
+        path: "/echo/{name}",
+        handler: req => ({status: "success", name: req.params.name}),
+    });
+    server.route({
+        method: "GET",
+        path: "/boom",
+        handler: () => { throw Boom.badImplementation("Expected application error (serverWithEchoRoute)"); },
+    });
+
+    return server;
+}
+
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in Hapi, "hapi export has the integration symbol");
+    t.end();
+});
+
+test("hapi requests are recorded with the route path", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const server = serverWithEchoRoute();
+    const reqName = generateRandomString(5);
+
+    // Set up a listener for the scout request that will be sent after the route is hit
+    const listener = (data: ScoutEventRequestSentData) => {
+        if (!data || !data.request) { return; }
+
+        const spans = data.request.getChildSpansSync();
+        if (!spans || spans.length <= 0) { return; }
+
+        // Ensure that the top level span is a Controller span
+        const topLevelSpan = spans[0];
+        if (!topLevelSpan.operation.startsWith("Controller")) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(
+            topLevelSpan.operation,
+            "Controller/GET /echo/{name}",
+            "operation matches the route path",
+        );
+
+        t.equals(
+            data.request.getContextValue(ScoutContextName.Path),
+            `/echo/${reqName}`,
+            "tagged URL matches the expected URL",
+        );
+
+        server.stop();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => server.initialize())
+        .then(() => {
+            return request(server.listener)
+                .get(`/echo/${reqName}`)
+                .expect("Content-Type", /json/)
+                .expect(200)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => {
+            server.stop();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+test("boom responses mark the request", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const server = serverWithEchoRoute();
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.assert(data.request.getContextValue(ScoutContextName.Error), "request had error context");
+
+        server.stop();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => server.initialize())
+        .then(() => {
+            return request(server.listener)
+                .get("/boom")
+                .expect(500)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => {
+            server.stop();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
@@ -1,8 +1,10 @@
 import * as test from "tape";
 import * as request from "supertest";
 import { Application } from "express";
+import { AddressInfo, connect } from "net";
 
 import {
+    AgentType,
     ScoutEvent,
     buildScoutConfiguration,
 } from "../../lib/types";
@@ -18,9 +20,10 @@ import {
 import * as TestUtil from "../util";
 import * as Constants from "../../lib/constants";
 import { getIntegrationSymbol } from "../../lib/types/integrations";
+import HTTPIntegration from "../../lib/integrations/http";
 import { scoutMiddleware, ApplicationWithScout } from "../../lib/express";
 
-import { ScoutContextName, ScoutSpanOperation } from "../../lib/types";
+import { ScoutContextName, ScoutSpanOperation, toTraceContextId } from "../../lib/types";
 
 import { FILE_PATHS } from "../fixtures";
 
@@ -99,3 +102,352 @@ test("http connections are captured", t => {
     // If an error occurs, shutdown scout
         .catch(err => TestUtil.shutdownScout(t, scout, err));
 });
+
+test("trace context is extracted from inbound requests and propagated on outbound requests", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentId = "00f067aa0ba902b7";
+
+    // A downstream service which records the headers it receives
+    const received: any[] = [];
+    const downstream = http.createServer((req, res) => {
+        received.push(req.headers);
+        res.end("ok");
+    });
+
+    const app: Application & ApplicationWithScout = TestUtil.appWithGETOutboundRequest(
+        scoutMiddleware({scout, requestTimeoutMs: 0}),
+        () => `http://127.0.0.1:${(downstream.address() as AddressInfo).port}/`,
+    );
+
+    const cleanup = (err?: Error) => {
+        downstream.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        // Requests made by supertest are recorded as well
+        if (!data.request.getContextValue(ScoutContextName.Path)) { return; }
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(data.request.getContextValue(ScoutContextName.TraceId), traceId, "inbound trace ID was recorded");
+        t.equals(
+            data.request.getContextValue(ScoutContextName.TraceParentId),
+            parentId,
+            "inbound parent ID was recorded",
+        );
+        t.equals(
+            data.request.getContextValue(ScoutContextName.TraceState),
+            "rojo=1",
+            "inbound tracestate was recorded",
+        );
+
+        t.equals(received.length, 1, "downstream service was requested");
+        const outbound = received[0];
+        t.assert(
+            new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`).test(outbound.traceparent),
+            `outbound traceparent continues the trace [${outbound.traceparent}]`,
+        );
+        t.assert(!outbound.traceparent.includes(parentId), "outbound parent ID is scout's own");
+
+        // The outbound request's parent is the span it was recorded as
+        const findSpan = (spans: ScoutSpan[]): ScoutSpan | undefined => spans
+            .map(s => s.operation === "HTTP/GET" ? s : findSpan(s.getChildSpansSync()))
+            .find(s => !!s);
+        const outboundSpan = findSpan(data.request.getChildSpansSync());
+        t.assert(
+            outboundSpan && outbound.traceparent.includes(`-${toTraceContextId(outboundSpan.id, 16)}-`),
+            "outbound parent ID is the outbound request's span",
+        );
+        t.assert(
+            /^scout=[0-9a-f]{16},rojo=1$/.test(outbound.tracestate),
+            "outbound tracestate has scout's entry first",
+        );
+
+        cleanup();
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => downstream.listen(0, "127.0.0.1", resolve)))
+        .then(() => request(app)
+            .get("/")
+            .set("traceparent", `00-${traceId}-${parentId}-01`)
+            .set("tracestate", "rojo=1")
+            .expect(200))
+        .catch(cleanup);
+});
+
+test("outbound request spans record the method, remote host, status & response size", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory, httpSpansWaitForBody: true});
+
+    // A downstream service which responds with an error, sending the body after a delay
+    const downstream = http.createServer((req, res) => {
+        res.writeHead(404, {"Content-Length": "9"});
+        TestUtil.waitMs(100).then(() => res.end("not found"));
+    });
+
+    const cleanup = (err?: Error) => {
+        downstream.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    let port: number;
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const span = data.request.getChildSpansSync().find(s => s.operation === ScoutSpanOperation.HTTPGet);
+        if (!span) {
+            cleanup(new Error("No external request span"));
+            return;
+        }
+
+        t.equals(span.getContextValue(ScoutContextName.HTTPMethod), "GET", "method was recorded");
+        t.equals(span.getContextValue(ScoutContextName.HTTPHost), "127.0.0.1", "remote host was recorded");
+        t.equals(span.getContextValue(ScoutContextName.HTTPPort), port, "remote port was recorded");
+        t.equals(span.getContextValue(ScoutContextName.HTTPStatusCode), 404, "status code was recorded");
+        t.equals(span.getContextValue(ScoutContextName.HTTPResponseContentLength), 9, "response size was recorded");
+        t.equals(span.getContextValue(ScoutContextName.Error), "true", "error status marked the span as errored");
+        t.assert(span.getDurationMs() >= 100, `span was stopped once the body was read [${span.getDurationMs()}ms]`);
+
+        cleanup();
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => downstream.listen(0, "127.0.0.1", resolve)))
+        .then(() => {
+            port = (downstream.address() as AddressInfo).port;
+
+            return scout.transaction("Controller/outbound-request-details-test", finishRequest => {
+                http.get({hostname: "127.0.0.1", port, path: "/missing"}, res => {
+                    res.resume();
+                    res.on("end", () => finishRequest());
+                });
+            });
+        })
+        .catch(cleanup);
+});
+
+test("error reports sent to the errors endpoint are not recorded as outbound requests", t => {
+    // An errors endpoint which records the headers of the reports it receives
+    const received: Array<{[name: string]: any}> = [];
+    const endpoint = http.createServer((req, res) => {
+        received.push(req.headers);
+        req.resume();
+        req.on("end", () => res.end());
+    });
+
+    let scout: Scout;
+    const sent: ScoutRequest[] = [];
+
+    const cleanup = (err?: Error) => {
+        endpoint.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    new Promise(resolve => endpoint.listen(0, "127.0.0.1", resolve))
+        .then(() => {
+            const port = (endpoint.address() as AddressInfo).port;
+            scout = TestUtil.buildTestScoutInstance(
+                {agentType: AgentType.InMemory, errorsEndpoint: `http://127.0.0.1:${port}/apps/error.scout`},
+                {errorsFlushIntervalMS: 10},
+            );
+
+            scout.on(ScoutEvent.RequestSent, (data: ScoutEventRequestSentData) => sent.push(data.request));
+
+            return scout.setup();
+        })
+        .then(() => new Promise(resolve => {
+            scout.transaction("Controller/error-report-test", finishTransaction => {
+                return scout.instrument("Custom/failing", finishSpan => {
+                    scout.once(ScoutEvent.ErrorsSent, () => {
+                        finishSpan();
+                        finishTransaction();
+                        resolve();
+                    });
+
+                    return scout.captureError(new Error("failed"));
+                });
+            });
+        }))
+        .then(() => TestUtil.waitMs(100))
+        .then(() => {
+            t.equals(received.length, 1, "the error report was sent");
+            t.equals(received[0].traceparent, undefined, "no trace context was added to the error report");
+
+            t.equals(sent.length, 1, "no transaction was started for the error report");
+            t.deepEquals(
+                sent[0].getChildSpansSync().map(s => s.operation),
+                ["Custom/failing"],
+                "the error report was not recorded as a span",
+            );
+        })
+        .then(() => cleanup())
+        .catch(cleanup);
+});
+
+test("requests to plain http servers are recorded as transactions, with normalized paths", t => {
+    const scout = TestUtil.buildTestScoutInstance({
+        agentType: AgentType.InMemory,
+        httpServerTransactions: true,
+        httpServerRoutes: ["/users/:id/posts"],
+    });
+
+    const server = http.createServer((req, res) => {
+        TestUtil.waitMs(10).then(() => {
+            res.statusCode = req.url === "/orders/1234" ? 503 : 200;
+            res.end("ok");
+        });
+    });
+
+    const cleanup = (err?: Error) => {
+        server.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    // Requests made by supertest are recorded as well
+    const sent: ScoutRequest[] = [];
+    scout.on(ScoutEvent.RequestSent, (data: ScoutEventRequestSentData) => {
+        if (data.request.getContextValue(ScoutContextName.Path)) { sent.push(data.request); }
+    });
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => server.listen(0, "127.0.0.1", resolve)))
+        .then(() => request(server).get("/users/42/posts?page=2").expect(200))
+        .then(() => request(server).get("/orders/1234").expect(503))
+        .then(() => TestUtil.waitMs(100))
+        .then(() => {
+            t.equals(sent.length, 2, "a transaction was recorded for each request");
+
+            const [usersRequest, ordersRequest] = sent;
+            const [usersSpan] = usersRequest.getChildSpansSync();
+            const [ordersSpan] = ordersRequest.getChildSpansSync();
+
+            t.equals(usersSpan.operation, "Controller/GET /users/:id/posts", "path matching a route is named after it");
+            t.equals(
+                usersRequest.getContextValue(ScoutContextName.Path),
+                "/users/42/posts?page=2",
+                "path was recorded",
+            );
+            t.equals(usersRequest.getContextValue(ScoutContextName.HTTPStatusCode), 200, "status code was recorded");
+
+            t.equals(ordersSpan.operation, "Controller/GET /orders/:id", "record IDs are normalized in other paths");
+            t.equals(ordersRequest.getContextValue(ScoutContextName.Error), "true", "5xx responses are errored");
+            t.assert(ordersSpan.getDurationMs() >= 10, "span lasted until the response finished");
+        })
+        .then(() => cleanup())
+        .catch(cleanup);
+});
+
+test("framework integrations take over from http server transactions", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory, httpServerTransactions: true});
+    const app: Application & ApplicationWithScout = TestUtil.simpleExpressApp(scoutMiddleware({
+        scout,
+        requestTimeoutMs: 0,
+    }));
+
+    // Requests made by supertest are recorded as well
+    const sent: ScoutRequest[] = [];
+    scout.on(ScoutEvent.RequestSent, (data: ScoutEventRequestSentData) => {
+        if (data.request.getContextValue(ScoutContextName.Path)) { sent.push(data.request); }
+    });
+
+    let ignored = 0;
+    scout.on(ScoutEvent.IgnoredRequestProcessingSkipped, () => ignored++);
+
+    scout
+        .setup()
+        .then(() => request(app).get("/").expect(200))
+        .then(() => TestUtil.waitMs(100))
+        .then(() => {
+            t.equals(sent.length, 1, "only one transaction was recorded");
+            t.assert(ignored > 0, "the http server transaction was ignored");
+        })
+        .then(() => TestUtil.shutdownScout(t, scout))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("requests to plain http servers are handled without waiting for scout's setup", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory, httpServerTransactions: true});
+
+    // Scout is not set up, so requests must not wait for it
+    HTTPIntegration.setScoutInstance(scout);
+
+    let agentDuringRequest: any;
+    const server = http.createServer((req, res) => {
+        agentDuringRequest = scout.getAgent();
+        res.end("ok");
+    });
+
+    const cleanup = (err?: Error) => {
+        server.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    const sent: ScoutRequest[] = [];
+    scout.on(ScoutEvent.RequestSent, (data: ScoutEventRequestSentData) => sent.push(data.request));
+
+    // The request is written to a socket, since outbound http requests would set scout up
+    const sendRequest = () => new Promise((resolve, reject) => {
+        const socket = connect((server.address() as AddressInfo).port, "127.0.0.1", () => {
+            socket.end("GET / HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n");
+        });
+        socket.on("error", reject);
+        socket.on("close", resolve);
+        socket.resume();
+    });
+
+    new Promise(resolve => server.listen(0, "127.0.0.1", resolve))
+        .then(() => sendRequest())
+        .then(() => TestUtil.waitMs(100))
+        .then(() => {
+            t.assert(!agentDuringRequest, "the request was handled before scout was set up");
+            t.equals(sent.length, 1, "the transaction was sent once scout was set up");
+            t.equals(sent[0].getContextValue(ScoutContextName.Path), "/", "the transaction is the request's");
+        })
+        .then(() => cleanup())
+        .catch(cleanup);
+});
+
+test("transactions started by http server handlers don't replace the http server transaction", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory, httpServerTransactions: true});
+
+    const server = http.createServer((req, res) => {
+        scout.transaction("Job/audit", finishTransaction => {
+            finishTransaction();
+            res.end("ok");
+        });
+    });
+
+    const cleanup = (err?: Error) => {
+        server.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    const sent: ScoutRequest[] = [];
+    scout.on(ScoutEvent.RequestSent, (data: ScoutEventRequestSentData) => sent.push(data.request));
+
+    let ignored = 0;
+    scout.on(ScoutEvent.IgnoredRequestProcessingSkipped, () => ignored++);
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => server.listen(0, "127.0.0.1", resolve)))
+        .then(() => request(server).get("/audit").expect(200))
+        .then(() => TestUtil.waitMs(100))
+        .then(() => {
+            const webTransactions = sent.filter(r => r.getContextValue(ScoutContextName.Path) === "/audit");
+
+            t.equals(webTransactions.length, 1, "the http server transaction was recorded");
+            t.equals(ignored, 0, "no transaction was ignored");
+        })
+        .then(() => cleanup())
+        .catch(cleanup);
+});
@@ -0,0 +1,91 @@
+import { setupRequireIntegrations } from "../../lib";
+// The hook for ioredis has to be triggered this way in a typescript context
+// since a partial import like { Pipeline } will not trigger a require
+setupRequireIntegrations(["ioredis"]);
+
+import * as test from "tape";
+import * as TestUtil from "../util";
+
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { ScoutEvent, buildScoutConfiguration } from "../../lib/types";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+import { ScoutContextName } from "../../lib/types";
+
+// ioredis needs to be required this way to trigger the require integration
+const Redis = require("ioredis");
+
+let REDIS_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
+
+// NOTE: this test *presumes* that the integration is working, since the integration is require-based
+// it may break if import order is changed (require hook would not have taken place)
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in Redis, "ioredis export has the integration symbol");
+    t.end();
+});
+
+// Pseudo test that will start a containerized redis instance
+TestUtil.startContainerizedRedisTest(test, cao => {
+    REDIS_CONTAINER_AND_OPTS = cao;
+});
+
+test("commands and pipelines during a request are recorded", {timeout: TestUtil.REDIS_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const client = new Redis(TestUtil.makeRedisConnectionOptions(() => REDIS_CONTAINER_AND_OPTS));
+
+    // Set up a listener for the scout request that will contain the redis spans
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const setSpan = spans.find(s => s.operation === "Redis/SET");
+        const pipelineSpan = spans.find(s => s.operation === "Redis/PIPELINE");
+
+        // Exit early if the spans aren't what we expect
+        if (!setSpan || !pipelineSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.pass("SET span was present on request");
+        t.deepEquals(
+            pipelineSpan.getContextValue(ScoutContextName.DBCommands),
+            ["INCR", "GET"],
+            "PIPELINE span lists the batched commands",
+        );
+        t.equals(
+            spans.filter(s => s.operation === "Redis/INCR").length,
+            0,
+            "batched commands were not recorded separately",
+        );
+
+        client.disconnect();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Start a scout transaction & perform a command and a pipeline
+        .then(() => scout.transaction("Controller/ioredis-test", done => {
+            return client
+                .set("key", "1")
+                .then(() => client.pipeline().incr("key").get("key").exec())
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            client.disconnect();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+// Pseudo test that will stop a containerized redis instance that was started
+TestUtil.stopContainerizedRedisTest(test, () => REDIS_CONTAINER_AND_OPTS);
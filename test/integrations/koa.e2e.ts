@@ -0,0 +1,163 @@
+import * as test from "tape";
+import * as request from "supertest";
+import { generate as generateRandomString } from "randomstring";
+
+import {
+    ScoutEvent,
+    buildScoutConfiguration,
+} from "../../lib/types";
+
+import { setupRequireIntegrations } from "../../lib";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+// The hook for koa has to be triggered this way in a typescript context
+// since a partial import from scout itself (lib/index) will not run the setupRequireIntegrations() code
+setupRequireIntegrations(["koa"]);
+
+import * as TestUtil from "../util";
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { scoutMiddleware, findKoaRoutePath } from "../../lib/koa";
+
+import { ScoutContextName } from "../../lib/types";
+
+// koa needs to be required this way to trigger the require integration
+const Koa = require("koa");
+const Router = require("@koa/router");
+
+// Build a koa application with a (prefixed) echo route served by @koa/router
+function appWithEchoRouter(middleware?: any): any {
+    const app = new Koa();
+    if (middleware) { app.use(middleware); }
+
+    const router = new Router({prefix: "/mounted"});
+    router.get("/echo/:name", ctx => {
+        ctx.body = {status: "success", name: ctx.params.name};
+    });
+    router.get("/error", ctx => {
+        throw new Error("Expected application error (appWithEchoRouter)");
+    });
+
+    app.use(router.routes());
+    app.use(router.allowedMethods());
+
+    return app;
+}
+
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in Koa, "koa export has the integration symbol");
+    t.end();
+});
+
+test("route templates are resolved from @koa/router layers", t => {
+    const app = appWithEchoRouter();
+
+    t.equals(
+        findKoaRoutePath(app, "/mounted/echo/john", "GET"),
+        "/mounted/echo/:name",
+        "prefixed dynamic route was resolved",
+    );
+    t.equals(findKoaRoutePath(app, "/mounted/echo/john", "POST"), null, "unrouted method was not resolved");
+    t.equals(findKoaRoutePath(app, "/missing", "GET"), null, "unrouted path was not resolved");
+
+    t.end();
+});
+
+test("koa requests are recorded with the route template", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const app = appWithEchoRouter(scoutMiddleware({
+        scout,
+        requestTimeoutMs: 0, // disable request timeout to stop test from hanging
+    }));
+
+    const reqName = generateRandomString(5);
+
+    // Set up a listener for the scout request that will be sent after the route is hit
+    const listener = (data: ScoutEventRequestSentData) => {
+        if (!data || !data.request) { return; }
+
+        const spans = data.request.getChildSpansSync();
+        if (!spans || spans.length <= 0) { return; }
+
+        // Ensure that the top level span is a Controller span
+        const topLevelSpan = spans[0];
+        if (!topLevelSpan.operation.startsWith("Controller")) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(
+            topLevelSpan.operation,
+            "Controller/GET /mounted/echo/:name",
+            "operation matches the route template",
+        );
+
+        t.equals(
+            data.request.getContextValue(ScoutContextName.Path),
+            `/mounted/echo/${reqName}`,
+            "tagged URL matches the expected URL",
+        );
+
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => {
+            return request(app.callback())
+                .get(`/mounted/echo/${reqName}`)
+                .expect("Content-Type", /json/)
+                .expect(200)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("errors thrown downstream mark the request", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const app = appWithEchoRouter(scoutMiddleware({
+        scout,
+        requestTimeoutMs: 0, // disable request timeout to stop test from hanging
+    }));
+
+    // Koa logs errors that reach the application by default
+    app.silent = true;
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.assert(data.request.getContextValue(ScoutContextName.Error), "request had error context");
+
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => {
+            return request(app.callback())
+                .get("/mounted/error")
+                .expect(500)
+                .then(res => t.assert(res, "request sent"));
+        })
+    // If an error occurs, shutdown scout
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
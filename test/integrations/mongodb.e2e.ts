@@ -0,0 +1,147 @@
+import { setupRequireIntegrations } from "../../lib";
+// The hook for mongodb has to be triggered this way in a typescript context
+// since a partial import like { MongoClient } will not trigger a require
+setupRequireIntegrations(["mongodb"]);
+
+import * as test from "tape";
+import * as TestUtil from "../util";
+import * as Constants from "../../lib/constants";
+
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { ScoutEvent, buildScoutConfiguration } from "../../lib/types";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+import { ScoutContextName } from "../../lib/types";
+
+// mongodb needs to be required this way to trigger the require integration
+const mongodb = require("mongodb");
+
+let MONGODB_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
+
+// NOTE: this test *presumes* that the integration is working, since the integration is require-based
+// it may break if import order is changed (require hook would not have taken place)
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in mongodb, "mongodb export has the integration symbol");
+    t.end();
+});
+
+// Pseudo test that will start a containerized mongodb instance
+TestUtil.startContainerizedMongoDBTest(test, cao => {
+    MONGODB_CONTAINER_AND_OPTS = cao;
+});
+
+test("find during a request is recorded", {timeout: TestUtil.MONGODB_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    let client: any;
+
+    // Set up a listener for the scout request that will contain the DB record
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const dbSpan = spans.find(s => s.operation === "MongoDB/users/find");
+
+        // Exit early if the span isn't what we expect
+        if (!spans || !dbSpan) { return; }
+
+        // Remove the listener, since we only expect one db span
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.pass("db span was present on request");
+
+        const filter = JSON.parse(dbSpan.getContextValue(ScoutContextName.DBStatement) as string);
+        t.deepEquals(
+            filter,
+            {name: Constants.DEFAULT_DOCUMENT_SCRUB_REPLACEMENT},
+            "db.statement tag has the scrubbed filter",
+        );
+
+        // Shutdown the client and scout
+        client.close()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Connect to mongodb
+        .then(() => TestUtil.makeConnectedMongoClient(() => MONGODB_CONTAINER_AND_OPTS))
+        .then(c => client = c)
+    // Start a scout transaction & perform a query
+        .then(() => scout.transaction("Controller/mongodb-find-test", done => {
+            return client
+                .db()
+                .collection("users")
+                .find({name: "john"})
+                .toArray()
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            (client ? client.close() : Promise.resolve())
+                .then(() => TestUtil.shutdownScout(t, scout, err));
+        });
+});
+
+test("failed commands are marked as errors", {timeout: TestUtil.MONGODB_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    let client: any;
+
+    // Set up a listener for the scout request that will contain the DB record
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const dbSpan = spans.find(s => s.operation === "MongoDB/users/insert");
+
+        // Exit early if the span isn't what we expect
+        if (!spans || !dbSpan) { return; }
+
+        // Remove the listener, since we only expect one db span
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(dbSpan.getContextValue(ScoutContextName.Error), "true", "db span was marked as errored");
+
+        // Shutdown the client and scout
+        client.close()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Connect to mongodb
+        .then(() => TestUtil.makeConnectedMongoClient(() => MONGODB_CONTAINER_AND_OPTS))
+        .then(c => client = c)
+    // Start a scout transaction & insert a document twice, which fails on the duplicate _id
+        .then(() => scout.transaction("Controller/mongodb-duplicate-insert-test", done => {
+            const users = client.db().collection("users");
+            const user = {_id: "duplicate", name: "john"};
+
+            return users
+                .insertOne(user)
+                .then(() => users.insertOne(user))
+                .catch(() => t.pass("duplicate insert failed"))
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            (client ? client.close() : Promise.resolve())
+                .then(() => TestUtil.shutdownScout(t, scout, err));
+        });
+});
+
+// Pseudo test that will stop a containerized mongodb instance that was started
+TestUtil.stopContainerizedMongoDBTest(test, () => MONGODB_CONTAINER_AND_OPTS);
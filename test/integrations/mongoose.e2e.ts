@@ -0,0 +1,101 @@
+import { setupRequireIntegrations } from "../../lib";
+// The hooks for mongoose (and the driver it uses) have to be triggered this way in a typescript context
+setupRequireIntegrations(["mongodb", "mongoose"]);
+
+import * as test from "tape";
+import * as TestUtil from "../util";
+import * as Constants from "../../lib/constants";
+
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { ScoutEvent, buildScoutConfiguration } from "../../lib/types";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+import { ScoutContextName } from "../../lib/types";
+
+// mongoose needs to be required this way to trigger the require integration
+const mongoose = require("mongoose");
+
+const User = mongoose.model("User", new mongoose.Schema({name: String}));
+
+let MONGODB_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
+
+// NOTE: this test *presumes* that the integration is working, since the integration is require-based
+// it may break if import order is changed (require hook would not have taken place)
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in mongoose, "mongoose export has the integration symbol");
+    t.end();
+});
+
+// Pseudo test that will start a containerized mongodb instance
+TestUtil.startContainerizedMongoDBTest(test, cao => {
+    MONGODB_CONTAINER_AND_OPTS = cao;
+});
+
+test("Connecting mongoose", {timeout: TestUtil.MONGODB_TEST_TIMEOUT_MS}, t => {
+    TestUtil.makeMongoDBConnectionString(() => MONGODB_CONTAINER_AND_OPTS)
+        .then(url => mongoose.connect(url, {useNewUrlParser: true, useUnifiedTopology: true}))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("model operations are recorded without driver spans", {timeout: TestUtil.MONGODB_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Set up a listener for the scout request that will contain the DB records
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const findSpan = spans.find(s => s.operation === "MongoDB/User/find");
+
+        // Exit early if the span isn't what we expect
+        if (!spans || !findSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.assert(spans.find(s => s.operation === "MongoDB/User/save"), "save span was present");
+        t.equals(
+            findSpan.getContextValue(ScoutContextName.DBStatement),
+            JSON.stringify({name: Constants.DEFAULT_DOCUMENT_SCRUB_REPLACEMENT}),
+            "db.statement tag has the scrubbed filter",
+        );
+
+        // The driver's commands are already recorded by the mongoose spans
+        const driverSpans = spans
+            .concat(...spans.map(s => s.getChildSpansSync()))
+            .filter(s => s.operation.startsWith("MongoDB/users/"));
+        t.equals(driverSpans.length, 0, "no driver spans were recorded");
+
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Start a scout transaction & perform a save and a query
+        .then(() => scout.transaction("Controller/mongoose-save-and-find-test", done => {
+            return new User({name: "john"})
+                .save()
+                .then(() => User.find({name: "john"}).exec())
+                .then(users => t.assert(users.length > 0, "saved user was found"))
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("Disconnecting mongoose", t => {
+    mongoose.disconnect()
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+// Pseudo test that will stop a containerized mongodb instance that was started
+TestUtil.stopContainerizedMongoDBTest(test, () => MONGODB_CONTAINER_AND_OPTS);
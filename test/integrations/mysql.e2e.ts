@@ -24,7 +24,12 @@ import { SQL_QUERIES } from "../fixtures";
 // since a partial import like { Client } will not trigger a require
 setupRequireIntegrations(["mysql"]);
 
-import { Connection, createConnection as createMySQLConnection } from "mysql";
+import {
+    Connection,
+    Pool,
+    createConnection as createMySQLConnection,
+    createPool as createMySQLPool,
+} from "mysql";
 
 let MYSQL_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
 
@@ -36,6 +41,12 @@ test("the shim works", t => {
     t.end();
 });
 
+test("the pool shim works", t => {
+    const pool = createMySQLPool({host: "localhost", user: "mysql", password: "mysql"});
+    t.assert(getIntegrationSymbol() in pool, "created pool has the integration symbol");
+    pool.end(t.end);
+});
+
 // Pseudo test that will start a containerized mysql instance
 TestUtil.startContainerizedMySQLTest(test, cao => {
     MYSQL_CONTAINER_AND_OPTS = cao;
@@ -112,5 +123,69 @@ test("SELECT query during a request is recorded", {timeout: TestUtil.MYSQL_TEST_
         });
 });
 
+test("pooled query during a request is recorded with its acquisition", {timeout: TestUtil.MYSQL_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Setup a MYSQL Pool that we'll use later
+    let pool: Pool;
+
+    // Set up a listener for the scout request that will contain the DB record
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const spans = data.request.getChildSpansSync();
+        t.assert(
+            spans.find(s => s.operation === "MySQL/Connection/Acquire"),
+            "connection acquisition span was present on request",
+        );
+
+        const dbSpan = spans.find(s => s.operation === "SQL/Query");
+        t.assert(dbSpan, "db span was present on request");
+        if (dbSpan) {
+            t.equals(
+                dbSpan.getContextValue(ScoutContextName.DBStatement),
+                SQL_QUERIES.SELECT_TIME,
+                "db.statement tag is correct",
+            );
+        }
+
+        pool.end(() => {
+            TestUtil.shutdownScout(t, scout)
+                .catch(err => TestUtil.shutdownScout(t, scout, err));
+        });
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Create the pool
+        .then(() => pool = TestUtil.makeMySQLPool(() => MYSQL_CONTAINER_AND_OPTS))
+    // Start a scout transaction & perform a query through the pool
+        .then(() => scout.transaction("Controller/pool-select-now-test", finishTransaction => {
+            return new Promise((resolve, reject) => {
+                pool.query(SQL_QUERIES.SELECT_TIME, (err) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    t.pass("query performed");
+                    resolve();
+                });
+            })
+                .then(() => finishTransaction());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            TestUtil.shutdownScout(t, scout, err)
+                .then(() => pool ? pool.end() : undefined);
+        });
+});
+
 // Pseudo test that will stop a containerized mysql instance that was started
 TestUtil.stopContainerizedMySQLTest(test, () => MYSQL_CONTAINER_AND_OPTS);
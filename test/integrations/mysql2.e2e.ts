@@ -34,7 +34,11 @@ const mysql2 = require("mysql2");
 // likely because of the use of new Connection directly in test/util, need to check if
 // user use-case won't cause an issue (either require or setupRequireIntegrations should work)
 
-import { Connection, createConnection as createMySQL2Connection } from "mysql2/promise";
+import {
+    Connection,
+    createConnection as createMySQL2Connection,
+    createPool as createMySQL2Pool,
+} from "mysql2/promise";
 
 let MYSQL2_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
 
@@ -126,5 +130,101 @@ test("SELECT query during a request is recorded", t => {
         });
 });
 
+test("promise API query and execute during a request are recorded", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Setup a MYSQL2 promise Connection that we'll use later
+    let conn: any;
+
+    // Set up a listener for the scout request that will contain the DB records
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const dbSpans = data.request
+            .getChildSpansSync()
+            .filter(s => s.operation === "SQL/Query");
+        t.equals(dbSpans.length, 2, "db spans for the query and the prepared statement were present on request");
+        t.assert(
+            dbSpans.every(s => s.getContextValue(ScoutContextName.DBStatement) === SQL_QUERIES.SELECT_TIME),
+            "db.statement tags are correct",
+        );
+
+        conn.end()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Connect to the mysql2 using the promise API
+        .then(() => createMySQL2Connection(TestUtil.makeMySQL2ConnectionOptions(() => MYSQL2_CONTAINER_AND_OPTS)))
+        .then(c => conn = c)
+    // Start a scout transaction & perform a query and a prepared statement
+        .then(() => scout.transaction("Controller/promise-select-now-test", finishTransaction => {
+            return conn.query(SQL_QUERIES.SELECT_TIME)
+                .then(() => conn.execute(SQL_QUERIES.SELECT_TIME))
+                .then(() => t.pass("query and execute performed"))
+                .then(() => finishTransaction());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            TestUtil.shutdownScout(t, scout, err)
+                .then(() => conn ? conn.end() : undefined);
+        });
+});
+
+test("promise API pool query during a request is recorded", t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const pool = createMySQL2Pool(TestUtil.makeMySQL2ConnectionOptions(() => MYSQL2_CONTAINER_AND_OPTS));
+
+    // Set up a listener for the scout request that will contain the DB record
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const dbSpan = data.request
+            .getChildSpansSync()
+            .find(s => s.operation === "SQL/Query");
+        t.assert(dbSpan, "db span was present on request");
+        if (dbSpan) {
+            t.equals(
+                dbSpan.getContextValue(ScoutContextName.DBStatement),
+                SQL_QUERIES.SELECT_TIME,
+                "db.statement tag is correct",
+            );
+        }
+
+        pool.end()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Start a scout transaction & perform a query through the pool
+        .then(() => scout.transaction("Controller/pool-select-now-test", finishTransaction => {
+            return pool.query(SQL_QUERIES.SELECT_TIME)
+                .then(() => t.pass("query performed"))
+                .then(() => finishTransaction());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            TestUtil.shutdownScout(t, scout, err)
+                .then(() => pool.end());
+        });
+});
+
 // Pseudo test that will stop a containerized mysql2 instance that was started
 TestUtil.stopContainerizedMySQLTest(test, () => MYSQL2_CONTAINER_AND_OPTS);
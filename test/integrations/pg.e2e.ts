@@ -3,7 +3,7 @@ import { setupRequireIntegrations } from "../../lib";
 // since a partial import like { Client } will not trigger a require
 setupRequireIntegrations(["pg"]);
 
-import { Client } from "pg";
+import { Client, Pool } from "pg";
 import { Sequelize, QueryTypes } from "sequelize";
 
 import * as test from "tape";
@@ -24,6 +24,9 @@ import { ScoutContextName, ScoutSpanOperation } from "../../lib/types";
 
 import { SQL_QUERIES } from "../fixtures";
 
+// pg-cursor has no types
+const Cursor = require("pg-cursor");
+
 let PG_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
 
 // NOTE: this test *presumes* that the integration is working, since the integration is require-based
@@ -340,5 +343,120 @@ test("sequelize library works", {timeout: TestUtil.PG_TEST_TIMEOUT_MS}, t => {
         .catch(err => TestUtil.shutdownScout(t, scout, err));
 });
 
+test("pool query during a request is recorded with the client checkout", {timeout: TestUtil.PG_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Setup a PG Pool that we'll use later
+    let pool: Pool;
+
+    // Set up a listener for the scout request that will contain the DB records
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const acquireSpan = spans.find(s => s.operation === ScoutSpanOperation.PGConnectionAcquire);
+        const dbSpan = spans.find(s => s.operation === ScoutSpanOperation.SQLQuery);
+
+        // Exit early if the spans aren't what we expect
+        if (!acquireSpan || !dbSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.pass("client checkout span was present on request");
+        t.equals(
+            dbSpan.getContextValue(ScoutContextName.DBStatement),
+            SQL_QUERIES.SELECT_TIME,
+            "db.statement tag is correct",
+        );
+
+        pool.end()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Create the pool
+        .then(() => TestUtil.makePGConnectionString(() => PG_CONTAINER_AND_OPTS))
+        .then(connectionString => pool = new Pool({connectionString}))
+    // Start a scout transaction & perform a query through the pool
+        .then(() => scout.transaction("Controller/pool-select-now-test", done => {
+            return pool
+                .query(SQL_QUERIES.SELECT_TIME)
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            (pool ? pool.end() : Promise.resolve())
+                .then(() => TestUtil.shutdownScout(t, scout, err));
+        });
+});
+
+test("cursor reads during a request are recorded until the last row", {timeout: TestUtil.PG_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    // Setup a PG Client that we'll use later
+    let client: Client;
+
+    // How long to wait between cursor reads
+    const READ_DELAY_MS = 100;
+
+    // Set up a listener for the scout request that will contain the DB record
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const dbSpan = spans.find(s => s.operation === ScoutSpanOperation.SQLQuery);
+
+        // Exit early if the span isn't what we expect
+        if (!dbSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.equals(
+            dbSpan.getContextValue(ScoutContextName.DBStatement),
+            SQL_QUERIES.SELECT_TIME,
+            "db.statement tag is correct",
+        );
+
+        const durationMs = dbSpan.getEndTime().getTime() - dbSpan.getTimestamp().getTime();
+        t.assert(durationMs >= READ_DELAY_MS, `span lasted until the last read (${durationMs}ms)`);
+
+        client.end()
+            .then(() => TestUtil.shutdownScout(t, scout))
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    // Activate the listener
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Connect to the postgres
+        .then(() => TestUtil.makeConnectedPGClient(() => PG_CONTAINER_AND_OPTS))
+        .then(c => client = c)
+    // Start a scout transaction & read the results of a query through a cursor
+        .then(() => scout.transaction("Controller/cursor-select-now-test", done => {
+            const cursor = client.query(new Cursor(SQL_QUERIES.SELECT_TIME));
+
+            return new Promise(resolve => setTimeout(resolve, READ_DELAY_MS))
+                .then(() => new Promise((resolve, reject) => {
+                    cursor.read(10, (err, rows) => err ? reject(err) : resolve(rows));
+                }))
+                .then(() => new Promise(resolve => cursor.close(resolve)))
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            client.end()
+                .then(() => TestUtil.shutdownScout(t, scout, err));
+        });
+});
+
 // Pseudo test that will stop a containerized postgres instance that was started
 TestUtil.stopContainerizedPostgresTest(test, () => PG_CONTAINER_AND_OPTS);
@@ -0,0 +1,165 @@
+import { setupRequireIntegrations } from "../../lib";
+// The hook for redis has to be triggered this way in a typescript context
+// since a partial import like { createClient } will not trigger a require
+setupRequireIntegrations(["redis"]);
+
+import * as test from "tape";
+import * as TestUtil from "../util";
+
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { ScoutEvent, buildScoutConfiguration } from "../../lib/types";
+
+import {
+    Scout,
+    ScoutEventRequestSentData,
+} from "../../lib/scout";
+
+import { ScoutContextName } from "../../lib/types";
+
+// redis needs to be required this way to trigger the require integration
+const redis = require("redis");
+
+let REDIS_CONTAINER_AND_OPTS: TestUtil.ContainerAndOpts | null = null;
+
+// NOTE: this test *presumes* that the integration is working, since the integration is require-based
+// it may break if import order is changed (require hook would not have taken place)
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in redis, "redis export has the integration symbol");
+    t.end();
+});
+
+// Pseudo test that will start a containerized redis instance
+TestUtil.startContainerizedRedisTest(test, cao => {
+    REDIS_CONTAINER_AND_OPTS = cao;
+});
+
+test("commands and multi batches during a request are recorded", {timeout: TestUtil.REDIS_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const client = redis.createClient(TestUtil.makeRedisConnectionOptions(() => REDIS_CONTAINER_AND_OPTS));
+
+    // Set up a listener for the scout request that will contain the redis spans
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const setSpan = spans.find(s => s.operation === "Redis/SET");
+        const multiSpan = spans.find(s => s.operation === "Redis/MULTI");
+
+        // Exit early if the spans aren't what we expect
+        if (!setSpan || !multiSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.pass("SET span was present on request");
+        t.deepEquals(
+            multiSpan.getContextValue(ScoutContextName.DBCommands),
+            ["INCR", "GET"],
+            "MULTI span lists the batched commands",
+        );
+        t.equals(
+            spans.filter(s => s.operation === "Redis/INCR").length,
+            0,
+            "batched commands were not recorded separately",
+        );
+
+        client.quit();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+    // Start a scout transaction & perform a command and a multi
+        .then(() => scout.transaction("Controller/redis-test", done => {
+            return new Promise((resolve, reject) => {
+                client.set("key", "1", err => err ? reject(err) : resolve());
+            })
+                .then(() => new Promise((resolve, reject) => {
+                    client.multi()
+                        .incr("key")
+                        .get("key")
+                        .exec((err, replies) => err ? reject(err) : resolve(replies));
+                }))
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            client.quit();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+test("batches without an exec callback are recorded until replied to", {timeout: TestUtil.REDIS_TEST_TIMEOUT_MS}, t => {
+    const scout = new Scout(buildScoutConfiguration({
+        allowShutdown: true,
+        monitor: true,
+    }));
+
+    const client = redis.createClient(TestUtil.makeRedisConnectionOptions(() => REDIS_CONTAINER_AND_OPTS));
+
+    // Set up a listener for the scout request that will contain the redis spans
+    const listener = (data: ScoutEventRequestSentData) => {
+        const spans = data.request.getChildSpansSync();
+        const multiSpan = spans.find(s => s.operation === "Redis/MULTI");
+        const pipelineSpan = spans.find(s => s.operation === "Redis/PIPELINE");
+
+        // Exit early if the spans aren't what we expect
+        if (!multiSpan || !pipelineSpan) { return; }
+
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        t.assert(multiSpan.isStopped(), "MULTI span was stopped");
+        t.assert(pipelineSpan.isStopped(), "PIPELINE span was stopped");
+
+        client.quit();
+        TestUtil.shutdownScout(t, scout)
+            .catch(err => TestUtil.shutdownScout(t, scout, err));
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    // Get the span of the most recent batch of the current request
+    const getBatchSpan = (operation: string) => {
+        const req = scout.getCurrentRequest();
+        const spans = req ? req.getChildSpansSync().filter(s => s.operation === operation) : [];
+        return spans[spans.length - 1];
+    };
+
+    scout
+        .setup()
+    // Start a scout transaction & perform a multi and a batch without exec callbacks
+        .then(() => scout.transaction("Controller/redis-test", done => {
+            return new Promise((resolve, reject) => {
+                client.multi()
+                    .set("key", "1")
+                    .get("key", (err, reply) => err ? reject(err) : resolve(reply))
+                    .exec();
+
+                t.assert(!getBatchSpan("Redis/MULTI").isStopped(), "MULTI span is still running after exec");
+            })
+                .then(() => new Promise((resolve, reject) => {
+                    client.batch()
+                        .incr("key")
+                        .get("key", (err, reply) => {
+                            t.assert(getBatchSpan("Redis/PIPELINE").isStopped(), "PIPELINE span stopped on reply");
+                            return err ? reject(err) : resolve(reply);
+                        })
+                        .exec();
+
+                    t.assert(!getBatchSpan("Redis/PIPELINE").isStopped(), "PIPELINE span is still running after exec");
+                }))
+                .then(() => done());
+        }))
+    // Finish & Send the request
+        .catch(err => {
+            client.quit();
+            TestUtil.shutdownScout(t, scout, err);
+        });
+});
+
+// Pseudo test that will stop a containerized redis instance that was started
+TestUtil.stopContainerizedRedisTest(test, () => REDIS_CONTAINER_AND_OPTS);
@@ -0,0 +1,263 @@
+import * as test from "tape";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+import {
+    AgentType,
+    ScoutContextName,
+    ScoutEvent,
+    toTraceContextId,
+} from "../../lib/types";
+
+import { setupRequireIntegrations } from "../../lib";
+import { ScoutEventRequestSentData } from "../../lib/scout";
+import { getIntegrationSymbol } from "../../lib/types/integrations";
+import { UndiciIntegration } from "../../lib/integrations/undici";
+
+import * as TestUtil from "../util";
+
+// Subscribes to the diagnostics channels used by the global fetch (there is nothing to require)
+setupRequireIntegrations(["undici"]);
+
+// undici needs to be required this way to trigger the require integration
+const undici = require("undici");
+
+// The global fetch is only present on NodeJS 18+ (and isn't part of the typings in use)
+const fetch: any = (global as any).fetch;
+
+test("the shim works", t => {
+    t.assert(getIntegrationSymbol() in undici, "undici export has the integration symbol");
+    t.end();
+});
+
+test("undici.request and undici.fetch requests are recorded as HTTP spans", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+
+    // A downstream service which records the headers it receives
+    const received: http.IncomingHttpHeaders[] = [];
+    const downstream = http.createServer((req, res) => {
+        received.push(req.headers);
+        res.writeHead(req.method === "POST" ? 404 : 200, {"Content-Length": "2"});
+        res.end("ok");
+    });
+
+    const cleanup = (err?: Error) => {
+        downstream.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    let url: string;
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const spans = data.request.getChildSpansSync();
+        const requestSpan = spans.find(s => s.operation === "HTTP/GET");
+        const fetchSpan = spans.find(s => s.operation === "HTTP/POST");
+        if (!requestSpan || !fetchSpan) {
+            cleanup(new Error(`Missing undici spans, found [${spans.map(s => s.operation).join(", ")}]`));
+            return;
+        }
+
+        t.equals(requestSpan.getContextValue(ScoutContextName.URL), `${url}/users`, "request() url was recorded");
+        t.equals(requestSpan.getContextValue(ScoutContextName.HTTPStatusCode), 200, "request() status was recorded");
+        t.assert(requestSpan.isStopped(), "request() span was stopped");
+
+        t.equals(fetchSpan.getContextValue(ScoutContextName.URL), `${url}/orders`, "fetch() url was recorded");
+        t.equals(fetchSpan.getContextValue(ScoutContextName.HTTPStatusCode), 404, "fetch() status was recorded");
+        t.equals(fetchSpan.getContextValue(ScoutContextName.Error), "true", "error status marked the span as errored");
+        t.assert(fetchSpan.isStopped(), "fetch() span was stopped");
+
+        t.equals(received.length, 2, "both requests were sent");
+        t.assert(received.every(h => !!h.traceparent), "trace context was propagated");
+        t.deepEquals(
+            received.map(h => String(h.traceparent).split("-")[2]),
+            [requestSpan, fetchSpan].map(s => toTraceContextId(s.id, 16)),
+            "the parent ID of each request is its span",
+        );
+
+        cleanup();
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => downstream.listen(0, "127.0.0.1", resolve)))
+        .then(() => {
+            url = `http://127.0.0.1:${(downstream.address() as AddressInfo).port}`;
+
+            return scout.transaction("Controller/undici-test", finishRequest => {
+                return undici.request(`${url}/users`)
+                    .then(res => res.body.text())
+                    .then(() => undici.fetch(`${url}/orders`, {method: "POST", body: "{}"}))
+                    .then(res => res.text())
+                    .then(() => finishRequest());
+            });
+        })
+        .catch(cleanup);
+});
+
+test("undici.request and undici.fetch are shimmed when diagnostics channels are not available", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+
+    // An integration that has not subscribed to the diagnostics channels, shimming an undici-like export
+    const integration: any = new UndiciIntegration();
+    integration.setScoutInstance(scout);
+
+    // Options the (fake) functions were called with
+    const calledWith: any[] = [];
+
+    const undiciExport: any = ["request", "fetch"].reduce(
+        (exported, fnName) => integration.shimUndiciFunction(exported, fnName),
+        {
+            request: (url, options) => {
+                calledWith.push(options);
+                return Promise.resolve({statusCode: 200});
+            },
+            fetch: (input, options) => {
+                calledWith.push(options);
+                return Promise.reject(new Error("connection refused"));
+            },
+        },
+    );
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const [requestSpan, fetchSpan] = data.request.getChildSpansSync();
+        if (!requestSpan || !fetchSpan) {
+            TestUtil.shutdownScout(t, scout, new Error("Missing undici spans"));
+            return;
+        }
+
+        t.equals(requestSpan.operation, "HTTP/GET", "request() span was recorded");
+        t.equals(requestSpan.getContextValue(ScoutContextName.URL), "http://example.org/users", "url was recorded");
+        t.equals(requestSpan.getContextValue(ScoutContextName.HTTPStatusCode), 200, "status code was recorded");
+
+        t.equals(fetchSpan.operation, "HTTP/PUT", "fetch() span was recorded with the request's method");
+        t.equals(fetchSpan.getContextValue(ScoutContextName.Error), "true", "failure marked the span as errored");
+        t.assert(fetchSpan.isStopped(), "failed request's span was stopped");
+
+        const [requestOptions, fetchOptions] = calledWith;
+        t.equals(requestOptions.headers["x-request-id"], "abc", "headers set by the caller were kept");
+        t.equals(
+            String(requestOptions.headers.traceparent).split("-")[2],
+            toTraceContextId(requestSpan.id, 16),
+            "request() propagated the trace context, with its span as the parent",
+        );
+        t.equals(
+            String(fetchOptions.headers.traceparent).split("-")[2],
+            toTraceContextId(fetchSpan.id, 16),
+            "fetch() propagated the trace context, with its span as the parent",
+        );
+
+        TestUtil.shutdownScout(t, scout);
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => scout.transaction("Controller/undici-fallback-test", finishRequest => {
+            const options = {headers: {"x-request-id": "abc"}};
+
+            return undiciExport.request({origin: "http://example.org", path: "/users"}, options)
+                .then(() => undiciExport.fetch({url: "http://example.org/orders", method: "PUT"}))
+                .then(() => t.fail("fetch() should have failed"))
+                .catch(err => t.equals(err.message, "connection refused", "the error is passed through"))
+                .then(() => finishRequest());
+        }))
+        .catch(err => TestUtil.shutdownScout(t, scout, err));
+});
+
+test("global fetch requests are recorded as HTTP spans", {skip: typeof fetch !== "function"}, t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+
+    // A downstream service which records the headers it receives
+    const received: http.IncomingHttpHeaders[] = [];
+    const downstream = http.createServer((req, res) => {
+        received.push(req.headers);
+        res.writeHead(req.method === "POST" ? 500 : 200, {"Content-Length": "2"});
+        res.end("ok");
+    });
+
+    const cleanup = (err?: Error) => {
+        downstream.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    let url: string;
+
+    const listener = (data: ScoutEventRequestSentData) => {
+        scout.removeListener(ScoutEvent.RequestSent, listener);
+
+        const spans = data.request.getChildSpansSync();
+        const getSpan = spans.find(s => s.operation === "HTTP/GET");
+        const postSpan = spans.find(s => s.operation === "HTTP/POST");
+        if (!getSpan || !postSpan) {
+            cleanup(new Error(`Missing fetch spans, found [${spans.map(s => s.operation).join(", ")}]`));
+            return;
+        }
+
+        t.equals(getSpan.getContextValue(ScoutContextName.URL), `${url}/users?page=2`, "url was recorded");
+        t.equals(getSpan.getContextValue(ScoutContextName.HTTPStatusCode), 200, "status code was recorded");
+        t.equals(
+            getSpan.getContextValue(ScoutContextName.HTTPResponseContentLength),
+            2,
+            "response size was recorded",
+        );
+        t.equals(getSpan.getContextValue(ScoutContextName.Error), undefined, "successful request is not errored");
+        t.assert(getSpan.isStopped(), "span was stopped");
+
+        t.equals(postSpan.getContextValue(ScoutContextName.HTTPMethod), "POST", "method was recorded");
+        t.equals(postSpan.getContextValue(ScoutContextName.Error), "true", "error status marked the span as errored");
+
+        t.assert(
+            /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/.test(String(received[0].traceparent)),
+            "trace context was propagated",
+        );
+
+        cleanup();
+    };
+
+    scout.on(ScoutEvent.RequestSent, listener);
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => downstream.listen(0, "127.0.0.1", resolve)))
+        .then(() => {
+            url = `http://127.0.0.1:${(downstream.address() as AddressInfo).port}`;
+
+            return scout.transaction("Controller/fetch-test", finishRequest => {
+                return fetch(`${url}/users?page=2`)
+                    .then(res => res.text())
+                    .then(() => fetch(`${url}/users`, {method: "POST", body: "{}"}))
+                    .then(res => res.text())
+                    .then(() => finishRequest());
+            });
+        })
+        .catch(cleanup);
+});
+
+test("fetch requests made outside of a transaction are not recorded", {skip: typeof fetch !== "function"}, t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const downstream = http.createServer((req, res) => res.end("ok"));
+
+    let sent = 0;
+    scout.on(ScoutEvent.RequestSent, () => sent++);
+
+    const cleanup = (err?: Error) => {
+        downstream.close();
+        TestUtil.shutdownScout(t, scout, err);
+    };
+
+    scout
+        .setup()
+        .then(() => new Promise(resolve => downstream.listen(0, "127.0.0.1", resolve)))
+        .then(() => fetch(`http://127.0.0.1:${(downstream.address() as AddressInfo).port}/`))
+        .then(res => res.text())
+        .then(() => t.equals(sent, 0, "no request was created for the fetch"))
+        .then(() => cleanup())
+        .catch(cleanup);
+});
@@ -0,0 +1,47 @@
+import * as test from "tape";
+
+import ScoutRequest from "../../../lib/scout/request";
+import { AgentRequestType, ScoutContextName } from "../../../lib/types";
+import * as Requests from "../../../lib/protocol/v1/requests";
+
+test("V1BatchCommand serializes a completed request tree in order", t => {
+    const req = new ScoutRequest({}).startSync();
+    const parent = req.startChildSpanSync("Controller/GET /").startSync();
+    const child = parent.startChildSpanSync("SQL/Query").startSync();
+    child.addContextSync(ScoutContextName.DBStatement, "SELECT 1");
+    child.stopSync();
+    parent.stopSync();
+    req.addContextSync(ScoutContextName.Path, "/");
+    req.stopSync();
+
+    const batch = Requests.V1BatchCommand.fromScoutRequest(req);
+    const types = batch.commands.map(c => c.type);
+    const tagSpans = batch.commands
+        .filter(c => c.type === AgentRequestType.V1TagSpan)
+        .map(c => c as Requests.V1TagSpan);
+
+    t.equals(batch.type, AgentRequestType.V1BatchCommand, "type is batch command");
+    t.equals(types[0], AgentRequestType.V1StartRequest, "batch starts with the StartRequest");
+    t.equals(types[types.length - 1], AgentRequestType.V1FinishRequest, "batch ends with the FinishRequest");
+    t.deepEquals(
+        batch.commands
+            .filter(c => c.type === AgentRequestType.V1StartSpan)
+            .map(c => [(c as Requests.V1StartSpan).operation, (c as Requests.V1StartSpan).parentId]),
+        [["Controller/GET /", undefined], ["SQL/Query", parent.id]],
+        "spans are started parent first, with their parent IDs",
+    );
+    t.assert(
+        tagSpans.some(c => c.spanId === child.id && c.tagName === ScoutContextName.DBStatement),
+        "child span tags are present",
+    );
+    t.assert(
+        types.indexOf(AgentRequestType.V1TagRequest) > types.lastIndexOf(AgentRequestType.V1StopSpan),
+        "request tags are sent after the spans",
+    );
+
+    const json: any = batch.json;
+    t.equals(json.BatchCommand.commands.length, batch.commands.length, "all commands are in the JSON");
+    t.deepEquals(json.BatchCommand.commands[0], batch.commands[0].json, "commands are serialized as-is");
+
+    t.end();
+});
@@ -0,0 +1,207 @@
+import * as test from "tape";
+import * as http from "http";
+import { gunzipSync } from "zlib";
+import { AddressInfo } from "net";
+
+import * as TestUtil from "../util";
+import InMemoryAgent from "../../lib/agents/in-memory";
+
+import * as scoutAPI from "../../lib";
+import { ErrorReporter, CapturedError, buildRequestErrorContext } from "../../lib/scout";
+import {
+    AgentRequestType,
+    AgentType,
+    ApplicationEventType,
+    ScoutContextName,
+    ScoutEvent,
+    buildScoutConfiguration,
+} from "../../lib/types";
+import * as Requests from "../../lib/protocol/v1/requests";
+import * as Constants from "../../lib/constants";
+
+class PaymentDeclined extends Error {}
+
+test("captured errors are filtered, and sent to the core-agent as an application event", t => {
+    const config = buildScoutConfiguration({errorsFilteredParams: ["card_cvc"], revisionSHA: "abc123"});
+    const events: Requests.V1ApplicationEvent[] = [];
+    const reporter = new ErrorReporter(config, {
+        sendEvent: event => {
+            events.push(event);
+            return Promise.resolve();
+        },
+    });
+
+    const err = new PaymentDeclined("card was declined");
+
+    reporter.capture(err, {
+        requestURI: "/payments",
+        params: {amount: 10, password: "hunter2", card: {card_cvc: "123", Token: "tok"}},
+        session: {user_id: 1, secret: "s"},
+    })
+        .then(captured => {
+            if (!captured) { throw new Error("error was not captured"); }
+
+            t.equals(captured.exceptionClass, "PaymentDeclined", "exception class is the error's class");
+            t.equals(captured.message, "card was declined", "message is the error's message");
+            t.assert(captured.trace.length > 0, "trace was processed from the error's stack");
+            t.deepEquals(
+                captured.context.params,
+                {amount: 10, password: "[FILTERED]", card: {card_cvc: "[FILTERED]", Token: "[FILTERED]"}},
+                "common & configured params were filtered, at any depth",
+            );
+            t.deepEquals(captured.context.session, {user_id: 1, secret: "[FILTERED]"}, "session was filtered");
+        })
+        .then(() => reporter.capture(err))
+        .then(captured => t.equals(captured, null, "an error is only captured once"))
+        .then(() => reporter.flush())
+        .then(() => {
+            t.equals(events.length, 1, "one application event was sent");
+            t.equals(events[0].eventType, ApplicationEventType.ErrorReport, "event type is the error report");
+
+            const payload: any = events[0].eventValue;
+            t.equals(payload.notifier, Constants.ERRORS_NOTIFIER_NAME, "notifier is set");
+            t.equals(payload.problems.length, 1, "payload contains the captured error");
+            t.equals(payload.problems[0].request_uri, "/payments", "request URI is reported");
+            t.equals(payload.problems[0].revision_sha, "abc123", "revision SHA is reported");
+            t.assert(payload.problems[0].trace[0].includes("error-reporter.unit.js"), "trace points at the error");
+        })
+        .then(() => reporter.flush())
+        .then(() => t.equals(events.length, 1, "nothing is sent when no errors were captured"))
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("captured errors are POSTed to the errors endpoint when one is configured", t => {
+    const received: Array<{url: string, headers: http.IncomingHttpHeaders, body: any}> = [];
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", c => chunks.push(c));
+        req.on("end", () => {
+            received.push({
+                url: req.url || "",
+                headers: req.headers,
+                body: JSON.parse(gunzipSync(Buffer.concat(chunks)).toString()),
+            });
+            res.end();
+        });
+    });
+
+    const cleanup = (err?: Error) => {
+        server.close();
+        t.end(err);
+    };
+
+    new Promise(resolve => server.listen(0, "127.0.0.1", resolve))
+        .then(() => {
+            const port = (server.address() as AddressInfo).port;
+            const reporter = new ErrorReporter(buildScoutConfiguration({
+                name: "app",
+                key: "s3cr3t",
+                errorsEndpoint: `http://127.0.0.1:${port}/apps/error.scout`,
+            }));
+
+            return reporter.capture(new Error("first"))
+                .then(() => reporter.capture(new Error("second")))
+                .then(() => reporter.flush());
+        })
+        .then(() => {
+            t.equals(received.length, 1, "one batch was sent");
+            t.equals(received[0].url, "/apps/error.scout?key=s3cr3t&name=app", "key & name were sent as params");
+            t.equals(received[0].headers["x-error-count"], "2", "error count header was sent");
+            t.deepEquals(
+                received[0].body.problems.map(p => p.message),
+                ["first", "second"],
+                "errors were sent in the order they were captured",
+            );
+        })
+        .then(() => cleanup())
+        .catch(cleanup);
+});
+
+test("request details exclude credential headers", t => {
+    const context = buildRequestErrorContext({
+        method: "POST",
+        httpVersion: "1.1",
+        headers: {host: "example.org", cookie: "sid=1", authorization: "Bearer x"},
+        query: {page: "2"},
+        body: {name: "test"},
+        params: {id: "5"},
+    });
+
+    t.deepEquals(context.params, {page: "2", name: "test", id: "5"}, "query, body & route params are combined");
+    t.deepEquals(
+        context.environment,
+        {method: "POST", httpVersion: "1.1", headers: {host: "example.org"}},
+        "credential headers are not reported",
+    );
+
+    t.end();
+});
+
+test("request headers are filtered with the common & configured params", t => {
+    const reporter = new ErrorReporter(buildScoutConfiguration({errorsFilteredParams: ["session_token"]}));
+
+    reporter.capture(new Error("failed"), {
+        environment: {
+            method: "GET",
+            headers: {"host": "example.org", "session-token": "abc", "api-key": "k", "x-secret": "s"},
+        },
+    })
+        .then(captured => {
+            if (!captured) { throw new Error("error was not captured"); }
+
+            t.deepEquals(
+                captured.context.environment,
+                {
+                    method: "GET",
+                    headers: {
+                        "host": "example.org",
+                        "session-token": "[FILTERED]",
+                        "api-key": "[FILTERED]",
+                        "x-secret": "s",
+                    },
+                },
+                "headers named after filtered params (with dashes as underscores) were filtered",
+            );
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
+
+test("scout.api.Error.capture reports the current request's details", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory});
+    const captured: CapturedError[] = [];
+    scout.on(ScoutEvent.ErrorCaptured, e => captured.push(e));
+
+    let requestId: string;
+
+    scout.setup()
+        .then(() => scout.transaction("Controller/GET /orders", finishRequest => {
+            const request = scout.getCurrentRequest();
+            if (!request) { throw new Error("no current request"); }
+
+            requestId = request.id;
+            request.addContextSync(ScoutContextName.Path, "/orders");
+            request.addContextSync("user_email", "user@example.org");
+
+            return scoutAPI.api.Error.capture(new Error("handled"), {params: {page: 1}}, scout)
+                .then(() => finishRequest());
+        }))
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            return scout.shutdown().then(() => agent);
+        })
+        .then(agent => {
+            t.equals(captured.length, 1, "error captured event was emitted");
+            t.equals(captured[0].context.requestId, requestId, "request ID is reported");
+            t.equals(captured[0].context.requestURI, "/orders", "request path is reported");
+            t.deepEquals(captured[0].context.context, {user_email: "user@example.org"}, "custom context is reported");
+            t.deepEquals(captured[0].context.params, {page: 1}, "passed params are reported");
+
+            const events = (agent.getCommands(AgentRequestType.V1ApplicationEvent) as Requests.V1ApplicationEvent[])
+                .filter(e => e.eventType === ApplicationEventType.ErrorReport);
+            t.equals(events.length, 1, "captured errors were sent on shutdown");
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
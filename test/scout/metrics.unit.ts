@@ -0,0 +1,86 @@
+import * as test from "tape";
+
+import * as TestUtil from "../util";
+import InMemoryAgent from "../../lib/agents/in-memory";
+
+import * as scoutAPI from "../../lib";
+import { MetricsAggregator } from "../../lib/scout";
+import { AgentRequestType, AgentType, ApplicationEventType } from "../../lib/types";
+import * as Requests from "../../lib/protocol/v1/requests";
+import * as Constants from "../../lib/constants";
+
+test("metrics are aggregated per interval", t => {
+    const metrics = new MetricsAggregator({maxMetrics: 4});
+
+    metrics.increment("jobs.enqueued");
+    metrics.increment("jobs.enqueued", 4);
+    metrics.gauge("queue.depth", 10);
+    metrics.gauge("queue.depth", 7);
+    metrics.timing("job.duration", 30);
+    metrics.timing("job.duration", 10);
+    metrics.timing("job.duration", 20);
+
+    // Values that can't be recorded
+    metrics.gauge("jobs.enqueued", 1);
+    metrics.increment("jobs.failed", NaN);
+    metrics.increment("", 1);
+
+    const events = metrics.flush();
+    const values = events.reduce((acc, e) => {
+        acc[e.eventType] = e.eventValue;
+        return acc;
+    }, {});
+
+    t.deepEquals(
+        values,
+        {
+            "Custom/jobs.enqueued": 5,
+            "Custom/queue.depth": 7,
+            "Custom/job.duration": {count: 3, total: 60, min: 10, max: 30, mean: 20},
+        },
+        "counters are summed, the last gauge value is kept and timings are summarized",
+    );
+    t.assert(metrics.isEmpty(), "metrics are reset once flushed");
+
+    ["a", "b", "c", "d", "e"].forEach(name => metrics.increment(name));
+    t.equals(metrics.flush().length, 4, "metrics past the limit are dropped");
+
+    t.end();
+});
+
+test("scout.api.Metrics values are sent with the statistics", t => {
+    const scout = TestUtil.buildTestScoutInstance({agentType: AgentType.InMemory}, {statisticsIntervalMS: 50});
+
+    const getEventTypes = (agent: InMemoryAgent) => agent.getCommands(AgentRequestType.V1ApplicationEvent)
+        .map(e => (e as Requests.V1ApplicationEvent).eventType);
+    const customEventType = (name: string) => `${Constants.CUSTOM_METRICS_EVENT_TYPE_PREFIX}${name}`;
+
+    scout.setup()
+        .then(() => {
+            scoutAPI.api.Metrics.increment("orders.created", 1, scout);
+            scoutAPI.api.Metrics.gauge("queue.depth", 3, scout);
+        })
+        .then(() => TestUtil.waitMs(120))
+        .then(() => {
+            const eventTypes = getEventTypes(scout.getAgent() as InMemoryAgent);
+
+            t.assert(eventTypes.includes(ApplicationEventType.CPUUtilizationPercent), "CPU usage was sent");
+            t.assert(eventTypes.includes(customEventType("orders.created")), "counter was sent");
+            t.assert(eventTypes.includes(customEventType("queue.depth")), "gauge was sent");
+
+            // Metrics recorded after the last interval are sent on shutdown
+            scoutAPI.api.Metrics.timing("shutdown.prep", 5, scout);
+        })
+        .then(() => {
+            const agent = scout.getAgent() as InMemoryAgent;
+            return scout.shutdown().then(() => agent);
+        })
+        .then(agent => {
+            t.assert(
+                getEventTypes(agent).includes(customEventType("shutdown.prep")),
+                "remaining metrics were sent on shutdown",
+            );
+        })
+        .then(() => t.end())
+        .catch(t.end);
+});
@@ -0,0 +1,104 @@
+import * as test from "tape";
+import * as path from "path";
+import * as tmp from "tmp-promise";
+
+import * as Errors from "../../lib/errors";
+import * as TestUtil from "../util";
+
+import { Scout } from "../../lib/scout";
+import { ScoutContextName } from "../../lib/types";
+import { FakeCoreAgent, RecordedTransaction } from "../../lib/testing";
+
+// Report a transaction with a nested span tree through scout
+function reportUsersTransaction(scout: Scout): Promise<any> {
+    return scout.transaction("Controller/GET /users", finishRequest => {
+        return scout.instrument("Controller/GET /users", finishController => {
+            return scout.instrument("SQL/Query", finishQuery => {
+                scout.addContext(ScoutContextName.DBStatement, "SELECT * FROM users");
+                return finishQuery();
+            })
+                .then(() => scout.instrument("Template/Render", finishRender => finishRender()))
+                .then(() => scout.addContext("user_count", 2, scout.getCurrentRequest() || undefined))
+                .then(() => finishController())
+                .then(() => finishRequest());
+        });
+    });
+}
+
+test("fake core-agent records transactions sent by scout over TCP", t => {
+    const agent = new FakeCoreAgent();
+    let scout: Scout;
+
+    agent.start()
+        .then(() => {
+            t.assert(agent.getSocketPath().startsWith("tcp://"), `listening on TCP (${agent.getSocketPath()})`);
+            scout = TestUtil.buildTestScoutInstance(agent.getScoutConfiguration());
+        })
+        .then(() => scout.setup())
+        .then(() => reportUsersTransaction(scout))
+        .then(() => agent.waitForTransaction("Controller/GET /users"))
+        .then((transaction: RecordedTransaction) => {
+            t.equals(agent.getCommands("Register").length, 1, "registration was received");
+
+            transaction.expectSpanTree([
+                {operation: "Controller/GET /users", children: ["SQL/Query", "Template/Render"]},
+            ]);
+            t.pass("span tree matches");
+
+            transaction.expectSpan("SQL/Query").expectTag(ScoutContextName.DBStatement, "SELECT * FROM users");
+            t.pass("span tag matches");
+
+            transaction.expectTag("user_count", 2);
+            t.pass("transaction tag matches");
+
+            t.throws(
+                () => transaction.expectSpanTree(["Controller/GET /users", "SQL/Query"]),
+                Errors.ExpectationFailed,
+                "mismatched span tree fails",
+            );
+            t.throws(
+                () => agent.expectTransaction("Controller/GET /missing"),
+                Errors.ExpectationFailed,
+                "missing transaction fails",
+            );
+
+            agent.clear();
+            t.equals(agent.getTransactions().length, 0, "transactions were cleared");
+        })
+        .then(() => scout.shutdown())
+        .then(() => agent.stop())
+        .then(() => t.end())
+        .catch(err => agent.stop().then(() => t.end(err)));
+});
+
+test("fake core-agent listens on unix sockets", t => {
+    let agent: FakeCoreAgent;
+    let scout: Scout;
+
+    tmp.dir({prefix: "scout-fake-core-agent-test", unsafeCleanup: true})
+        .then(result => agent = new FakeCoreAgent({socketPath: path.join(result.path, "core-agent.sock")}))
+        .then(() => agent.start())
+        .then(() => scout = TestUtil.buildTestScoutInstance(agent.getScoutConfiguration()))
+        .then(() => scout.setup())
+        .then(() => scout.transaction("Job/unix", finishRequest => {
+            return scout.instrument("Job/unix", finishSpan => finishSpan())
+                .then(() => finishRequest());
+        }))
+        .then(() => agent.waitForTransaction("Job/unix"))
+        .then(transaction => t.deepEquals(transaction.spans.map(s => s.operation), ["Job/unix"], "job was recorded"))
+        .then(() => scout.shutdown())
+        .then(() => agent.stop())
+        .then(() => t.end())
+        .catch(err => agent.stop().then(() => t.end(err)));
+});
+
+test("waitForTransaction fails when the transaction never arrives", t => {
+    const agent = new FakeCoreAgent();
+
+    agent.start()
+        .then(() => agent.waitForTransaction("Controller/never", 100))
+        .then(() => t.fail("waitForTransaction should have failed"))
+        .catch(err => t.assert(err instanceof Errors.ExpectationFailed, "ExpectationFailed was thrown"))
+        .then(() => agent.stop())
+        .then(() => t.end());
+});
@@ -2,6 +2,7 @@ import * as path from "path";
 import * as tmp from "tmp-promise";
 import * as express from "express";
 import * as net from "net";
+import * as http from "http";
 import { Express, Application, Request, Response } from "express";
 import { generate as generateRandomString } from "randomstring";
 import { timeout, TimeoutError } from "promise-timeout";
@@ -11,7 +12,7 @@ import { Readable } from "stream";
 
 import { Client } from "pg";
 
-import { Connection, createConnection as createMySQLConnection } from "mysql";
+import { Connection, Pool, createConnection as createMySQLConnection, createPool as createMySQLPool } from "mysql";
 
 import { Connection as MySQL2Connection, createConnection as createMySQL2Connection } from "mysql2";
 import * as ConnectionConfig from "mysql2/lib/connection_config";
@@ -23,6 +24,8 @@ import {
     APIVersion,
     Agent,
     AgentDownloadOptions,
+    AgentRequestType,
+    BaseAgentRequest,
     CoreAgentVersion,
     ProcessOptions,
     ScoutConfiguration,
@@ -33,7 +36,7 @@ import {
 } from "../lib/types";
 import { ScoutOptions, Scout, ScoutRequest, ScoutSpan } from "../lib/scout";
 import { DEFAULT_SCOUT_CONFIGURATION } from "../lib/types/config";
-import { V1Register } from "../lib/protocol/v1/requests";
+import { V1Register, V1BatchCommand } from "../lib/protocol/v1/requests";
 import { Test } from "tape";
 
 import { FILE_PATHS } from "./fixtures";
@@ -48,6 +51,8 @@ export const EXPRESS_TEST_TIMEOUT_MS = 3000;
 // for control over the amount of start time alotted see `startTimeoutMs`
 export const PG_TEST_TIMEOUT_MS = 10000;
 export const MYSQL_TEST_TIMEOUT_MS = 10000;
+export const MONGODB_TEST_TIMEOUT_MS = 10000;
+export const REDIS_TEST_TIMEOUT_MS = 10000;
 export const DASHBOARD_SEND_TIMEOUT_MS = 1000 * 60 * 3; // 3 minutes
 export const MEMORY_LEAK_TEST_TIMEOUT_MS = 1000 * 60 * 6; // 6 minutes
 
@@ -275,6 +280,57 @@ export function appWithGETSynchronousError(
     return app;
 }
 
+// Make an express application that requests a given URL (ex. another service) before responding
+export function appWithGETOutboundRequest(middleware: any, getURL: () => string): Application {
+    const app = express();
+    app.use(middleware);
+
+    app.get("/", (req: Request, res: Response) => {
+        http.get(getURL(), outboundRes => {
+            outboundRes.resume();
+            outboundRes.on("end", () => res.send({status: "success"}));
+        });
+    });
+
+    return app;
+}
+
+export function appWithGETAsyncError(
+    middleware: any,
+    expressFnTransform: (expressFn: ExpressFn) => ExpressFn,
+): Application {
+    const app = expressFnTransform(express)();
+    app.use(middleware);
+
+    app.get("/", (req: any, res: Response) => {
+        return waitMs(10).then(() => {
+            res.status(503).send("unavailable");
+            throw new Error("Expected application error (appWithGETAsyncError)");
+        });
+    });
+
+    return app;
+}
+
+export function appWithGETNextError(
+    middleware: any,
+    errorHandler: any,
+    expressFnTransform: (expressFn: ExpressFn) => ExpressFn,
+): Application {
+    const app = expressFnTransform(express)();
+    app.use(middleware);
+
+    app.get("/", (req: any, res: Response, next: (err?: any) => void) => {
+        const err: any = new TypeError("Expected application error (appWithGETNextError)");
+        err.status = 422;
+        setImmediate(() => next(err));
+    });
+
+    app.use(errorHandler);
+
+    return app;
+}
+
 export function appWithHTTPProxyMiddleware(
     middleware: any,
     proxyTarget: string,
@@ -822,6 +878,71 @@ export function createClientCollectingServer(): [net.Server, ServerShutdownFn] {
     return [server, shutdown];
 }
 
+// A tunnel that was requested (with CONNECT) through a proxy stand-in
+export interface ProxiedConnect {
+    target: string;
+    proxyAuthorization?: string;
+}
+
+// A stand-in for a HTTP proxy, which tunnels CONNECT requests (requiring basic auth if credentials are given)
+export function createProxyStandIn(credentials?: string): [http.Server, ProxiedConnect[], ServerShutdownFn] {
+    const connects: ProxiedConnect[] = [];
+    const sockets: net.Socket[] = [];
+    const expectedAuth = credentials ? `Basic ${Buffer.from(credentials).toString("base64")}` : undefined;
+
+    const server = http.createServer((req, res) => {
+        res.writeHead(405);
+        res.end();
+    });
+
+    server.on("connect", (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+        const proxyAuthorization = req.headers["proxy-authorization"];
+        connects.push({target: req.url || "", proxyAuthorization});
+        sockets.push(client);
+
+        if (expectedAuth && proxyAuthorization !== expectedAuth) {
+            client.end("HTTP/1.1 407 Proxy Authentication Required\r\n\r\n");
+            return;
+        }
+
+        const [host, port] = (req.url || "").split(":");
+        const upstream = net.connect(parseInt(port, 10), host, () => {
+            client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+            upstream.write(head);
+            upstream.pipe(client);
+            client.pipe(upstream);
+        });
+        sockets.push(upstream);
+
+        upstream.on("error", () => client.destroy());
+        client.on("error", () => upstream.destroy());
+    });
+
+    const shutdown = () => {
+        // Tear down all the tunnels and close the server
+        sockets.forEach(s => s.destroy());
+        server.close();
+    };
+
+    return [server, connects, shutdown];
+}
+
+// A server that responds to every request with a fake core-agent binary (named by the Content-Disposition header)
+export function createFakeAgentDownloadServer(): [http.Server, ServerShutdownFn] {
+    const server = http.createServer((req, res) => {
+        res.writeHead(200, {
+            "Content-Disposition": `attachment; filename="${Constants.CORE_AGENT_BIN_FILE_NAME}"`,
+            "Content-Type": "application/octet-stream",
+            "Connection": "close",
+        });
+        res.end("#!/bin/sh\n");
+    });
+
+    const shutdown = () => server.close();
+
+    return [server, shutdown];
+}
+
 const MYSQL_IMAGE_NAME = "mysql";
 const MYSQL_IMAGE_TAG = "5.7.29";
 // mysql takes this long to start up, can't wait for output because
@@ -945,6 +1066,19 @@ export function makeConnectedMySQLConnection(provider: () => ContainerAndOpts |
     });
 }
 
+// Helper for creating a connection pool for MySQL
+export function makeMySQLPool(provider: () => ContainerAndOpts | null): Pool {
+    const cao = provider();
+    if (!cao) { throw new Error("no CAO in provider"); }
+
+    return createMySQLPool({
+        user: "root",
+        password: "mysql",
+        host: "localhost",
+        port: cao.opts.portBinding[3306],
+    });
+}
+
 // Helper for creating a connected connection for MySQL
 export function makeConnectedMySQL2Connection(provider: () => ContainerAndOpts | null): Promise<Connection> {
     const cao = provider();
@@ -981,6 +1115,153 @@ export function makeConnectedMySQL2Connection(provider: () => ContainerAndOpts |
     }
 }
 
+// Helper for building the connection options for MySQL2 (ex. for the promise API)
+export function makeMySQL2ConnectionOptions(provider: () => ContainerAndOpts | null): object {
+    const cao = provider();
+    if (!cao) { throw new Error("no CAO in provider"); }
+
+    return {
+        user: "root",
+        password: "mysql",
+        host: "localhost",
+        port: cao.opts.portBinding[3306],
+    };
+}
+
+const MONGODB_IMAGE_NAME = "mongo";
+const MONGODB_IMAGE_TAG = "4.4";
+const MONGODB_STARTUP_MESSAGE = "Waiting for connections";
+
+// Utility function to start a mongodb instance
+export function startContainerizedMongoDBTest(
+    test: any,
+    cb: (cao: ContainerAndOpts) => void,
+    tagName?: string,
+) {
+    tagName = tagName || MONGODB_IMAGE_TAG;
+
+    test("Starting mongodb instance", (t: Test) => {
+        let port: number;
+        let containerAndOpts: ContainerAndOpts;
+
+        getPort()
+            .then(p => port = p)
+            .then(() => {
+                const portBinding = {27017: port};
+                return startContainer(t, {
+                    imageName: MONGODB_IMAGE_NAME,
+                    tagName,
+                    portBinding,
+                    waitFor: {stdout: {phrase: MONGODB_STARTUP_MESSAGE}},
+                });
+            })
+            .then(cao => containerAndOpts = cao)
+            .then(() => {
+                const opts = containerAndOpts.opts;
+                t.comment(`Started container [${opts.containerName}] on local port ${opts.portBinding[27017]}`);
+                cb(containerAndOpts);
+            })
+            .then(() => t.end())
+            .catch(err => {
+                if (containerAndOpts) {
+                    return killContainer(t, containerAndOpts.opts)
+                        .then(() => t.end(err));
+                }
+
+                return t.end(err);
+            });
+    });
+}
+
+// Utility function to stop a mongodb instance
+export function stopContainerizedMongoDBTest(test: any, provider: () => ContainerAndOpts | null) {
+    stopContainerizedInstanceTest(test, provider, "mongodb");
+}
+
+// Utility function to create a connection string
+export function makeMongoDBConnectionString(provider: () => ContainerAndOpts | null): Promise<string> {
+    const cao = provider();
+    if (!cao) { return Promise.reject(new Error("no CAO in provider")); }
+
+    const port: number = cao.opts.portBinding[27017];
+    return Promise.resolve(`mongodb://localhost:${port}/test`);
+}
+
+// Helper for creating a connected MongoDB client
+export function makeConnectedMongoClient(provider: () => ContainerAndOpts | null): Promise<any> {
+    // mongodb is required lazily, so that it is only loaded by tests that have set up the integration
+    const { MongoClient } = require("mongodb");
+
+    return makeMongoDBConnectionString(provider)
+        .then(url => new MongoClient(url, {useUnifiedTopology: true}).connect());
+}
+
+const REDIS_IMAGE_NAME = "redis";
+const REDIS_IMAGE_TAG = "6-alpine";
+const REDIS_STARTUP_MESSAGE = "Ready to accept connections";
+
+// Utility function to start a redis instance
+export function startContainerizedRedisTest(
+    test: any,
+    cb: (cao: ContainerAndOpts) => void,
+    tagName?: string,
+) {
+    tagName = tagName || REDIS_IMAGE_TAG;
+
+    test("Starting redis instance", (t: Test) => {
+        let port: number;
+        let containerAndOpts: ContainerAndOpts;
+
+        getPort()
+            .then(p => port = p)
+            .then(() => {
+                const portBinding = {6379: port};
+                return startContainer(t, {
+                    imageName: REDIS_IMAGE_NAME,
+                    tagName,
+                    portBinding,
+                    waitFor: {stdout: {phrase: REDIS_STARTUP_MESSAGE}},
+                });
+            })
+            .then(cao => containerAndOpts = cao)
+            .then(() => {
+                const opts = containerAndOpts.opts;
+                t.comment(`Started container [${opts.containerName}] on local port ${opts.portBinding[6379]}`);
+                cb(containerAndOpts);
+            })
+            .then(() => t.end())
+            .catch(err => {
+                if (containerAndOpts) {
+                    return killContainer(t, containerAndOpts.opts)
+                        .then(() => t.end(err));
+                }
+
+                return t.end(err);
+            });
+    });
+}
+
+// Utility function to stop a redis instance
+export function stopContainerizedRedisTest(test: any, provider: () => ContainerAndOpts | null) {
+    stopContainerizedInstanceTest(test, provider, "redis");
+}
+
+// Utility function to get the options (host & port) to use when connecting to redis
+export function makeRedisConnectionOptions(provider: () => ContainerAndOpts | null): {host: string, port: number} {
+    const cao = provider();
+    if (!cao) { throw new Error("no CAO in provider"); }
+
+    return {host: "localhost", port: cao.opts.portBinding[6379]};
+}
+
+// Get the individual messages contained in a message sent to the agent (requests are sent as a single batch)
+export function getSentMessages(message: BaseAgentRequest): BaseAgentRequest[] {
+    if (!message) { return []; }
+    if (message.type !== AgentRequestType.V1BatchCommand) { return [message]; }
+
+    return (message as V1BatchCommand).commands;
+}
+
 // Create a minimal object for easy printing (or util.inspecting) of scout requests/spans
 export function minimal(reqOrSpan: ScoutRequest | ScoutSpan): object {
     if (reqOrSpan instanceof ScoutRequest) {
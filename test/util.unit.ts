@@ -5,6 +5,14 @@ import {
     splitAgentResponses,
     scrubRequestPathParams,
     scrubRequestPath,
+    scrubDocument,
+    isIPInCIDR,
+    resolveRemoteIP,
+    parseTraceParent,
+    buildTraceParent,
+    buildTraceState,
+    toTraceContextId,
+    buildRoutePathNormalizer,
 } from "../lib/types";
 
 import { buildCoreAgentSocketResponse } from "./util";
@@ -78,3 +86,157 @@ test("scrubURLToPath scrubs URL down to path", t => {
 
     t.end();
 });
+
+test("scrubDocument scrubs values but keeps the structure of the document", t => {
+    const replacement = Constants.DEFAULT_DOCUMENT_SCRUB_REPLACEMENT;
+    const scrubbed = scrubDocument({
+        name: "john",
+        age: {$gt: 18},
+        $or: [{role: "admin"}, {tags: {$in: ["a", "b"]}}],
+        createdAt: new Date(),
+    });
+
+    t.deepEquals(
+        scrubbed,
+        {
+            name: replacement,
+            age: {$gt: replacement},
+            $or: [{role: replacement}, {tags: {$in: [replacement, replacement]}}],
+            createdAt: replacement,
+        },
+        "values were replaced",
+    );
+
+    t.end();
+});
+
+test("isIPInCIDR matches IPv4 and IPv6 addresses against ranges", t => {
+    t.assert(isIPInCIDR("10.1.2.3", "10.0.0.0/8"), "IPv4 address in range");
+    t.assert(isIPInCIDR("172.31.255.255", "172.16.0.0/12"), "IPv4 address at the end of a range");
+    t.assert(!isIPInCIDR("172.32.0.1", "172.16.0.0/12"), "IPv4 address outside of range");
+    t.assert(isIPInCIDR("::ffff:127.0.0.1", "127.0.0.0/8"), "IPv4-mapped address in IPv4 range");
+    t.assert(isIPInCIDR("192.168.1.1", "192.168.1.1"), "plain address matches itself");
+
+    t.assert(isIPInCIDR("::1", "::1/128"), "IPv6 loopback in range");
+    t.assert(isIPInCIDR("fd12:3456::1", "fc00::/7"), "IPv6 address in range");
+    t.assert(!isIPInCIDR("2001:db8::1", "fc00::/7"), "IPv6 address outside of range");
+    t.assert(!isIPInCIDR("10.0.0.1", "::/0"), "IPv4 address never matches an IPv6 range");
+
+    t.assert(!isIPInCIDR("unknown", "0.0.0.0/0"), "invalid address never matches");
+
+    t.end();
+});
+
+test("resolveRemoteIP resolves the client through trusted proxies", t => {
+    const trusted = Constants.DEFAULT_TRUSTED_PROXIES;
+
+    t.equals(resolveRemoteIP({}, "203.0.113.7", trusted), "203.0.113.7", "socket address without headers");
+    t.equals(resolveRemoteIP({}, "::ffff:203.0.113.7", trusted), "203.0.113.7", "IPv4-mapped socket address");
+    t.equals(resolveRemoteIP({}, undefined, trusted), null, "no socket address");
+
+    t.equals(
+        resolveRemoteIP({"x-forwarded-for": "198.51.100.1"}, "203.0.113.7", trusted),
+        "203.0.113.7",
+        "forwarding headers from untrusted peers are ignored",
+    );
+
+    t.equals(
+        resolveRemoteIP({"x-forwarded-for": "1.1.1.1, 198.51.100.1, 10.0.0.2"}, "127.0.0.1", trusted),
+        "198.51.100.1",
+        "X-Forwarded-For is walked back to the first untrusted address",
+    );
+
+    t.equals(
+        resolveRemoteIP({"x-real-ip": "198.51.100.1"}, "10.0.0.1", trusted),
+        "198.51.100.1",
+        "X-Real-IP is used from a trusted proxy",
+    );
+
+    t.equals(
+        resolveRemoteIP(
+            {
+                "forwarded": "for=198.51.100.1;proto=https, for=\"[2001:db8:cafe::17]:4711\"",
+                "x-forwarded-for": "192.0.2.1",
+            },
+            "10.0.0.1",
+            trusted,
+        ),
+        "2001:db8:cafe::17",
+        "Forwarded takes precedence, with quotes, brackets and ports removed",
+    );
+
+    t.equals(
+        resolveRemoteIP({"x-forwarded-for": "unknown, 10.0.0.2"}, "10.0.0.1", trusted),
+        "10.0.0.2",
+        "chain ends at the proxy that reported an invalid address",
+    );
+
+    t.equals(
+        resolveRemoteIP({"x-forwarded-for": "198.51.100.1"}, "10.0.0.1", []),
+        "10.0.0.1",
+        "nothing is trusted without trusted proxies",
+    );
+
+    t.end();
+});
+
+test("parseTraceParent accepts valid W3C traceparent headers only", t => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentId = "00f067aa0ba902b7";
+
+    t.deepEquals(
+        parseTraceParent(`00-${traceId}-${parentId}-01`),
+        {version: "00", traceId, parentId, flags: "01"},
+        "valid header is parsed",
+    );
+    t.deepEquals(
+        parseTraceParent([`00-${traceId}-${parentId}-00`]),
+        {version: "00", traceId, parentId, flags: "00"},
+        "first of multiple headers is used",
+    );
+    t.assert(parseTraceParent(`01-${traceId}-${parentId}-01-future`), "future versions may have more fields");
+
+    t.equals(parseTraceParent(undefined), null, "missing header");
+    t.equals(parseTraceParent(`00-${traceId}-${parentId}-01-extra`), null, "version 00 with extra fields");
+    t.equals(parseTraceParent(`ff-${traceId}-${parentId}-01`), null, "version ff");
+    t.equals(parseTraceParent(`00-${"0".repeat(32)}-${parentId}-01`), null, "all-zero trace ID");
+    t.equals(parseTraceParent(`00-${traceId}-${"0".repeat(16)}-01`), null, "all-zero parent ID");
+    t.equals(parseTraceParent(`00-${traceId.toUpperCase()}-${parentId}-01`), null, "upper case hex");
+
+    t.end();
+});
+
+test("trace context headers are built from scout IDs", t => {
+    const traceId = toTraceContextId("req-4bf92f35-77b3-4da6-a3ce-929d0e0e4736", 32);
+    const parentId = toTraceContextId("span-00f067aa-0ba9-02b7-a3ce-929d0e0e4736", 16);
+
+    t.equals(traceId, "4bf92f3577b34da6a3ce929d0e0e4736", "request ID is converted to a trace ID");
+    t.equals(parentId, "00f067aa0ba902b7", "span ID is converted to a parent ID");
+    t.equals(buildTraceParent(traceId, parentId), `00-${traceId}-${parentId}-01`, "traceparent is built");
+
+    t.equals(buildTraceState(parentId), `scout=${parentId}`, "tracestate without inbound state");
+    t.equals(
+        buildTraceState(parentId, "rojo=00f067aa0ba902b7, scout=1111111111111111,congo=t61rcWkgMzE"),
+        `scout=${parentId},rojo=00f067aa0ba902b7,congo=t61rcWkgMzE`,
+        "scout's entry goes first, replacing the inbound one",
+    );
+
+    t.end();
+});
+
+test("request paths are normalized into route names", t => {
+    const normalize = buildRoutePathNormalizer(["/users/:id/posts", "/files/(.*)"]);
+
+    t.equals(normalize("/users/42/posts"), "/users/:id/posts", "path matching a route is named after it");
+    t.equals(normalize("/files/a/b.txt"), "/files/(.*)", "routes may match multiple segments");
+    t.equals(normalize("/orders/1234/items"), "/orders/:id/items", "numeric IDs are replaced");
+    t.equals(
+        normalize("/orders/4bf92f35-77b3-4da6-a3ce-929d0e0e4736"),
+        "/orders/:id",
+        "UUIDs are replaced",
+    );
+    t.equals(normalize("/commits/4bf92f3577b34da6"), "/commits/:id", "long hex strings are replaced");
+    t.equals(normalize("/api/v2/status"), "/api/v2/status", "other paths are left as they are");
+
+    t.end();
+});